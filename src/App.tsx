@@ -12,6 +12,8 @@ import ContactsPage from "./pages/Contacts"
 import ProjectsPage from "./pages/Projects"
 import PropertiesPage from "./pages/Properties"
 import DatabasePage from "./pages/Database"
+import ActivityPage from "./pages/Activity"
+import RecycleBinPage from "./pages/RecycleBin"
 import UnauthorizedPage from "./pages/Unauthorized"
 
 function App() {
@@ -113,6 +115,26 @@ function App() {
           }
         />
 
+        {/* Activity (audit log) page - IT, CEO, Admin */}
+        <Route
+          path="/activity"
+          element={
+            <ProtectedRoute>
+              <ActivityPage />
+            </ProtectedRoute>
+          }
+        />
+
+        {/* Recycle bin - IT, CEO, Admin */}
+        <Route
+          path="/recycle-bin"
+          element={
+            <ProtectedRoute>
+              <RecycleBinPage />
+            </ProtectedRoute>
+          }
+        />
+
         {/* Role-based routes - can be customized as needed */}
         <Route
           path="/admin/dashboard"
@@ -11,11 +11,14 @@ import {
   MapPin,
   Users,
   Database,
+  History,
+  Trash2,
 } from "lucide-react"
 
 
 import { NavMain } from "@/components/nav-main"
 import { NavUser } from "@/components/nav-user"
+import { NotificationsMenu } from "@/components/shared/NotificationsMenu"
 import logo from "@/assets/logo.PNG?url"
 import {
   Sidebar,
@@ -28,7 +31,7 @@ import {
 } from "@/components/ui/sidebar"
 import { useAuth } from "@/contexts/AuthContext"
 import { hasRoleAccess } from "@/lib/rbac"
-import { canViewEmployees, canViewAreas, canViewDevelopers } from "@/config/roles"
+import { canViewEmployees, canViewAreas, canViewDevelopers, canViewActivity, canManageRecycleBin } from "@/config/roles"
 import type { UserRole } from "@/types/auth"
 import type { LucideIcon } from "lucide-react"
 
@@ -129,6 +132,16 @@ export function AppSidebar({
       ],
       // Visible to roles that can view employees
     },
+    {
+      title: "Activity",
+      url: "/activity",
+      icon: History,
+    },
+    {
+      title: "Recycle Bin",
+      url: "/recycle-bin",
+      icon: Trash2,
+    },
   ]
 
   // Filter nav items based on role
@@ -148,6 +161,16 @@ export function AppSidebar({
       return canViewDevelopers(userRole)
     }
     
+    // Activity log - IT, CEO, Admin only
+    if (item.url === "/activity") {
+      return canViewActivity(userRole)
+    }
+    
+    // Recycle bin - IT, CEO, Admin only
+    if (item.url === "/recycle-bin") {
+      return canManageRecycleBin(userRole)
+    }
+    
     if (item.requiredRole && !hasRoleAccess(userRole, item.requiredRole)) {
       return false
     }
@@ -198,6 +221,7 @@ export function AppSidebar({
         <NavMain items={navMain} />
       </SidebarContent>
       <SidebarFooter>
+        {employee && <NotificationsMenu />}
         <NavUser user={sidebarUser} onLogout={logout} />
       </SidebarFooter>
     </Sidebar>
@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/shared/LoadingSpinner"
+import { Pagination } from "@/components/shared/Pagination"
+import { TRANSACTION_DUPLICATE_KEYS, TRANSACTION_IMPORT_FIELDS } from "@/config/transaction-import"
+import { findDuplicateGroups, mergeDuplicates, type DuplicateGroup } from "@/lib/duplicates"
+import { formatError } from "@/lib/error-formatter"
+import type { ScopeParams } from "@/lib/repositories/base"
+import { propertyTransactionRepository } from "@/lib/repositories/property-transaction"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { cn } from "@/lib/utils"
+import type { PropertyTransaction } from "@/types/archive"
+
+// Groups reviewed per page
+const GROUPS_PER_PAGE = 10
+// Columns shown side by side for a group
+const REVIEW_COLUMNS: Array<keyof PropertyTransaction & string> = [
+  "date", "project_name", "building", "unit_number", "land_number", "price", "size", "owner_name", "mobile1",
+]
+// Every importable column is merged, not just the ones on screen
+const MERGE_COLUMNS = TRANSACTION_IMPORT_FIELDS.map(field => field.key)
+const columnLabel = (column: string) => TRANSACTION_IMPORT_FIELDS.find(field => field.key === column)?.label ?? column
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && String(value).trim() !== ""
+
+// The record with the most filled fields is kept by default (the oldest on a tie)
+function defaultKeep(rows: PropertyTransaction[]): number {
+  const filled = (row: PropertyTransaction) => MERGE_COLUMNS.filter(column => isFilled(row[column])).length
+  return rows.reduce((best, row) => filled(row) > filled(best) ? row : best, rows[0]).id
+}
+
+interface DuplicateGroupReviewProps {
+  rows: PropertyTransaction[]
+  merging: boolean
+  onMerge: (keep: PropertyTransaction, duplicates: PropertyTransaction[]) => void
+  onDismiss: () => void
+}
+
+function DuplicateGroupReview({ rows, merging, onMerge, onDismiss }: DuplicateGroupReviewProps) {
+  const [keepId, setKeepId] = useState(() => defaultKeep(rows))
+  const keep = rows.find(row => row.id === keepId) ?? rows[0]
+  // Columns where the records disagree are highlighted
+  const differs = (column: keyof PropertyTransaction) =>
+    new Set(rows.map(row => String(row[column] ?? "").trim().toLowerCase())).size > 1
+
+  return (
+    <div className="rounded-lg border">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-24" />
+              <TableHead>ID</TableHead>
+              {REVIEW_COLUMNS.map(column => (
+                <TableHead key={column} className="whitespace-nowrap">{columnLabel(column)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.id} className={cn(row.id === keep.id && "bg-primary/5")}>
+                <TableCell>
+                  <Button
+                    variant={row.id === keep.id ? "default" : "outline"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setKeepId(row.id)}
+                    disabled={merging}
+                  >
+                    {row.id === keep.id ? "Keeping" : "Keep"}
+                  </Button>
+                </TableCell>
+                <TableCell className="font-mono text-xs">{row.id}</TableCell>
+                {REVIEW_COLUMNS.map(column => (
+                  <TableCell
+                    key={column}
+                    className={cn("whitespace-nowrap", differs(column) && "text-amber-700 dark:text-amber-400")}
+                  >
+                    {isFilled(row[column]) ? row[column]!.toLocaleString() : "-"}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex flex-wrap items-center justify-end gap-2 border-t p-3">
+        <span className="mr-auto text-xs text-muted-foreground">
+          Empty fields of the kept record are filled from the others, which move to the recycle bin.
+        </span>
+        <Button variant="outline" size="sm" onClick={onDismiss} disabled={merging}>
+          Not duplicates
+        </Button>
+        <Button size="sm" onClick={() => onMerge(keep, rows.filter(row => row.id !== keep.id))} disabled={merging}>
+          Merge {rows.length} records
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface FindDuplicatesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Conditions of the current search; the scan can be limited to them
+  scope: ScopeParams
+  // Called after records were merged
+  onMerged: () => void | Promise<void>
+}
+
+/**
+ * Find transactions that share a duplicate key and merge them after review
+ */
+export function FindDuplicatesDialog({ open, onOpenChange, scope, onMerged }: FindDuplicatesDialogProps) {
+  const hasScope = Boolean(scope.filters?.length || scope.logic?.length || scope.or?.length)
+  const [keyId, setKeyId] = useState(TRANSACTION_DUPLICATE_KEYS[0].id)
+  const [searchOnly, setSearchOnly] = useState(true)
+  const [progress, setProgress] = useState<{ scanned: number; total: number } | null>(null)
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [rows, setRows] = useState<Map<number, PropertyTransaction>>(new Map())
+  // Ids the loaded rows were fetched for
+  const [loadedIds, setLoadedIds] = useState("")
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+
+  const visibleGroups = groups?.slice((currentPage - 1) * GROUPS_PER_PAGE, currentPage * GROUPS_PER_PAGE) ?? []
+  const visibleIds = visibleGroups.flatMap(group => group.ids)
+  const idsKey = visibleIds.join(",")
+  // Removing a group refetches the page, but its other groups are already loaded
+  const isLoading = loadedIds !== idsKey && visibleIds.some(id => !rows.has(id))
+
+  // Full records of the groups on the current page
+  useEffect(() => {
+    if (!idsKey) return
+
+    let active = true
+    propertyTransactionRepository
+      .list({ filters: [{ column: "id", operator: "in", value: idsKey.split(",").map(Number) }] })
+      .then(({ data }) => {
+        if (!active) return
+        setRows(new Map(data.map(row => [row.id, row])))
+        setLoadedIds(idsKey)
+      })
+      .catch((err: unknown) => {
+        console.error("Error fetching duplicates:", err)
+        if (active) toast.error(formatError(err) || "Failed to fetch duplicates")
+      })
+
+    return () => {
+      active = false
+    }
+  }, [idsKey])
+
+  const handleScan = async () => {
+    const key = TRANSACTION_DUPLICATE_KEYS.find(candidate => candidate.id === keyId)!
+    try {
+      setGroups(null)
+      setProgress({ scanned: 0, total: 0 })
+      const found = await findDuplicateGroups(
+        propertyTransactionRepository,
+        key,
+        hasScope && searchOnly ? scope : {},
+        (scanned, total) => setProgress({ scanned, total })
+      )
+      setGroups(found)
+      setCurrentPage(1)
+    } catch (err: unknown) {
+      console.error("Error finding duplicates:", err)
+      toast.error(formatError(err) || "Failed to find duplicates")
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const removeGroup = (groupKey: string) => {
+    const remaining = groups!.filter(group => group.key !== groupKey)
+    setGroups(remaining)
+    // Stay on the last page when its only group goes
+    setCurrentPage(page => Math.min(page, Math.max(1, Math.ceil(remaining.length / GROUPS_PER_PAGE))))
+  }
+
+  const handleMerge = async (group: DuplicateGroup, keep: PropertyTransaction, duplicates: PropertyTransaction[]) => {
+    try {
+      setMergingKey(group.key)
+      const batch = await mergeDuplicates(propertyTransactionRepository, keep, duplicates, MERGE_COLUMNS)
+      removeGroup(group.key)
+      await onMerged()
+      toastDeletedWithUndo(
+        `Merged ${duplicates.length + 1} records into #${keep.id}`,
+        batch,
+        onMerged
+      )
+    } catch (err: unknown) {
+      console.error("Error merging duplicates:", err)
+      toast.error(formatError(err) || "Failed to merge duplicates")
+    } finally {
+      setMergingKey(null)
+    }
+  }
+
+  const totalRecords = groups?.reduce((sum, group) => sum + group.ids.length, 0) ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !mergingKey && onOpenChange(next)}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Find duplicates</DialogTitle>
+          <DialogDescription>
+            Transactions with the same values in the chosen columns, ignoring case and spacing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span>Match on</span>
+          <Select value={keyId} onValueChange={setKeyId} disabled={progress !== null}>
+            <SelectTrigger className="h-8 w-auto cursor-pointer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSACTION_DUPLICATE_KEYS.map(key => (
+                <SelectItem key={key.id} value={key.id} className="cursor-pointer">{key.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {hasScope && (
+            <label className="flex items-center gap-2">
+              <Checkbox checked={searchOnly} onCheckedChange={(checked) => setSearchOnly(checked === true)} disabled={progress !== null} />
+              Only in the current search results
+            </label>
+          )}
+          <Button size="sm" onClick={handleScan} disabled={progress !== null}>
+            {progress ? "Searching..." : "Find duplicates"}
+          </Button>
+        </div>
+
+        {progress && (
+          <div className="space-y-2">
+            <Progress value={progress.total > 0 ? progress.scanned / progress.total * 100 : 0} />
+            <p className="text-xs text-muted-foreground tabular-nums">
+              Checked {progress.scanned.toLocaleString()} of {progress.total.toLocaleString()} transactions
+            </p>
+          </div>
+        )}
+
+        {groups && (
+          groups.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No duplicates found.</p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {groups.length.toLocaleString()} group{groups.length === 1 ? "" : "s"} of duplicates
+                ({totalRecords.toLocaleString()} transactions)
+              </p>
+              {!isLoading ? (
+                visibleGroups.map((group) => {
+                  // Records deleted since the search are left out
+                  const groupRows = group.ids.flatMap(id => rows.get(id) ?? [])
+                  return groupRows.length > 1 && (
+                    <DuplicateGroupReview
+                      key={group.key}
+                      rows={groupRows}
+                      merging={mergingKey === group.key}
+                      onMerge={(keep, duplicates) => handleMerge(group, keep, duplicates)}
+                      onDismiss={() => removeGroup(group.key)}
+                    />
+                  )
+                })
+              ) : (
+                <LoadingSpinner message="Loading duplicates..." />
+              )}
+              <Pagination
+                currentPage={currentPage}
+                totalPages={Math.ceil(groups.length / GROUPS_PER_PAGE)}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react"
+import { Download, Undo2 } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Pagination } from "@/components/shared/Pagination"
+import { TableSkeleton } from "@/components/shared/TableSkeleton"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { formatError } from "@/lib/error-formatter"
+import { downloadFailedRows, formatJobDuration, isJobInterrupted, processedRows } from "@/lib/import-jobs"
+import { pageRange } from "@/lib/repositories/base"
+import { importJobRepository } from "@/lib/repositories/import-job"
+import { cn } from "@/lib/utils"
+import type { ImportJob } from "@/types/import"
+
+// Everything but the failed rows, which are only loaded for a download
+const LIST_COLUMNS = "id,table_name,file_name,status,total_rows,inserted,updated,skipped,failed,error,created_by_name,started_at,finished_at,rolled_back_at,rolled_back_by_name,rolled_back_rows,updated_at"
+const ITEMS_PER_PAGE = 20
+
+function JobStatus({ job, now }: { job: ImportJob; now: number }) {
+  if (job.rolled_back_at) {
+    return (
+      <span
+        className="text-muted-foreground"
+        title={`${(job.rolled_back_rows ?? 0).toLocaleString()} rows removed by ${job.rolled_back_by_name || "an unknown user"} on ${new Date(job.rolled_back_at).toLocaleString()}`}
+      >
+        Rolled back
+      </span>
+    )
+  }
+  if (isJobInterrupted(job, now)) {
+    return <span className="text-muted-foreground" title="The browser that ran this import was closed before it finished">Interrupted</span>
+  }
+  if (job.status === "running") {
+    const percent = job.total_rows > 0 ? Math.round(processedRows(job) / job.total_rows * 100) : 0
+    return (
+      <div className="w-28 space-y-1">
+        <span className="text-xs">Running {percent}%</span>
+        <Progress value={percent} className="h-1.5" />
+      </div>
+    )
+  }
+  return (
+    <span
+      className={cn(job.status === "failed" ? "text-destructive" : "text-emerald-700 dark:text-emerald-400")}
+      title={job.error ?? undefined}
+    >
+      {job.status === "failed" ? "Stopped" : "Completed"}
+    </span>
+  )
+}
+
+interface ImportHistoryProps {
+  // Table the listed imports went into
+  table: string
+  // Opens the rollback of a finished import; without it imports cannot be rolled back
+  onRollback?: (job: ImportJob) => void
+}
+
+/**
+ * Spreadsheet imports into a table, newest first, with their progress and failed rows reports
+ */
+export function ImportHistory({ table, onRollback }: ImportHistoryProps) {
+  const [jobs, setJobs] = useState<ImportJob[]>([])
+  const [loading, setLoading] = useState(true)
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  // When the list was loaded, for the run time of running jobs
+  const [loadedAt, setLoadedAt] = useState(0)
+  // Bumped by realtime inserts and deletes to reload the page
+  const [version, setVersion] = useState(0)
+  const [downloadingId, setDownloadingId] = useState<number | null>(null)
+
+  useEffect(() => {
+    let active = true
+
+    importJobRepository
+      .list({
+        select: LIST_COLUMNS,
+        filters: [{ column: "table_name", operator: "eq", value: table }],
+        order: [{ column: "started_at", direction: "desc" }],
+        ...pageRange(currentPage, ITEMS_PER_PAGE),
+        count: true,
+      })
+      .then(({ data, count }) => {
+        if (!active) return
+        setJobs(data)
+        if (count !== null) setTotalCount(count)
+        setLoadedAt(Date.now())
+      })
+      .catch((err: unknown) => {
+        console.error("Error fetching import history:", err)
+        if (active) toast.error(formatError(err) || "Failed to fetch import history")
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+
+    return () => {
+      active = false
+    }
+  }, [table, currentPage, version])
+
+  // Progress of running imports, including ones started in other tabs
+  const refetch = useCallback(() => setVersion(current => current + 1), [])
+  useRealtimeList({ table: "import_job", rows: jobs, setRows: setJobs, refetch })
+
+  const handleDownload = async (job: ImportJob) => {
+    try {
+      setDownloadingId(job.id)
+      const full = await importJobRepository.get(job.id)
+      if (!full) throw new Error("This import no longer exists")
+      downloadFailedRows(full)
+    } catch (err: unknown) {
+      console.error("Error downloading failed rows:", err)
+      toast.error(formatError(err) || "Failed to download failed rows")
+    } finally {
+      setDownloadingId(null)
+    }
+  }
+
+  if (loading) {
+    return <TableSkeleton columns={10} rows={5} />
+  }
+
+  const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE)
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Started</TableHead>
+              <TableHead>File</TableHead>
+              <TableHead>Uploaded by</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Inserted</TableHead>
+              <TableHead className="text-right">Updated</TableHead>
+              <TableHead className="text-right">Skipped</TableHead>
+              <TableHead className="text-right">Failed</TableHead>
+              <TableHead>Duration</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center text-muted-foreground">
+                  No imports yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(job.started_at).toLocaleString()}</TableCell>
+                  <TableCell className="max-w-[16rem] truncate" title={job.file_name}>{job.file_name}</TableCell>
+                  <TableCell>{job.created_by_name || "Unknown user"}</TableCell>
+                  <TableCell><JobStatus job={job} now={loadedAt} /></TableCell>
+                  <TableCell className="text-right tabular-nums">{job.inserted.toLocaleString()}</TableCell>
+                  <TableCell className="text-right tabular-nums">{job.updated.toLocaleString()}</TableCell>
+                  <TableCell className="text-right tabular-nums">{job.skipped.toLocaleString()}</TableCell>
+                  <TableCell className={cn("text-right tabular-nums", job.failed > 0 && "text-destructive")}>
+                    {job.failed.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap tabular-nums">
+                    {job.finished_at ? formatJobDuration(job) : "-"}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {job.finished_at && job.failed > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDownload(job)}
+                        disabled={downloadingId === job.id}
+                        title="Download the failed rows with the reason for each one"
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        Failed rows
+                      </Button>
+                    )}
+                    {onRollback && job.finished_at && !job.rolled_back_at && job.inserted > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRollback(job)}
+                        title="Remove every transaction this import added"
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Roll back
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+    </div>
+  )
+}
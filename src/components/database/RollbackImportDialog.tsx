@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/shared/LoadingSpinner"
+import { TRANSACTION_IMPORT_FIELDS } from "@/config/transaction-import"
+import { formatError } from "@/lib/error-formatter"
+import { previewRollback, rollbackImportJob, type RollbackPreview } from "@/lib/import-jobs"
+import { propertyTransactionRepository } from "@/lib/repositories/property-transaction"
+import type { PropertyTransaction } from "@/types/archive"
+import type { ImportJob } from "@/types/import"
+
+// Columns of the sample rows
+const SAMPLE_COLUMNS: Array<keyof PropertyTransaction & string> = [
+  "date", "project_name", "building", "unit_number", "land_number", "price", "owner_name",
+]
+const columnLabel = (column: string) => TRANSACTION_IMPORT_FIELDS.find(field => field.key === column)?.label ?? column
+
+interface RollbackImportDialogProps {
+  // Import to roll back; the dialog is closed while null
+  job: ImportJob | null
+  onClose: () => void
+  // Called with the updated job after its rows were removed
+  onRolledBack: (job: ImportJob) => void | Promise<void>
+}
+
+/**
+ * Preview of the transactions an import added, and the action that removes them all
+ */
+export function RollbackImportDialog({ job, onClose, onRolledBack }: RollbackImportDialogProps) {
+  const [rollingBack, setRollingBack] = useState(false)
+
+  return (
+    <Dialog open={!!job} onOpenChange={(open) => !open && !rollingBack && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Roll back import</DialogTitle>
+          <DialogDescription>
+            {job && (
+              <>
+                {job.file_name}, uploaded by {job.created_by_name || "an unknown user"} on{" "}
+                {new Date(job.started_at).toLocaleString()}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        {job && (
+          <RollbackPreviewContent
+            key={job.id}
+            job={job}
+            rollingBack={rollingBack}
+            setRollingBack={setRollingBack}
+            onClose={onClose}
+            onRolledBack={onRolledBack}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface RollbackPreviewContentProps extends Omit<RollbackImportDialogProps, "job"> {
+  job: ImportJob
+  rollingBack: boolean
+  setRollingBack: (rollingBack: boolean) => void
+}
+
+function RollbackPreviewContent({ job, rollingBack, setRollingBack, onClose, onRolledBack }: RollbackPreviewContentProps) {
+  const [preview, setPreview] = useState<RollbackPreview<PropertyTransaction> | null>(null)
+
+  useEffect(() => {
+    let active = true
+    previewRollback(propertyTransactionRepository, job)
+      .then((result) => {
+        if (active) setPreview(result)
+      })
+      .catch((err: unknown) => {
+        console.error("Error previewing rollback:", err)
+        if (active) toast.error(formatError(err) || "Failed to load the imported transactions")
+      })
+
+    return () => {
+      active = false
+    }
+  }, [job])
+
+  const handleRollback = async () => {
+    try {
+      setRollingBack(true)
+      const updated = await rollbackImportJob(propertyTransactionRepository, job)
+      toast.success(
+        `Rolled back ${job.file_name}: ${(updated.rolled_back_rows ?? 0).toLocaleString()} transactions moved to the recycle bin`
+      )
+      await onRolledBack(updated)
+      onClose()
+    } catch (err: unknown) {
+      console.error("Error rolling back import:", err)
+      toast.error(formatError(err) || "Failed to roll back import")
+    } finally {
+      setRollingBack(false)
+    }
+  }
+
+  if (!preview) {
+    return <LoadingSpinner message="Loading imported transactions..." />
+  }
+
+  const deletedSince = job.inserted - preview.remaining
+
+  return (
+    <>
+      <div className="space-y-3 text-sm">
+        <p>
+          {preview.remaining > 0 ? (
+            <>
+              <span className="font-medium">{preview.remaining.toLocaleString()}</span> transaction
+              {preview.remaining === 1 ? "" : "s"} added by this import will move to the recycle bin, where they
+              can be restored together.
+            </>
+          ) : (
+            "None of the transactions this import added are left."
+          )}
+          {deletedSince > 0 && ` ${deletedSince.toLocaleString()} of them were already deleted.`}
+        </p>
+        {job.updated > 0 && (
+          <p className="text-amber-700 dark:text-amber-400">
+            The {job.updated.toLocaleString()} existing transaction{job.updated === 1 ? "" : "s"} this import
+            updated keep the imported values.
+          </p>
+        )}
+      </div>
+
+      {preview.sample.length > 0 && (
+        <div className="rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                {SAMPLE_COLUMNS.map(column => (
+                  <TableHead key={column} className="whitespace-nowrap">{columnLabel(column)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.sample.map(row => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-mono text-xs">{row.id}</TableCell>
+                  {SAMPLE_COLUMNS.map(column => (
+                    <TableCell key={column} className="whitespace-nowrap">{row[column]?.toLocaleString() ?? "-"}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {preview.remaining > preview.sample.length && (
+            <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+              And {(preview.remaining - preview.sample.length).toLocaleString()} more
+            </p>
+          )}
+        </div>
+      )}
+
+      <DialogFooter className="gap-2">
+        <Button variant="outline" onClick={onClose} disabled={rollingBack}>
+          Cancel
+        </Button>
+        <Button variant="destructive" onClick={handleRollback} disabled={rollingBack || preview.remaining === 0}>
+          {rollingBack ? "Rolling back..." : `Roll back ${preview.remaining.toLocaleString()} transactions`}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
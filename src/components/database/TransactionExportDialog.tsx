@@ -0,0 +1,201 @@
+import { useRef, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { TRANSACTION_EXPORT_COLUMNS } from "@/config/transaction-export"
+import { formatError } from "@/lib/error-formatter"
+import type { ScopeParams, SortOrder } from "@/lib/repositories/base"
+import { propertyTransactionRepository } from "@/lib/repositories/property-transaction"
+import { EXPORT_MAX_ROWS, exportRows } from "@/lib/spreadsheet-export"
+import type { ExportFormat } from "@/types/export"
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: "csv", label: "CSV (.csv)" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+]
+
+interface TransactionExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Conditions and sort of the current search
+  scope: ScopeParams
+  order: SortOrder[]
+  // The search as typed, for the export log
+  query: string
+  // Transactions matching the search
+  total: number
+  // Whether phone, ID and passport columns can be exported
+  canExportPersonalData: boolean
+}
+
+/**
+ * Export every transaction matching the current search, with a choice of columns and format
+ */
+export function TransactionExportDialog({
+  open,
+  onOpenChange,
+  scope,
+  order,
+  query,
+  total,
+  canExportPersonalData,
+}: TransactionExportDialogProps) {
+  const columns = TRANSACTION_EXPORT_COLUMNS.filter(column => canExportPersonalData || !column.personal)
+  const hasHiddenColumns = columns.length < TRANSACTION_EXPORT_COLUMNS.length
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(columns.map(column => column.key)))
+  const [progress, setProgress] = useState<{ exported: number; total: number } | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const chosen = columns.filter(column => selected.has(column.key))
+  const tooLarge = total > EXPORT_MAX_ROWS
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (checked) next.add(key)
+      else next.delete(key)
+      return next
+    })
+  }
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    try {
+      setProgress({ exported: 0, total })
+      const exported = await exportRows({
+        repository: propertyTransactionRepository,
+        scope,
+        order,
+        columns: chosen,
+        format,
+        name: "transactions",
+        query,
+        allowPersonalData: canExportPersonalData,
+        onProgress: (done, all) => setProgress({ exported: done, total: all }),
+        signal: controller.signal,
+      })
+      toast.success(`Exported ${exported.toLocaleString()} transaction${exported === 1 ? "" : "s"}`)
+      onOpenChange(false)
+    } catch (err: unknown) {
+      if (controller.signal.aborted) {
+        toast.info("Export cancelled")
+        return
+      }
+      console.error("Error exporting transactions:", err)
+      toast.error(formatError(err) || "Failed to export transactions")
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const exporting = progress !== null
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !exporting && onOpenChange(next)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export transactions</DialogTitle>
+          <DialogDescription>
+            All {total.toLocaleString()} transaction{total === 1 ? "" : "s"}{" "}
+            {query.trim() ? "matching the current search" : "in the database"}, not just the current page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center gap-3">
+            <span>Format</span>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)} disabled={exporting}>
+              <SelectTrigger className="h-8 w-40 cursor-pointer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="cursor-pointer">{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Columns</span>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setSelected(new Set(columns.map(column => column.key)))}
+                  disabled={exporting}
+                >
+                  Select all
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7" onClick={() => setSelected(new Set())} disabled={exporting}>
+                  Clear
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              {columns.map(column => (
+                <label key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    checked={selected.has(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    disabled={exporting}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+            {hasHiddenColumns && (
+              <p className="text-xs text-muted-foreground">
+                Phone, ID and passport columns are left out: your role cannot export personal data.
+              </p>
+            )}
+          </div>
+
+          {tooLarge && (
+            <p className="text-xs text-destructive">
+              At most {EXPORT_MAX_ROWS.toLocaleString()} transactions can be exported at once. Narrow the search to export.
+            </p>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? progress.exported / progress.total * 100 : 0} />
+              <p className="text-xs text-muted-foreground tabular-nums">
+                Exported {progress.exported.toLocaleString()} of {progress.total.toLocaleString()} transactions
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => exporting ? abortRef.current?.abort() : onOpenChange(false)}>
+            {exporting ? "Stop export" : "Cancel"}
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || chosen.length === 0 || total === 0 || tooLarge}>
+            {exporting ? "Exporting..." : `Export ${chosen.length} column${chosen.length === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
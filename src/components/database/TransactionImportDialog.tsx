@@ -0,0 +1,476 @@
+import { useEffect, useMemo, useState } from "react"
+import { AlertTriangle, CheckCircle2, Download } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { LoadingSpinner } from "@/components/shared/LoadingSpinner"
+import { TRANSACTION_DUPLICATE_KEYS, TRANSACTION_IMPORT_FIELDS } from "@/config/transaction-import"
+import { useAuth } from "@/contexts/AuthContext"
+import { formatError } from "@/lib/error-formatter"
+import { downloadFailedRows, formatJobDuration, processedRows, runImportJob } from "@/lib/import-jobs"
+import { propertyTransactionRepository } from "@/lib/repositories/property-transaction"
+import {
+  checkColumn,
+  findSavedMapping,
+  mapRows,
+  missingFields,
+  parseCell,
+  readSpreadsheet,
+  saveMapping,
+  suggestMapping,
+  type Spreadsheet,
+} from "@/lib/spreadsheet-import"
+import { cn } from "@/lib/utils"
+import type { ColumnMapping, DuplicateAction, ImportJob } from "@/types/import"
+
+const TABLE = propertyTransactionRepository.table
+const FIELDS = TRANSACTION_IMPORT_FIELDS
+// Select value for columns that are not imported
+const SKIP = "__skip"
+// Select value for importing without a duplicate check
+const NO_KEY = "__none"
+const DUPLICATE_ACTIONS: Record<DuplicateAction, string> = {
+  skip: "Skip the row",
+  update: "Update the existing transaction",
+  keep: "Keep both",
+}
+const PREVIEW_ROWS = 5
+const LISTED_REJECTIONS = 5
+
+interface LoadedImport {
+  sheet: Spreadsheet
+  mapping: ColumnMapping
+  // A mapping was remembered for spreadsheets with these headers
+  isKnownTemplate: boolean
+}
+
+async function loadImport(file: File): Promise<LoadedImport> {
+  const sheet = await readSpreadsheet(file)
+  const saved = await findSavedMapping(TABLE, sheet.headers).catch((err: unknown) => {
+    console.warn("Could not load the saved column mapping:", err)
+    return null
+  })
+  return { sheet, mapping: saved ?? suggestMapping(sheet.headers, FIELDS), isKnownTemplate: saved !== null }
+}
+
+function ImportJobProgress({ job }: { job: ImportJob }) {
+  const processed = processedRows(job)
+  const percent = job.total_rows > 0 ? Math.round(processed / job.total_rows * 100) : 100
+
+  return (
+    <div className="space-y-4 py-2">
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="font-medium">
+            {!job.finished_at ? "Importing..." : job.status === "failed" ? "Import stopped" : "Import finished"}
+          </span>
+          <span className="text-muted-foreground tabular-nums">
+            {processed.toLocaleString()} of {job.total_rows.toLocaleString()} rows
+          </span>
+        </div>
+        <Progress value={percent} />
+      </div>
+
+      <dl className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-5">
+        {[
+          ["Inserted", job.inserted],
+          ["Updated", job.updated],
+          ["Skipped", job.skipped],
+          ["Failed", job.failed],
+        ].map(([label, count]) => (
+          <div key={label} className="rounded-md border p-3">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="text-lg font-semibold tabular-nums">{count.toLocaleString()}</dd>
+          </div>
+        ))}
+        {job.finished_at && (
+          <div className="rounded-md border p-3">
+            <dt className="text-muted-foreground">Duration</dt>
+            <dd className="text-lg font-semibold tabular-nums">{formatJobDuration(job)}</dd>
+          </div>
+        )}
+      </dl>
+
+      {job.error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{job.error}</div>
+      )}
+      {job.finished_at && job.failed > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Download the failed rows to see why each one was not imported. The file keeps your columns,
+          so it can be fixed and imported again.
+        </p>
+      )}
+    </div>
+  )
+}
+
+interface TransactionImportDialogProps {
+  // Spreadsheet picked by the user; render the dialog with a new key for every file
+  file: File
+  onClose: () => void
+  // Called when the import job has finished
+  onImported: (job: ImportJob) => void
+}
+
+/**
+ * Preview a spreadsheet of property transactions, map its columns and import it
+ */
+export function TransactionImportDialog({ file, onClose, onImported }: TransactionImportDialogProps) {
+  const { employee } = useAuth()
+  const [loaded, setLoaded] = useState<LoadedImport | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [remember, setRemember] = useState(true)
+  const [importing, setImporting] = useState(false)
+  // Duplicate key picked by the user (undefined: the first one the mapping covers)
+  const [keyChoice, setKeyChoice] = useState<string | null | undefined>(undefined)
+  const [onDuplicate, setOnDuplicate] = useState<DuplicateAction>("skip")
+  // The import job once started, updated as it progresses
+  const [job, setJob] = useState<ImportJob | null>(null)
+
+  useEffect(() => {
+    let active = true
+    loadImport(file)
+      .then((result) => {
+        if (!active) return
+        setLoaded(result)
+        setMapping(result.mapping)
+      })
+      .catch((err: unknown) => {
+        console.error("Error reading spreadsheet:", err)
+        if (active) setLoadError(formatError(err) || `Could not read ${file.name}`)
+      })
+    return () => {
+      active = false
+    }
+  }, [file])
+
+  const sheet = loaded?.sheet ?? null
+
+  // First values of every column, to recognise what it holds
+  const samples = useMemo(() => {
+    if (!sheet) return []
+    return sheet.headers.map((_, column) => sheet.rows
+      .map(row => row.cells[column])
+      .filter(cell => cell !== null)
+      .slice(0, 2)
+      .map(String))
+  }, [sheet])
+
+  const checks = useMemo(() => {
+    if (!sheet) return {}
+    return Object.fromEntries(sheet.headers.map((header) => {
+      const field = FIELDS.find(candidate => candidate.key === mapping[header])
+      return [header, field ? checkColumn(sheet, header, field.type) : null]
+    }))
+  }, [sheet, mapping])
+
+  const mapped = useMemo(() => sheet ? mapRows(sheet, mapping, FIELDS) : null, [sheet, mapping])
+  const missing = missingFields(mapping, FIELDS)
+  const previewColumns = sheet
+    ? sheet.headers
+      .map((header, index) => ({ header, index, field: FIELDS.find(field => field.key === mapping[header]) }))
+      .filter(column => column.field)
+    : []
+
+  // Keys can only be checked when all of their columns are imported
+  const mappedFields = new Set(Object.values(mapping))
+  const availableKeys = TRANSACTION_DUPLICATE_KEYS.filter(key => key.columns.every(column => mappedFields.has(column)))
+  const duplicateKey = keyChoice === undefined
+    ? availableKeys[0] ?? null
+    : availableKeys.find(key => key.id === keyChoice) ?? null
+
+  const handleImport = async () => {
+    if (!sheet || !mapped) return
+    setImporting(true)
+
+    try {
+      if (remember) {
+        await saveMapping(TABLE, sheet.headers, mapping, employee?.id ?? null).catch((err: unknown) => {
+          console.warn("Could not save the column mapping:", err)
+        })
+      }
+
+      const finished = await runImportJob({
+        repository: propertyTransactionRepository,
+        sheet,
+        mapping,
+        fields: FIELDS,
+        duplicates: duplicateKey ? { key: duplicateKey, action: onDuplicate } : undefined,
+        onProgress: setJob,
+      })
+
+      if (finished.status === "failed") {
+        toast.error(`Import stopped after ${finished.inserted.toLocaleString()} rows were imported: ${finished.error}`)
+      } else {
+        toast.success(`Imported ${finished.inserted.toLocaleString()} transaction${finished.inserted === 1 ? "" : "s"}` +
+          (finished.failed > 0 ? `; ${finished.failed.toLocaleString()} row${finished.failed === 1 ? "" : "s"} failed` : ""))
+      }
+      onImported(finished)
+    } catch (err: unknown) {
+      console.error("Error importing spreadsheet:", err)
+      toast.error(formatError(err) || "Failed to import file")
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !importing && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import {file.name}</DialogTitle>
+          <DialogDescription>
+            {!sheet
+              ? "Reading the file..."
+              : loaded?.isKnownTemplate
+                ? `${sheet.rows.length.toLocaleString()} rows. The saved mapping for this template was applied; check it before importing.`
+                : `${sheet.rows.length.toLocaleString()} rows. Choose the transaction field for each column.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{loadError}</div>
+        ) : job ? (
+          <ImportJobProgress job={job} />
+        ) : !sheet || !mapped ? (
+          <LoadingSpinner message="Reading spreadsheet..." />
+        ) : (
+          <div className="space-y-6">
+            <div className="rounded-lg border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample values</TableHead>
+                    <TableHead className="w-56">Import as</TableHead>
+                    <TableHead>Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sheet.headers.map((header, index) => {
+                    const check = checks[header]
+                    return (
+                      <TableRow key={header}>
+                        <TableCell className="font-medium">{header}</TableCell>
+                        <TableCell className="max-w-[14rem] truncate text-muted-foreground">
+                          {samples[index]?.join(", ") || "-"}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={mapping[header] ?? SKIP}
+                            onValueChange={(value) => setMapping({ ...mapping, [header]: value === SKIP ? null : value })}
+                            disabled={importing}
+                          >
+                            <SelectTrigger className="h-8 cursor-pointer">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={SKIP} className="cursor-pointer">Don't import</SelectItem>
+                              {FIELDS.map(field => (
+                                <SelectItem
+                                  key={field.key}
+                                  value={field.key}
+                                  // Each field takes one column
+                                  disabled={mapping[header] !== field.key && Object.values(mapping).includes(field.key)}
+                                  className="cursor-pointer"
+                                >
+                                  {field.label}{field.required ? " *" : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {!check ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : check.invalid === 0 ? (
+                            <span className="inline-flex items-center gap-1 text-emerald-700 dark:text-emerald-400">
+                              <CheckCircle2 className="h-3.5 w-3.5" />
+                              {check.filled.toLocaleString()} valid
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 text-destructive" title={`e.g. ${check.examples.join(", ")}`}>
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              {check.invalid.toLocaleString()} of {check.filled.toLocaleString()} invalid
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {previewColumns.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Preview</h3>
+                <div className="rounded-lg border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        {previewColumns.map(({ header, field }) => (
+                          <TableHead key={header} className="whitespace-nowrap">{field!.label}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sheet.rows.slice(0, PREVIEW_ROWS).map(row => (
+                        <TableRow key={row.number}>
+                          <TableCell className="text-muted-foreground">{row.number}</TableCell>
+                          {previewColumns.map(({ header, index, field }) => {
+                            const cell = parseCell(row.cells[index], field!.type)
+                            return (
+                              <TableCell
+                                key={header}
+                                className={cn("whitespace-nowrap", cell.error && "text-destructive")}
+                                title={cell.error}
+                              >
+                                {cell.error ? String(row.cells[index]) : cell.value?.toLocaleString() ?? "-"}
+                              </TableCell>
+                            )
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Duplicates</h3>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Match existing transactions on</span>
+                <Select
+                  value={duplicateKey?.id ?? NO_KEY}
+                  onValueChange={(value) => setKeyChoice(value === NO_KEY ? null : value)}
+                  disabled={importing}
+                >
+                  <SelectTrigger className="h-8 w-auto cursor-pointer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_KEY} className="cursor-pointer">Don't check for duplicates</SelectItem>
+                    {TRANSACTION_DUPLICATE_KEYS.map(key => (
+                      <SelectItem
+                        key={key.id}
+                        value={key.id}
+                        disabled={!availableKeys.includes(key)}
+                        className="cursor-pointer"
+                      >
+                        {key.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {duplicateKey && (
+                  <>
+                    <span className="sm:ml-2">When a row matches:</span>
+                    <Select
+                      value={onDuplicate}
+                      onValueChange={(value) => setOnDuplicate(value as DuplicateAction)}
+                      disabled={importing}
+                    >
+                      <SelectTrigger className="h-8 w-auto cursor-pointer">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(DUPLICATE_ACTIONS).map(([action, label]) => (
+                          <SelectItem key={action} value={action} className="cursor-pointer">{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+              </div>
+              {duplicateKey && onDuplicate === "update" && (
+                <p className="text-xs text-muted-foreground">
+                  Updates keep the current value where the file has an empty cell.
+                </p>
+              )}
+            </div>
+
+            {missing.length > 0 && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                Map a column to {missing.map(field => field.label).join(" and ")} to import this file.
+              </div>
+            )}
+
+            {missing.length === 0 && mapped.rejected.length > 0 && (
+              <div className="rounded-md bg-amber-500/10 p-3 text-sm text-amber-800 dark:text-amber-300 space-y-1">
+                <p className="font-medium">
+                  {mapped.rejected.length.toLocaleString()} row{mapped.rejected.length === 1 ? "" : "s"} will be skipped:
+                </p>
+                <ul className="list-disc pl-5">
+                  {mapped.rejected.slice(0, LISTED_REJECTIONS).map(row => (
+                    <li key={row.number}>Row {row.number}: {row.reasons.join("; ")}</li>
+                  ))}
+                  {mapped.rejected.length > LISTED_REJECTIONS && (
+                    <li>and {(mapped.rejected.length - LISTED_REJECTIONS).toLocaleString()} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {job?.finished_at ? (
+          <DialogFooter className="gap-2">
+            {job.failed > 0 && (
+              <Button variant="outline" onClick={() => downloadFailedRows(job)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download failed rows
+              </Button>
+            )}
+            <Button onClick={onClose}>Done</Button>
+          </DialogFooter>
+        ) : (
+          <DialogFooter className="gap-2 sm:items-center sm:justify-between">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={remember} onCheckedChange={(checked) => setRemember(checked === true)} disabled={importing} />
+              Remember this mapping for files with the same columns
+            </label>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onClose} disabled={importing}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={!mapped || importing || missing.length > 0 || mapped.records.length === 0}
+              >
+                {importing ? "Importing..." : `Import ${(mapped?.records.length ?? 0).toLocaleString()} rows`}
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
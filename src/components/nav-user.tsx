@@ -1,5 +1,4 @@
 import { useState } from "react"
-import axios from "axios"
 import {
   ChevronsUpDown,
   LogOut,
@@ -44,7 +43,9 @@ import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { useAuth } from "@/contexts/AuthContext"
 import { uploadAvatar } from "@/lib/storage"
-import { supabase } from "@/lib/supabase"
+import { employeeRepository } from "@/lib/repositories/employee"
+import type { EntityInput } from "@/lib/repositories/base"
+import type { Employee } from "@/types/auth"
 
 export function NavUser({
   user,
@@ -126,23 +127,14 @@ export function NavUser({
       setIsSaving(true)
       setError(null)
 
-      // Get access token from Supabase auth
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session?.access_token) {
-        throw new Error('No active session found')
-      }
-
       let avatarUrl = formData.avatar
 
       // Upload avatar if a new file was selected
       if (avatarFile) {
-        avatarUrl = await uploadAvatar(avatarFile, session.access_token)
+        avatarUrl = await uploadAvatar(avatarFile)
       }
 
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-      const updateData: Record<string, unknown> = {
+      const updateData: EntityInput<Employee> = {
         full_name: formData.full_name,
         phone: formData.phone,
       }
@@ -152,18 +144,7 @@ export function NavUser({
         updateData.avatar = avatarUrl
       }
 
-      await axios.patch(
-        `${supabaseUrl}/rest/v1/account?user_id=eq.${employee.user_id}`,
-        updateData,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'apikey': supabaseAnonKey,
-            'Authorization': `Bearer ${supabaseAnonKey}`,
-            'Prefer': 'return=minimal',
-          },
-        }
-      )
+      await employeeRepository.update(employee.user_id, updateData)
 
       setIsEditDialogOpen(false)
       setAvatarFile(null)
@@ -22,13 +22,14 @@ import {
 } from "@/components/ui/select"
 import { Video, FileText, X, Upload, Plus, Trash2, MapPin } from "lucide-react"
 import { TRAVEL_TIME_ICONS, getTravelTimeIcon } from "@/config/travel-time-icons"
-import { useEffect, useMemo, useRef } from "react"
+import { useEffect, useMemo, useRef, type ReactNode } from "react"
 import { PROJECT_TYPE_DISPLAY_NAMES, type ProjectType } from "@/config/project-types"
 import type { Developer } from "@/types/developer"
 import type { Area } from "@/types/area"
 import type { ProjectMedia, ProjectTravelTime, ProjectPaymentPlan } from "@/types/project"
 import { LocationMap } from "./LocationMap"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { RecordHistory } from "@/components/shared/RecordHistory"
 
 interface ProjectFormData {
   title: string
@@ -54,8 +55,12 @@ interface ProjectFormDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   isEditing: boolean
+  // Id of the project being edited; enables the History tab
+  projectId?: number
   isSaving: boolean
   error: string | null
+  // Shown above the form, e.g. a concurrent edit warning
+  notice?: ReactNode
   formData: ProjectFormData
   projectFiles: ProjectFiles
   projectType?: ProjectType
@@ -81,8 +86,10 @@ export function ProjectFormDialog({
   open,
   onOpenChange,
   isEditing,
+  projectId,
   isSaving,
   error,
+  notice,
   formData,
   projectFiles,
   projectType,
@@ -111,6 +118,8 @@ export function ProjectFormDialog({
     onProjectFilesChange({ ...projectFiles, [field]: file })
   }
 
+  const showHistory = isEditing && projectId !== undefined
+
   const imageInputRef = useRef<HTMLInputElement>(null)
   const videoInputRef = useRef<HTMLInputElement>(null)
 
@@ -163,6 +172,8 @@ export function ProjectFormDialog({
               {error}
             </div>
           )}
+
+          {notice}
           
           <div className="relative">
             {isSaving && (
@@ -176,11 +187,12 @@ export function ProjectFormDialog({
               </div>
             )}
             <Tabs defaultValue="general" className="w-full" style={{ pointerEvents: isSaving ? 'none' : 'auto' }}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className={`grid w-full ${showHistory ? "grid-cols-5" : "grid-cols-4"}`}>
               <TabsTrigger value="general">General</TabsTrigger>
               <TabsTrigger value="media">Media</TabsTrigger>
               <TabsTrigger value="travel-time">Travel time</TabsTrigger>
               <TabsTrigger value="payment-plan">Payment plan</TabsTrigger>
+              {showHistory && <TabsTrigger value="history">History</TabsTrigger>}
             </TabsList>
             
             <TabsContent value="general" className="space-y-4 mt-4">
@@ -904,6 +916,12 @@ export function ProjectFormDialog({
                 </div>
               </FieldGroup>
             </TabsContent>
+
+            {showHistory && (
+              <TabsContent value="history" className="mt-4">
+                <RecordHistory entity="project" recordId={projectId} />
+              </TabsContent>
+            )}
           </Tabs>
           </div>
         </div>
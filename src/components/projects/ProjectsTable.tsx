@@ -8,7 +8,9 @@ import {
 } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Pencil, Trash2, ExternalLink } from "lucide-react"
+import { SortableTableHead } from "@/components/shared/SortableTableHead"
 import { PROJECT_TYPE_DISPLAY_NAMES, type ProjectType } from "@/config/project-types"
+import type { QuerySort } from "@/lib/query-parser"
 import type { Project } from "@/types/project"
 
 interface ProjectsTableProps {
@@ -21,6 +23,11 @@ interface ProjectsTableProps {
   getDeveloperName: (developerId: number | null) => string
   getAreaName: (areaId: number | null) => string
   formatPrice: (price: number | null) => string
+  // Rows recently changed by other users
+  highlightedIds?: Set<number>
+  // Sort of the search query; header clicks change it
+  sort: QuerySort[]
+  onSort: (column: string, additive: boolean) => void
 }
 
 export function ProjectsTable({
@@ -33,19 +40,22 @@ export function ProjectsTable({
   getDeveloperName,
   getAreaName,
   formatPrice,
+  highlightedIds,
+  sort,
+  onSort,
 }: ProjectsTableProps) {
   return (
     <div className="rounded-lg border overflow-x-auto">
       <Table className="min-w-full">
         <TableHeader>
           <TableRow>
-            <TableHead>Title</TableHead>
+            <SortableTableHead column="title" sort={sort} onSort={onSort}>Title</SortableTableHead>
             <TableHead>Developer</TableHead>
             <TableHead>Area</TableHead>
-            <TableHead>Price</TableHead>
+            <SortableTableHead column="price" sort={sort} onSort={onSort}>Price</SortableTableHead>
             <TableHead>Brochure</TableHead>
             <TableHead>Floor Plan</TableHead>
-            <TableHead>Created</TableHead>
+            <SortableTableHead column="created_at" sort={sort} onSort={onSort}>Created</SortableTableHead>
             {canEdit && <TableHead className="text-right">Actions</TableHead>}
           </TableRow>
         </TableHeader>
@@ -58,7 +68,7 @@ export function ProjectsTable({
             </TableRow>
           ) : (
             projects.map((project) => (
-              <TableRow key={project.id}>
+              <TableRow key={project.id} className={highlightedIds?.has(project.id) ? "bg-primary/5 transition-colors" : "transition-colors"}>
                 <TableCell className="font-medium">{project.title || project.slug}</TableCell>
                 <TableCell>{getDeveloperName(project.developer_id)}</TableCell>
                 <TableCell>{getAreaName(project.area_id)}</TableCell>
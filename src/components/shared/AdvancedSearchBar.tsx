@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef, useEffect, useMemo } from "react"
-import { X, Search, Save, Clock, CalendarIcon, ArrowUpDown } from "lucide-react"
+import { X, Search, CalendarIcon, ArrowUpDown } from "lucide-react"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import {
@@ -18,33 +18,51 @@ import {
 import { Calendar } from "@/components/ui/calendar"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
-import { toast } from "sonner"
-import { parseQuery } from "@/lib/query-parser"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import { SavedSearchesMenu } from "@/components/shared/SavedSearchesMenu"
+import { SearchSyntaxHelp } from "@/components/shared/SearchSyntaxHelp"
+import { FacetPanel } from "@/components/shared/FacetPanel"
+import type { FacetOptions } from "@/hooks/useFacets"
+import { useColumnValues, type ColumnValueSource } from "@/hooks/useColumnValues"
+import { parseQuery, setQuerySort, type QueryChip, type QueryFix, type QuerySegmentKind } from "@/lib/query-parser"
 
 export interface SearchColumn {
   key: string
   label: string
   type: 'text' | 'number' | 'date'
-}
-
-export interface SavedSearch {
-  id: string
-  name: string
-  query: string
-  timestamp: number
+  // Suggest the column's existing values while a filter value is typed (text columns)
+  suggestValues?: boolean
+  // Offer the column in the facet panel: value checkboxes for text columns, a range slider for number columns
+  facet?: boolean
 }
 
 interface AdvancedSearchBarProps {
   columns: SearchColumn[]
   value: string
-  onChange: (query: string) => void
+  // Called as the query is edited; searches only run on onApply
+  onChange?: (query: string) => void
   onApply: (query: string) => void
   placeholder?: string
   className?: string
-  savedSearches?: SavedSearch[]
-  onSaveSearch?: (name: string, query: string) => void
-  onLoadSearch?: (query: string) => void
-  onDeleteSearch?: (id: string) => void
+  // Table whose saved searches are offered (no saved searches when omitted)
+  savedSearchTable?: string
+  // Where value suggestions come from (usually the page's repository)
+  valueSource?: ColumnValueSource
+  // Facet panel for the columns marked `facet` (no panel when omitted)
+  facets?: FacetOptions
+}
+
+const SEGMENT_CLASSES: Record<QuerySegmentKind, string> = {
+  column: "font-medium text-sky-700 dark:text-sky-300",
+  operator: "text-muted-foreground",
+  value: "text-emerald-700 dark:text-emerald-300",
+  sort: "text-violet-700 dark:text-violet-300",
+  keyword: "font-semibold text-amber-700 dark:text-amber-300",
+  text: "",
 }
 
 export function AdvancedSearchBar({
@@ -54,20 +72,19 @@ export function AdvancedSearchBar({
   onApply,
   placeholder = "Search and filter",
   className,
-  savedSearches = [],
-  onSaveSearch,
-  onLoadSearch,
-  onDeleteSearch,
+  savedSearchTable,
+  valueSource,
+  facets,
 }: AdvancedSearchBarProps) {
-  const [isSaveMenuOpen, setIsSaveMenuOpen] = useState(false)
   const [isCalendarOpen, setIsCalendarOpen] = useState(false)
   const [isSortMenuOpen, setIsSortMenuOpen] = useState(false)
   const [suggestions, setSuggestions] = useState<SearchColumn[]>([])
   const [suggestionIndex, setSuggestionIndex] = useState(-1)
   const [currentFilterColumn, setCurrentFilterColumn] = useState<SearchColumn | null>(null)
-  const [saveSearchName, setSaveSearchName] = useState('')
   // Internal state for input value - allows typing incomplete filters without triggering parent onChange
   const [internalValue, setInternalValue] = useState(value)
+  const [cursor, setCursor] = useState(value.length)
+  const [isValueMenuOpen, setIsValueMenuOpen] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
   const suggestionsRef = useRef<HTMLDivElement>(null)
   const debounceRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
@@ -79,6 +96,32 @@ export function AdvancedSearchBar({
 
   const parsed = useMemo(() => parseQuery(internalValue, columns), [internalValue, columns])
 
+  // The filter value being typed at the cursor, e.g. `area:dub` or `area:("Dubai Marina"|jum`
+  const valueContext = useMemo(() => {
+    const match = internalValue.substring(0, cursor).match(/(?:^|[\s(])-?(\w+)(?:!?=|:)([<>!=]*)(\(?)((?:"[^"]*"\||[^\s"|()]*\|)*)("?)([^"|()]*)$/)
+    if (!match) return null
+    const [, keyPart, , list, , quote, term] = match
+    // Unquoted values end at the first space
+    if (!quote && /\s/.test(term)) return null
+
+    const column = columns.find(
+      col => col.key.toLowerCase() === keyPart.toLowerCase() ||
+      col.label.toLowerCase().replace(/\s+/g, '_') === keyPart.toLowerCase()
+    )
+    if (!column?.suggestValues) return null
+
+    return {
+      column,
+      term,
+      inList: !!list,
+      // Where the value (including its opening quote) starts
+      start: cursor - term.length - quote.length,
+    }
+  }, [internalValue, cursor, columns])
+
+  const valueSuggestions = useColumnValues(valueSource, valueContext?.column.key ?? null, valueContext?.term ?? '')
+  const showValueSuggestions = isValueMenuOpen && !!valueContext && valueSuggestions.values.length > 0
+
   // Check if there's an incomplete filter (column= but no value)
   const hasIncompleteFilter = useMemo(() => {
     if (!internalValue.trim()) return false
@@ -199,7 +242,7 @@ export function AdvancedSearchBar({
     debounceRef.current = setTimeout(() => {
       // Always apply, even if empty - to show full list
       // Update parent's onChange only when filter is complete
-      onChange(internalValue)
+      onChange?.(internalValue)
       onApply(internalValue)
     }, 1000)
 
@@ -209,9 +252,33 @@ export function AdvancedSearchBar({
         debounceRef.current = undefined
       }
     }
-  }, [internalValue, parsed.filters.length, parsed.sort?.column, parsed.sort?.direction, hasIncompleteFilter, onApply, onChange])
+  }, [internalValue, parsed.filters.length, parsed.sort.length, hasIncompleteFilter, onApply, onChange])
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showValueSuggestions) {
+      const count = valueSuggestions.values.length
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setSuggestionIndex(prev => prev < count - 1 ? prev + 1 : prev)
+        return
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setSuggestionIndex(prev => prev > 0 ? prev - 1 : -1)
+        return
+      }
+      if ((e.key === 'Enter' || e.key === 'Tab') && suggestionIndex >= 0) {
+        e.preventDefault()
+        handleValueSelect(valueSuggestions.values[suggestionIndex].value)
+        return
+      }
+      if (e.key === 'Escape') {
+        setIsValueMenuOpen(false)
+        setSuggestionIndex(-1)
+        return
+      }
+    }
+
     // Handle suggestion navigation
     if (suggestions.length > 0) {
       if (e.key === 'ArrowDown') {
@@ -243,7 +310,7 @@ export function AdvancedSearchBar({
       if (debounceRef.current) {
         clearTimeout(debounceRef.current)
       }
-      onChange(internalValue)
+      onChange?.(internalValue)
       onApply(internalValue)
     }
   }
@@ -284,6 +351,32 @@ export function AdvancedSearchBar({
     }, 0)
   }, [internalValue])
 
+  const handleValueSelect = useCallback((selected: string) => {
+    if (!valueContext) return
+    const { start, inList } = valueContext
+
+    // Replace the whole value being typed, including any part after the cursor
+    const quoted = internalValue[start] === '"'
+    const rest = internalValue.substring(cursor).match(quoted ? /^[^"]*"?/ : /^[^\s|()]*/)?.[0] ?? ''
+    const after = internalValue.substring(cursor + rest.length)
+    const text = /[\s"|(),:=]/.test(selected) ? `"${selected.replace(/"/g, '')}"` : selected
+    // Inside a list the user continues with "|" or ")"
+    const separator = inList || after.startsWith(' ') ? '' : ' '
+
+    const newValue = internalValue.substring(0, start) + text + separator + after
+    const newCursorPos = start + text.length + separator.length
+    setInternalValue(newValue)
+    onChange?.(newValue)
+    setCursor(newCursorPos)
+    setIsValueMenuOpen(false)
+    setSuggestionIndex(-1)
+
+    setTimeout(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(newCursorPos, newCursorPos)
+    }, 0)
+  }, [valueContext, internalValue, cursor, onChange])
+
   const handleDateSelect = useCallback((date: Date | undefined) => {
     if (!date || !currentFilterColumn) return
     
@@ -320,87 +413,52 @@ export function AdvancedSearchBar({
     }, 0)
   }, [internalValue, currentFilterColumn])
 
-  const handleSaveSearch = useCallback(() => {
-    if (!saveSearchName.trim()) {
-      toast.error("Please enter a name for this search")
-      return
-    }
-    if (onSaveSearch) {
-      onSaveSearch(saveSearchName.trim(), internalValue)
-      setSaveSearchName('')
-      setIsSaveMenuOpen(false)
-      toast.success("Search saved")
+  // Facet clicks search right away, like choosing a sort
+  const handleFacetChange = useCallback((query: string) => {
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current)
     }
-  }, [saveSearchName, internalValue, onSaveSearch])
+    setInternalValue(query)
+    onChange?.(query)
+    onApply(query)
+  }, [onApply, onChange])
 
   const handleLoadSearch = useCallback((query: string) => {
-    if (onLoadSearch) {
-      setInternalValue(query)
-      onLoadSearch(query)
-      onChange(query)
-      onApply(query)
-    }
-  }, [onLoadSearch, onApply, onChange])
-
-  const handleDeleteSearch = useCallback((id: string, e: React.MouseEvent) => {
-    e.stopPropagation()
-    if (onDeleteSearch) {
-      onDeleteSearch(id)
-    }
-  }, [onDeleteSearch])
+    setInternalValue(query)
+    onChange?.(query)
+    onApply(query)
+  }, [onApply, onChange])
 
   const clearSearch = useCallback(() => {
     setInternalValue('')
-    onChange('')
+    onChange?.('')
     onApply('')
   }, [onChange, onApply])
 
-  const removeFilter = useCallback((filterIndex: number) => {
-    const parts = internalValue.split(/\s+/)
-    const filter = parsed.filters[filterIndex]
-    
-    const newParts = parts.filter(part => {
-      const partLower = part.toLowerCase()
-      const columnLower = filter.column.toLowerCase()
-      return !partLower.includes(columnLower + ':') && !partLower.includes(columnLower + '=')
-    })
-    
-    const newValue = newParts.join(' ')
+  // Replace part of the query (removing a chip or applying a quick fix) and search again
+  const replaceRange = useCallback((start: number, end: number, text: string) => {
+    const newValue = (internalValue.substring(0, start) + text + internalValue.substring(end))
+      .replace(/\s+/g, ' ')
+      .trim()
     setInternalValue(newValue)
-    onChange(newValue)
-  }, [internalValue, parsed.filters, onChange])
-
-  const removeSort = useCallback(() => {
-    const newValue = internalValue.replace(/\bsort:[^\s]+/g, '').trim()
-    setInternalValue(newValue)
-    onChange(newValue)
+    onChange?.(newValue)
   }, [internalValue, onChange])
 
-  const removeTextSearch = useCallback(() => {
-    if (!parsed.textSearch) return
-    const newValue = internalValue.replace(new RegExp(`\\b${parsed.textSearch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'g'), '').trim()
-    setInternalValue(newValue)
-    onChange(newValue)
-  }, [internalValue, parsed.textSearch, onChange])
+  const removeChip = useCallback((chip: QueryChip) => {
+    replaceRange(chip.start, chip.end, '')
+  }, [replaceRange])
 
-  const getColumnLabel = (key: string) => {
-    return columns.find(col => col.key === key)?.label || key
-  }
+  const applyFix = useCallback((fix: QueryFix) => {
+    replaceRange(fix.start, fix.end, fix.text)
+    inputRef.current?.focus()
+  }, [replaceRange])
 
   const handleSortSelect = useCallback((column: SearchColumn, direction: 'asc' | 'desc') => {
-    // Remove existing sort if any
-    let newValue = internalValue.replace(/\bsort:[^\s]+/g, '').trim()
-    
-    // Add new sort
-    const sortPart = `sort:${column.key}:${direction}`
-    if (newValue) {
-      newValue += ' ' + sortPart
-    } else {
-      newValue = sortPart
-    }
+    // Replaces any existing sort; shift-click table headers to sort by several columns
+    const newValue = setQuerySort(internalValue, [{ column: column.key, direction }])
     
     setInternalValue(newValue)
-    onChange(newValue)
+    onChange?.(newValue)
     setIsSortMenuOpen(false)
     
     // Apply immediately
@@ -430,26 +488,27 @@ export function AdvancedSearchBar({
     const handleClickOutside = (event: MouseEvent) => {
       const target = event.target as Node
       if (
-        suggestions.length > 0 &&
+        (suggestions.length > 0 || showValueSuggestions) &&
         inputRef.current &&
         suggestionsRef.current &&
         !inputRef.current.contains(target) &&
         !suggestionsRef.current.contains(target)
       ) {
         setSuggestions([])
+        setIsValueMenuOpen(false)
         setSuggestionIndex(-1)
       }
     }
 
-    if (suggestions.length > 0) {
+    if (suggestions.length > 0 || showValueSuggestions) {
       document.addEventListener('mousedown', handleClickOutside)
       return () => {
         document.removeEventListener('mousedown', handleClickOutside)
       }
     }
-  }, [suggestions.length])
+  }, [suggestions.length, showValueSuggestions])
 
-  const hasActiveFilters = parsed.filters.length > 0 || parsed.sort || parsed.textSearch
+  const hasActiveFilters = parsed.chips.length > 0
 
   return (
     <div className={cn("space-y-2", className)}>
@@ -463,6 +522,8 @@ export function AdvancedSearchBar({
             onChange={(e) => {
               const newValue = e.target.value
               setInternalValue(newValue)
+              setCursor(e.target.selectionStart ?? newValue.length)
+              setIsValueMenuOpen(true)
               setSuggestionIndex(-1)
               // Only call parent onChange if there's no incomplete filter
               // This prevents triggering fetches when user is still typing
@@ -489,18 +550,41 @@ export function AdvancedSearchBar({
               
               // Only update parent if filter is complete
               if (!isIncomplete) {
-                onChange(newValue)
+                onChange?.(newValue)
               }
             }}
             onKeyDown={handleKeyDown}
             onFocus={handleInputFocus}
             onClick={handleInputClick}
+            onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? internalValue.length)}
             placeholder={placeholder}
+            aria-invalid={parsed.diagnostics.length > 0 || undefined}
             className="pl-9 pr-10"
           />
           
           {/* Suggestions dropdown */}
-          {suggestions.length > 0 && (
+          {showValueSuggestions ? (
+            <div
+              ref={suggestionsRef}
+              className="absolute top-full left-0 right-0 mt-1 bg-popover border rounded-md shadow-lg z-50 max-h-[240px] overflow-y-auto"
+            >
+              {valueSuggestions.values.map((item, index) => (
+                <div
+                  key={item.value}
+                  className={cn(
+                    "flex items-center justify-between gap-3 px-3 py-2 cursor-pointer hover:bg-accent",
+                    index === suggestionIndex && "bg-accent"
+                  )}
+                  onClick={() => handleValueSelect(item.value)}
+                >
+                  <span className="text-sm truncate">{item.value}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+                    {item.count.toLocaleString()}{valueSuggestions.complete ? "" : "+"} {item.count === 1 ? "row" : "rows"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : suggestions.length > 0 && (
             <div
               ref={suggestionsRef}
               className="absolute top-full left-0 right-0 mt-1 bg-popover border rounded-md shadow-lg z-50 max-h-[200px] overflow-y-auto"
@@ -602,133 +686,99 @@ export function AdvancedSearchBar({
           </DropdownMenuContent>
         </DropdownMenu>
 
-        {/* Save/Load Searches */}
-        {(onSaveSearch || savedSearches.length > 0) && (
-          <Popover open={isSaveMenuOpen} onOpenChange={setIsSaveMenuOpen}>
-            <PopoverTrigger asChild>
-              <Button variant="outline" size="icon" className="shrink-0">
-                <Clock className="h-4 w-4" />
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent align="end" className="w-80">
-              <div className="space-y-4">
-                {onSaveSearch && (
-                  <div className="space-y-2">
-                    <div className="flex items-center gap-2">
-                      <Input
-                        placeholder="Save search as..."
-                        value={saveSearchName}
-                        onChange={(e) => setSaveSearchName(e.target.value)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') {
-                            handleSaveSearch()
-                          }
-                        }}
-                      />
-                      <Button size="sm" onClick={handleSaveSearch}>
-                        <Save className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </div>
-                )}
+        {facets && (
+          <FacetPanel columns={columns} query={internalValue} onChange={handleFacetChange} options={facets} />
+        )}
 
-                {savedSearches.length > 0 && (
-                  <>
-                    {onSaveSearch && <div className="border-t pt-2" />}
-                    <div className="space-y-1">
-                      <div className="text-sm font-medium mb-2">Saved Searches</div>
-                      {savedSearches.map((saved) => (
-                        <div
-                          key={saved.id}
-                          className="flex items-center justify-between p-2 rounded hover:bg-muted cursor-pointer group"
-                          onClick={() => handleLoadSearch(saved.query)}
-                        >
-                          <div className="flex-1 min-w-0">
-                            <div className="text-sm font-medium truncate">{saved.name}</div>
-                            <div className="text-xs text-muted-foreground truncate">{saved.query}</div>
-                          </div>
-                          {onDeleteSearch && (
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6 opacity-0 group-hover:opacity-100 shrink-0 ml-2"
-                              onClick={(e) => handleDeleteSearch(saved.id, e)}
-                            >
-                              <X className="h-3 w-3" />
-                            </Button>
-                          )}
-                        </div>
-                      ))}
-                    </div>
-                  </>
-                )}
-              </div>
-            </PopoverContent>
-          </Popover>
+        <SearchSyntaxHelp />
+
+        {/* Save/Load Searches */}
+        {savedSearchTable && (
+          <SavedSearchesMenu table={savedSearchTable} query={internalValue} onLoad={handleLoadSearch} />
         )}
       </div>
 
       {/* Active Filters Chips */}
       {hasActiveFilters && (
         <div className="flex flex-wrap items-center gap-2">
-          {parsed.textSearch && (
-            <div className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-secondary text-secondary-foreground text-sm">
-              <Search className="h-3 w-3" />
-              <span>{parsed.textSearch}</span>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-4 w-4 p-0 hover:bg-transparent"
-                onClick={removeTextSearch}
-              >
-                <X className="h-3 w-3" />
-              </Button>
-            </div>
-          )}
+          {parsed.chips.map((chip) => {
+            const diagnostics = parsed.diagnostics.filter(d => d.start < chip.end && d.end > chip.start)
+            const fixes = diagnostics.flatMap(d => d.fixes)
+            const isKeyword = chip.segments.every(segment => segment.kind === 'keyword')
+            let offset = chip.start
 
-          {parsed.filters.map((filter, index) => {
-            const columnLabel = getColumnLabel(filter.column)
-            const operatorSymbol =
-              filter.operator === '>' ? '>' :
-              filter.operator === '<' ? '<' :
-              filter.operator === '>=' ? '>=' :
-              filter.operator === '<=' ? '<=' :
-              filter.operator === '!=' ? '≠' :
-              ':'
-
-            return (
+            const content = (
               <div
-                key={index}
-                className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-secondary text-secondary-foreground text-sm"
+                className={cn(
+                  "inline-flex items-center gap-1 px-2 py-1 rounded-md text-sm",
+                  isKeyword ? "px-1" : "bg-secondary text-secondary-foreground",
+                  diagnostics.length > 0 && "ring-1 ring-destructive/60"
+                )}
               >
-                <span>{columnLabel}{operatorSymbol === ':' ? '=' : operatorSymbol}{filter.value}</span>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-4 w-4 p-0 hover:bg-transparent"
-                  onClick={() => removeFilter(index)}
-                >
-                  <X className="h-3 w-3" />
-                </Button>
+                {chip.segments.some(segment => segment.kind === 'text') && <Search className="h-3 w-3" />}
+                <span>
+                  {chip.segments.map((segment, index) => {
+                    const start = offset
+                    offset += segment.text.length
+                    // Underline the part of the chip each diagnostic points at
+                    const isInvalid = diagnostics.some(d => d.start < offset && d.end > start)
+                    return (
+                      <span
+                        key={index}
+                        className={cn(
+                          SEGMENT_CLASSES[segment.kind],
+                          isInvalid && "underline decoration-wavy decoration-destructive underline-offset-4"
+                        )}
+                      >
+                        {segment.text}
+                      </span>
+                    )
+                  })}
+                </span>
+                {!isKeyword && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-4 w-4 p-0 hover:bg-transparent"
+                    onClick={() => removeChip(chip)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
               </div>
             )
-          })}
 
-          {parsed.sort && (
-            <div className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-secondary text-secondary-foreground text-sm">
-              <span>
-                Sort: {getColumnLabel(parsed.sort.column)} ({parsed.sort.direction === 'asc' ? '↑' : '↓'})
-              </span>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-4 w-4 p-0 hover:bg-transparent"
-                onClick={removeSort}
-              >
-                <X className="h-3 w-3" />
-              </Button>
-            </div>
-          )}
+            return (
+              <div key={`${chip.start}-${chip.end}`} className="inline-flex items-center gap-1">
+                {diagnostics.length > 0 ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>{content}</TooltipTrigger>
+                    <TooltipContent>
+                      {diagnostics.map((d, index) => (
+                        <p key={index}>{d.message}</p>
+                      ))}
+                    </TooltipContent>
+                  </Tooltip>
+                ) : content}
+                {fixes.length > 0 && (
+                  <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                    Fix:
+                    {fixes.map((fix, index) => (
+                      <Button
+                        key={index}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => applyFix(fix)}
+                      >
+                        {fix.label}
+                      </Button>
+                    ))}
+                  </span>
+                )}
+              </div>
+            )
+          })}
 
           <Button
             variant="ghost"
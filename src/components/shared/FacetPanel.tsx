@@ -0,0 +1,210 @@
+import { useMemo, useState } from "react"
+import { SlidersHorizontal } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { Slider } from "@/components/ui/slider"
+import type { SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { useFacets, type Facet, type FacetOptions } from "@/hooks/useFacets"
+import {
+  getQueryRange,
+  getQueryValues,
+  setQueryRange,
+  setQueryValues,
+  type QueryRange,
+} from "@/lib/query-parser"
+import type { ColumnRange } from "@/lib/repositories/base"
+
+// Values listed before "Show all"
+const VISIBLE_VALUES = 8
+
+interface FacetPanelProps {
+  columns: SearchColumn[]
+  // Query the counts are for; facet clicks edit its terms
+  query: string
+  onChange: (query: string) => void
+  options: FacetOptions
+}
+
+// Roughly a hundred steps across the range, on a round number
+function sliderStep({ min, max }: ColumnRange): number {
+  const step = Math.pow(10, Math.floor(Math.log10(Math.max(max - min, 1) / 100)))
+  return Math.max(step, 1)
+}
+
+interface ValuesFacetProps {
+  facet: Extract<Facet, { kind: 'values' }>
+  selected: string[]
+  onChange: (values: string[]) => void
+}
+
+function ValuesFacet({ facet, selected, onChange }: ValuesFacetProps) {
+  const [showAll, setShowAll] = useState(false)
+
+  // Checked values stay listed even when nothing matches them any more
+  const values = [
+    ...facet.values,
+    ...selected
+      .filter(value => !facet.values.some(item => item.value.toLowerCase() === value.toLowerCase()))
+      .map(value => ({ value, count: 0 })),
+  ]
+  const visible = showAll ? values : values.slice(0, VISIBLE_VALUES)
+  const isChecked = (value: string) => selected.some(item => item.toLowerCase() === value.toLowerCase())
+
+  const toggle = (value: string) => {
+    onChange(isChecked(value)
+      ? selected.filter(item => item.toLowerCase() !== value.toLowerCase())
+      : [...selected, value])
+  }
+
+  if (values.length === 0) {
+    return <p className="text-sm text-muted-foreground">No values</p>
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {visible.map(({ value, count }) => (
+        <label key={value} className="flex cursor-pointer items-center gap-2 text-sm">
+          <Checkbox checked={isChecked(value)} onCheckedChange={() => toggle(value)} />
+          <span className="flex-1 truncate">{value}</span>
+          <span className="text-xs text-muted-foreground tabular-nums">{count.toLocaleString()}</span>
+        </label>
+      ))}
+      {!facet.complete && (
+        <p className="text-xs text-muted-foreground">Not every value is listed; search for others with a column:=value term</p>
+      )}
+      {values.length > VISIBLE_VALUES && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show less" : `Show all ${values.length}`}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+interface RangeFacetProps {
+  range: ColumnRange
+  selected: QueryRange
+  onChange: (range: QueryRange) => void
+}
+
+function RangeFacet({ range, selected, onChange }: RangeFacetProps) {
+  // Thumb positions while dragging; the query only changes when the thumb is released
+  const [draft, setDraft] = useState<number[] | null>(null)
+  const value = draft ?? [selected.from ?? range.min, selected.to ?? range.max]
+
+  const commit = ([from, to]: number[]) => {
+    setDraft(null)
+    // Ends dragged all the way out leave that side open
+    onChange({
+      from: from <= range.min ? null : from,
+      to: to >= range.max ? null : to,
+    })
+  }
+
+  if (range.min === range.max) {
+    return <p className="text-sm text-muted-foreground">All {range.min.toLocaleString()}</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <Slider
+        min={range.min}
+        max={range.max}
+        step={sliderStep(range)}
+        value={value}
+        onValueChange={setDraft}
+        onValueCommit={commit}
+        minStepsBetweenThumbs={0}
+      />
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>{value[0].toLocaleString()}</span>
+        <span>{value[1].toLocaleString()}</span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Facet sidebar for a list page: checkboxes with counts for categorical columns and
+ * min/max sliders for numeric ones. Clicks write ordinary search terms into the query; checked values
+ * are exact-match terms (column:=value), since the counts are for exact values.
+ */
+export function FacetPanel({ columns, query, onChange, options }: FacetPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const facetColumns = useMemo(() => columns.filter(column => column.facet), [columns])
+
+  // Only count while the panel is open
+  const facets = useFacets(options, query, isOpen)
+
+  const activeCount = facetColumns.filter(column => column.type === 'number'
+    ? Object.values(getQueryRange(query, column.key, columns)).some(value => value !== null)
+    : getQueryValues(query, column.key, columns).length > 0
+  ).length
+
+  const clearAll = () => {
+    let next = query
+    for (const column of facetColumns) {
+      next = column.type === 'number'
+        ? setQueryRange(next, column.key, { from: null, to: null }, columns)
+        : setQueryValues(next, column.key, [], columns)
+    }
+    onChange(next)
+  }
+
+  if (facetColumns.length === 0) return null
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 shrink-0 gap-1.5" type="button" title="Filters">
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+          <span className="hidden sm:inline">Filters</span>
+          {activeCount > 0 && (
+            <span className="rounded-full bg-primary px-1.5 text-xs text-primary-foreground tabular-nums">{activeCount}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="overflow-y-auto">
+        <SheetHeader className="pb-0">
+          <SheetTitle>Filters</SheetTitle>
+          <SheetDescription>Counts are for the current search</SheetDescription>
+        </SheetHeader>
+        <div className="space-y-5 px-4 pb-4">
+          {facets.map((facet) => (
+            <section key={facet.column.key} className="space-y-2">
+              <h3 className="text-sm font-medium">{facet.column.label}</h3>
+              {facet.kind === 'values' ? (
+                <ValuesFacet
+                  facet={facet}
+                  selected={getQueryValues(query, facet.column.key, columns)}
+                  onChange={(values) => onChange(setQueryValues(query, facet.column.key, values, columns))}
+                />
+              ) : facet.range ? (
+                <RangeFacet
+                  range={facet.range}
+                  selected={getQueryRange(query, facet.column.key, columns)}
+                  onChange={(range) => onChange(setQueryRange(query, facet.column.key, range, columns))}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">No values</p>
+              )}
+            </section>
+          ))}
+          {activeCount > 0 && (
+            <Button variant="outline" size="sm" className="w-full" onClick={clearAll}>
+              Clear filters
+            </Button>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
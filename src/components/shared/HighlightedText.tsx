@@ -0,0 +1,35 @@
+import { Fragment, useMemo } from "react"
+
+interface HighlightedTextProps {
+  text: string
+  // Lower-case words searched for; the start of any word beginning with one is highlighted
+  terms: string[]
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Text with the parts matched by a full-text search highlighted
+ */
+export function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const pattern = useMemo(() => {
+    if (terms.length === 0) return null
+    // Longest first so "mar" does not cut "marina" short
+    const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp)
+    return new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives.join("|")})`, "giu")
+  }, [terms])
+
+  if (!pattern) return <>{text}</>
+
+  const parts = text.split(pattern)
+  return (
+    <>
+      {parts.map((part, index) =>
+        // split() puts the captured matches at odd indexes
+        index % 2 === 1
+          ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">{part}</mark>
+          : <Fragment key={index}>{part}</Fragment>
+      )}
+    </>
+  )
+}
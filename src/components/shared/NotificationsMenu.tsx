@@ -0,0 +1,101 @@
+import { useState } from "react"
+import { Bell } from "lucide-react"
+import { useNavigate } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import {
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar"
+import { useNotifications } from "@/hooks/useNotifications"
+import { cn } from "@/lib/utils"
+import type { AppNotification } from "@/types/notification"
+
+/**
+ * Sidebar entry listing the employee's in-app notifications (e.g. saved-search alerts)
+ */
+export function NotificationsMenu() {
+  const { isMobile } = useSidebar()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications()
+
+  const handleOpen = (notification: AppNotification) => {
+    void markRead(notification)
+    if (notification.link) {
+      setIsOpen(false)
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+          <PopoverTrigger asChild>
+            <SidebarMenuButton className="cursor-pointer">
+              <Bell />
+              <span>Notifications</span>
+            </SidebarMenuButton>
+          </PopoverTrigger>
+          {unreadCount > 0 && (
+            <SidebarMenuBadge className="bg-primary text-primary-foreground">
+              {unreadCount}
+            </SidebarMenuBadge>
+          )}
+          <PopoverContent side={isMobile ? "bottom" : "right"} align="end" className="w-80 p-0">
+            <div className="flex items-center justify-between border-b px-3 py-2">
+              <span className="text-sm font-medium">Notifications</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={unreadCount === 0}
+                onClick={() => void markAllRead()}
+              >
+                Mark all as read
+              </Button>
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.length === 0 ? (
+                <p className="p-4 text-center text-sm text-muted-foreground">No notifications yet</p>
+              ) : (
+                notifications.map((notification) => (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleOpen(notification)}
+                    className={cn(
+                      "flex w-full cursor-pointer gap-2 border-b px-3 py-2 text-left last:border-b-0 hover:bg-muted",
+                      !notification.read_at && "bg-primary/5"
+                    )}
+                  >
+                    <span
+                      className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", !notification.read_at && "bg-primary")}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate text-sm font-medium">{notification.title}</span>
+                      {notification.body && (
+                        <span className="block text-xs text-muted-foreground">{notification.body}</span>
+                      )}
+                      <span className="block text-xs text-muted-foreground">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </span>
+                    </span>
+                  </button>
+                ))
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  )
+}
@@ -0,0 +1,54 @@
+import { AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { RecordConflict } from "@/hooks/useRecordConflict"
+
+interface RecordConflictAlertProps<T> {
+  conflict: RecordConflict<T> | null
+  onMerge: () => void
+  onReload: () => void
+  onDismiss: () => void
+}
+
+/**
+ * Warning shown in an edit dialog when someone else changed or deleted the record
+ */
+export function RecordConflictAlert<T>({ conflict, onMerge, onReload, onDismiss }: RecordConflictAlertProps<T>) {
+  if (!conflict) return null
+
+  const actor = conflict.actorName || "another user"
+
+  return (
+    <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+        <div className="flex-1">
+          <p className="font-medium">
+            {conflict.deleted
+              ? `This record was deleted by ${actor}.`
+              : `This record was changed by ${actor}.`}
+          </p>
+          <p className="text-muted-foreground">
+            {conflict.deleted
+              ? "Saving will not bring it back. Restore it from the recycle bin if it is still needed."
+              : "Merge keeps your edits and takes their changes for fields you have not touched. Reload discards your edits."}
+          </p>
+          <div className="mt-2 flex gap-2">
+            {!conflict.deleted && (
+              <>
+                <Button size="sm" onClick={onMerge} className="cursor-pointer">
+                  Merge
+                </Button>
+                <Button size="sm" variant="outline" onClick={onReload} className="cursor-pointer">
+                  Reload
+                </Button>
+              </>
+            )}
+            <Button size="sm" variant="ghost" onClick={onDismiss} className="cursor-pointer">
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
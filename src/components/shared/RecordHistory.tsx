@@ -0,0 +1,178 @@
+import { useEffect, useState, type ReactNode } from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Skeleton } from "@/components/ui/skeleton"
+import { auditLogRepository } from "@/lib/repositories/audit-log"
+import { formatError } from "@/lib/error-formatter"
+import { AUDIT_ACTION_LABELS, AUDIT_REMOVAL_ACTIONS } from "@/lib/audit"
+import type { AuditAction, AuditChanges, AuditLog } from "@/types/audit"
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—"
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+interface AuditChangeListProps {
+  action: AuditAction
+  changes: AuditChanges
+}
+
+/**
+ * Field-level view of an audit entry ("field: old → new")
+ */
+export function AuditChangeList({ action, changes }: AuditChangeListProps) {
+  const before = changes?.before || {}
+  const after = changes?.after || {}
+  // Creates/restores only have an "after" snapshot and deletes/purges only a "before" one
+  const isRemoval = AUDIT_REMOVAL_ACTIONS.includes(action)
+  const fields = Object.keys(isRemoval ? before : after)
+
+  if (fields.length === 0) {
+    return <span className="text-muted-foreground">No field changes</span>
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {fields.map((field) => (
+        <li key={field} className="break-all">
+          <span className="font-medium">{field}:</span>{" "}
+          {action === "update" ? (
+            <>
+              <span className="text-muted-foreground line-through">{formatValue(before[field])}</span>
+              {" → "}
+              <span>{formatValue(after[field])}</span>
+            </>
+          ) : (
+            <span className={isRemoval ? "text-muted-foreground" : undefined}>
+              {formatValue(isRemoval ? before[field] : after[field])}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+interface RecordHistoryProps {
+  // Table name, e.g. "area" or "property"
+  entity: string
+  recordId: string | number
+}
+
+/**
+ * Audit log entries for a single record, newest first
+ */
+export function RecordHistory({ entity, recordId }: RecordHistoryProps) {
+  const [entries, setEntries] = useState<AuditLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const { data } = await auditLogRepository.list({
+          filters: [
+            { column: "entity", operator: "eq", value: entity },
+            { column: "record_id", operator: "eq", value: String(recordId) },
+          ],
+          order: [{ column: "created_at", direction: "desc" }],
+          limit: 50,
+        })
+        if (!cancelled) setEntries(data)
+      } catch (err) {
+        console.error("Error fetching record history:", err)
+        if (!cancelled) setError(formatError(err) || "Failed to load history")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchHistory()
+    return () => {
+      cancelled = true
+    }
+  }, [entity, recordId])
+
+  if (loading) {
+    return (
+      <div className="space-y-3 py-2">
+        {Array.from({ length: 3 }, (_, index) => (
+          <Skeleton key={index} className="h-12 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+        {error}
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="py-4 text-center text-sm text-muted-foreground">
+        No changes have been recorded for this record yet.
+      </p>
+    )
+  }
+
+  return (
+    <ol className="max-h-[50vh] space-y-3 overflow-y-auto py-2 pr-1">
+      {entries.map((entry) => (
+        <li key={entry.id} className="rounded-md border p-3">
+          <div className="mb-1 flex flex-wrap items-baseline justify-between gap-2 text-sm">
+            <span>
+              <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]}</span>
+              {" by "}
+              {entry.actor_name || "Unknown user"}
+              {entry.actor_role && (
+                <span className="text-muted-foreground"> ({entry.actor_role})</span>
+              )}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {new Date(entry.created_at).toLocaleString()}
+            </span>
+          </div>
+          <AuditChangeList action={entry.action} changes={entry.changes} />
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+interface RecordHistoryTabsProps {
+  entity: string
+  // Record being edited; without one only the form is rendered
+  recordId: string | number | null | undefined
+  // Dialog form shown on the "Details" tab
+  children: ReactNode
+}
+
+/**
+ * Details/History tabs for edit dialogs
+ */
+export function RecordHistoryTabs({ entity, recordId, children }: RecordHistoryTabsProps) {
+  if (recordId === null || recordId === undefined) {
+    return <>{children}</>
+  }
+
+  return (
+    <Tabs defaultValue="details" className="w-full">
+      <TabsList className="grid w-full grid-cols-2">
+        <TabsTrigger value="details">Details</TabsTrigger>
+        <TabsTrigger value="history">History</TabsTrigger>
+      </TabsList>
+      <TabsContent value="details">{children}</TabsContent>
+      <TabsContent value="history">
+        <RecordHistory entity={entity} recordId={recordId} />
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import type { SaveConflict } from "@/hooks/useSaveConflict"
+
+type Side = "mine" | "theirs"
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—"
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+// "developer_id" -> "Developer", "file_brochure" -> "File brochure"
+function fieldLabel(field: string): string {
+  const label = field.replace(/_id$/, "").replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+interface SaveConflictDialogProps<T, F> {
+  conflict: SaveConflict<T, F> | null
+  // `save` is false when the user took their version and has nothing left to save
+  onResolve: (record: T, formData: F, save: boolean) => void
+  onCancel: () => void
+}
+
+/**
+ * Field-level diff shown when a save was rejected because someone else changed the record
+ */
+export function SaveConflictDialog<T, F extends object>({ conflict, onResolve, onCancel }: SaveConflictDialogProps<T, F>) {
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>This record was changed by someone else</DialogTitle>
+          <DialogDescription>
+            Your changes were not saved. Choose which version to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+        {conflict && <ConflictChoices conflict={conflict} onResolve={onResolve} onCancel={onCancel} />}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ConflictChoicesProps<T, F> {
+  conflict: SaveConflict<T, F>
+  onResolve: (record: T, formData: F, save: boolean) => void
+  onCancel: () => void
+}
+
+function ConflictChoices<T, F extends object>({ conflict, onResolve, onCancel }: ConflictChoicesProps<T, F>) {
+  const base = conflict.base as Record<string, unknown>
+  const mine = conflict.mine as Record<string, unknown>
+  const theirs = conflict.theirs as Record<string, unknown>
+  const fields = Object.keys(theirs).filter(field => !isSame(mine[field], theirs[field]))
+
+  // Fields the user edited keep their value by default; untouched fields take the other version
+  const [choices, setChoices] = useState<Record<string, Side>>(() =>
+    Object.fromEntries(fields.map(field => [field, isSame(mine[field], base[field]) ? "theirs" : "mine"]))
+  )
+
+  const merged = () => {
+    const result = { ...mine }
+    for (const field of fields) {
+      if (choices[field] === "theirs") result[field] = theirs[field]
+    }
+    return result as F
+  }
+
+  const option = (field: string, side: Side) => (
+    <button
+      type="button"
+      onClick={() => setChoices(current => ({ ...current, [field]: side }))}
+      className={cn(
+        "w-full cursor-pointer rounded-md border px-2 py-1 text-left break-all",
+        choices[field] === side ? "border-primary bg-primary/5" : "border-transparent text-muted-foreground hover:bg-muted"
+      )}
+    >
+      {formatValue(side === "mine" ? mine[field] : theirs[field])}
+    </button>
+  )
+
+  return (
+    <>
+      {fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          None of the fields you can edit here differ from the latest version.
+        </p>
+      ) : (
+        <div className="max-h-[50vh] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="w-1/4 pb-2 font-medium">Field</th>
+                <th className="pb-2 font-medium">Yours</th>
+                <th className="pb-2 font-medium">Theirs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map((field) => (
+                <tr key={field} className="align-top">
+                  <td className="py-1 pr-2 font-medium">{fieldLabel(field)}</td>
+                  <td className="py-1 pr-2">{option(field, "mine")}</td>
+                  <td className="py-1">{option(field, "theirs")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <DialogFooter className="gap-2 sm:justify-between">
+        <Button variant="ghost" onClick={onCancel} className="cursor-pointer">
+          Cancel
+        </Button>
+        <div className="flex flex-col-reverse gap-2 sm:flex-row">
+          <Button variant="outline" onClick={() => onResolve(conflict.record, conflict.theirs, false)} className="cursor-pointer">
+            Take theirs
+          </Button>
+          <Button variant="outline" onClick={() => onResolve(conflict.record, conflict.mine, true)} className="cursor-pointer">
+            Keep mine
+          </Button>
+          <Button onClick={() => onResolve(conflict.record, merged(), true)} className="cursor-pointer">
+            Save merged
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  )
+}
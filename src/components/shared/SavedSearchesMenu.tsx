@@ -0,0 +1,221 @@
+import { useState } from "react"
+import { Bell, BellRing, Clock, Globe, Lock, Pin, PinOff, Save, Users, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import { useSavedSearches } from "@/hooks/useSavedSearches"
+import { SAVED_SEARCH_VISIBILITY_LABELS } from "@/lib/saved-searches"
+import { SAVED_SEARCH_ALERT_LABELS } from "@/lib/saved-search-alerts"
+import { cn } from "@/lib/utils"
+import type { SavedSearch, SavedSearchAlertFrequency, SavedSearchVisibility } from "@/types/saved-search"
+
+const VISIBILITY_ICONS: Record<SavedSearchVisibility, typeof Lock> = {
+  private: Lock,
+  role: Users,
+  everyone: Globe,
+}
+
+interface SavedSearchesMenuProps {
+  // Table the searches belong to
+  table: string
+  // Current query, saved under the entered name
+  query: string
+  onLoad: (query: string) => void
+}
+
+/**
+ * Save the current search and load the employee's own and shared saved searches
+ */
+export function SavedSearchesMenu({ table, query, onLoad }: SavedSearchesMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [visibility, setVisibility] = useState<SavedSearchVisibility>("private")
+  const { searches, save, remove, togglePinned, isOwn, canAlert, alertFrequency, setAlert } = useSavedSearches(table)
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name for this search")
+      return
+    }
+    if (await save(name.trim(), query, visibility)) {
+      setName("")
+      setIsOpen(false)
+      toast.success("Search saved")
+    }
+  }
+
+  const handleLoad = (search: SavedSearch) => {
+    onLoad(search.query)
+    setIsOpen(false)
+  }
+
+  const own = searches.filter(isOwn)
+  const shared = searches.filter(search => !isOwn(search))
+
+  const renderAlertMenu = (search: SavedSearch) => {
+    const frequency = alertFrequency(search)
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-6 w-6", frequency ? "text-primary" : "opacity-0 group-hover:opacity-100")}
+            title={frequency ? `Alert: ${SAVED_SEARCH_ALERT_LABELS[frequency]}` : "Get alerts for new matches"}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {frequency ? <BellRing className="h-3 w-3" /> : <Bell className="h-3 w-3" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuLabel>Alert me about new matches</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup
+            value={frequency ?? "off"}
+            onValueChange={(value) => void setAlert(search, value === "off" ? null : value as SavedSearchAlertFrequency)}
+          >
+            {(Object.keys(SAVED_SEARCH_ALERT_LABELS) as SavedSearchAlertFrequency[]).map((option) => (
+              <DropdownMenuRadioItem key={option} value={option}>
+                {SAVED_SEARCH_ALERT_LABELS[option]}
+              </DropdownMenuRadioItem>
+            ))}
+            <DropdownMenuRadioItem value="off">No alerts</DropdownMenuRadioItem>
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    )
+  }
+
+  const renderSearch = (search: SavedSearch) => {
+    const VisibilityIcon = VISIBILITY_ICONS[search.visibility]
+    return (
+      <div
+        key={search.id}
+        className="flex items-center justify-between p-2 rounded hover:bg-muted cursor-pointer group"
+        onClick={() => handleLoad(search)}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1.5 text-sm font-medium">
+            {search.pinned && <Pin className="h-3 w-3 shrink-0 text-primary" />}
+            <span className="truncate">{search.name}</span>
+            <VisibilityIcon
+              className="h-3 w-3 shrink-0 text-muted-foreground"
+              aria-label={SAVED_SEARCH_VISIBILITY_LABELS[search.visibility]}
+            />
+          </div>
+          <div className="text-xs text-muted-foreground truncate">{search.query}</div>
+          {!isOwn(search) && search.owner_name && (
+            <div className="text-xs text-muted-foreground truncate">Shared by {search.owner_name}</div>
+          )}
+        </div>
+        <div className="flex items-center shrink-0 ml-2">
+          {canAlert && renderAlertMenu(search)}
+          {isOwn(search) && (
+            <div className="flex items-center opacity-0 group-hover:opacity-100">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title={search.pinned ? "Unpin" : "Pin to the top"}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  void togglePinned(search)
+                }}
+              >
+                {search.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title="Delete"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  void remove(search)
+                }}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="shrink-0">
+          <Clock className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Save search as..."
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    void handleSave()
+                  }
+                }}
+              />
+              <Button size="sm" onClick={() => void handleSave()} disabled={!query.trim()}>
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-1">
+              {(Object.keys(SAVED_SEARCH_VISIBILITY_LABELS) as SavedSearchVisibility[]).map((option) => {
+                const Icon = VISIBILITY_ICONS[option]
+                return (
+                  <Button
+                    key={option}
+                    variant="ghost"
+                    size="sm"
+                    className={cn("h-7 flex-1 gap-1 text-xs", visibility === option && "bg-muted")}
+                    onClick={() => setVisibility(option)}
+                  >
+                    <Icon className="h-3 w-3" />
+                    {SAVED_SEARCH_VISIBILITY_LABELS[option]}
+                  </Button>
+                )
+              })}
+            </div>
+          </div>
+
+          {own.length > 0 && (
+            <div className="space-y-1 border-t pt-2">
+              <div className="text-sm font-medium mb-2">My Searches</div>
+              {own.map(renderSearch)}
+            </div>
+          )}
+
+          {shared.length > 0 && (
+            <div className="space-y-1 border-t pt-2">
+              <div className="text-sm font-medium mb-2">Shared With Me</div>
+              {shared.map(renderSearch)}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,50 @@
+import { HelpCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+
+// How every list page interprets a search (see src/lib/query-compiler.ts)
+const SYNTAX: Array<{ example: string; meaning: string }> = [
+  { example: "marina", meaning: "Free text: rows containing the text in any searched column. On the Database page every word must start a word, and best matches come first" },
+  { example: "area:marina", meaning: "Text column contains the value (case-insensitive); column=value is the same" },
+  { example: "area:!=marina", meaning: "Text column does not contain the value" },
+  { example: "bedroom:=1", meaning: "Text column is exactly the value (case-sensitive); bedroom:=(1|2) is exactly any of them" },
+  { example: "price:2m", meaning: "Number equals the value; k, m and b multiply by a thousand, million and billion" },
+  { example: "price:>2m  price:<=500k", meaning: "Greater than, at most; also >= and <" },
+  { example: "price:1m..3m", meaning: "Range, both ends included; either end may be left out" },
+  { example: "date:2024-05  date:last_30_days", meaning: "Dates cover whole days: a day, month, quarter or year, or a relative period" },
+  { example: "type:(villa|flat)", meaning: "Any of the values; type:!=(villa|flat) excludes them" },
+  { example: "villa OR townhouse", meaning: "Either term; terms without OR must all match" },
+  { example: "-sold  NOT (a b)", meaning: "Exclude rows matching the term or group" },
+  { example: "\"Dubai Marina\"", meaning: "Quote values that contain spaces" },
+  { example: "sort:price:desc,date", meaning: "Sort by one or more columns" },
+]
+
+/**
+ * Reference of the search syntax shared by all list pages
+ */
+export function SearchSyntaxHelp() {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" type="button" title="Search syntax">
+          <HelpCircle className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[28rem]">
+        <div className="mb-2 text-sm font-medium">Search syntax</div>
+        <dl className="space-y-2 text-sm">
+          {SYNTAX.map(({ example, meaning }) => (
+            <div key={example} className="grid grid-cols-[11rem_1fr] gap-3">
+              <dt><code className="rounded bg-muted px-1 py-0.5 text-xs">{example}</code></dt>
+              <dd className="text-muted-foreground">{meaning}</dd>
+            </div>
+          ))}
+        </dl>
+      </PopoverContent>
+    </Popover>
+  )
+}
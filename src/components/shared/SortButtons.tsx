@@ -0,0 +1,47 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { QuerySort } from "@/lib/query-parser"
+
+interface SortButtonsProps {
+  columns: Array<{ key: string; label: string }>
+  sort: QuerySort[]
+  // `additive` is true on shift-click: add the column to the current sort instead of replacing it
+  onSort: (column: string, additive: boolean) => void
+  className?: string
+}
+
+/**
+ * Sort controls for lists without table headers (card grids); they behave like SortableTableHead
+ */
+export function SortButtons({ columns, sort, onSort, className }: SortButtonsProps) {
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 text-sm", className)}>
+      <span className="mr-1 text-muted-foreground">Sort by</span>
+      {columns.map(({ key, label }) => {
+        const index = sort.findIndex(item => item.column === key)
+        const direction = index === -1 ? null : sort[index].direction
+        const Icon = direction === "asc" ? ArrowUp : direction === "desc" ? ArrowDown : ArrowUpDown
+
+        return (
+          <Button
+            key={key}
+            variant={direction ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 gap-1 px-2"
+            type="button"
+            aria-pressed={direction !== null}
+            title="Click to sort, shift-click to sort by several columns"
+            onClick={(e) => onSort(key, e.shiftKey)}
+          >
+            {label}
+            <Icon className={cn("h-3.5 w-3.5", direction ? "text-foreground" : "text-muted-foreground/50")} />
+            {direction && sort.length > 1 && (
+              <span className="text-[10px] text-muted-foreground tabular-nums">{index + 1}</span>
+            )}
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
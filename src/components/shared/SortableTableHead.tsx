@@ -0,0 +1,41 @@
+import type { ReactNode } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { TableHead } from "@/components/ui/table"
+import { cn } from "@/lib/utils"
+import type { QuerySort } from "@/lib/query-parser"
+
+interface SortableTableHeadProps {
+  column: string
+  sort: QuerySort[]
+  // `additive` is true on shift-click: add the column to the current sort instead of replacing it
+  onSort: (column: string, additive: boolean) => void
+  className?: string
+  children: ReactNode
+}
+
+/**
+ * Table header that sorts by its column; shift-click sorts by several columns
+ * Shows the direction and, when sorting by more than one column, the column's priority.
+ */
+export function SortableTableHead({ column, sort, onSort, className, children }: SortableTableHeadProps) {
+  const index = sort.findIndex(item => item.column === column)
+  const direction = index === -1 ? null : sort[index].direction
+  const Icon = direction === "asc" ? ArrowUp : direction === "desc" ? ArrowDown : ArrowUpDown
+
+  return (
+    <TableHead
+      className={cn("cursor-pointer select-none", className)}
+      aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none"}
+      title="Click to sort, shift-click to sort by several columns"
+      onClick={(e) => onSort(column, e.shiftKey)}
+    >
+      <span className="inline-flex items-center gap-1">
+        {children}
+        <Icon className={cn("h-3.5 w-3.5", direction ? "text-foreground" : "text-muted-foreground/50")} />
+        {direction && sort.length > 1 && (
+          <span className="text-[10px] text-muted-foreground tabular-nums">{index + 1}</span>
+        )}
+      </span>
+    </TableHead>
+  )
+}
@@ -0,0 +1,4 @@
+/**
+ * Days a soft-deleted record stays in the recycle bin before it can be purged
+ */
+export const RECYCLE_BIN_RETENTION_DAYS = 30
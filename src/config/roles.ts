@@ -189,6 +189,46 @@ export const PROPERTY_EDIT_ROLES: UserRole[] = [
   'Admin',
 ]
 
+/**
+ * Roles that can view the activity (audit) log
+ * IT, Admin, CEO only
+ */
+export const ACTIVITY_VIEW_ROLES: UserRole[] = [
+  'IT',
+  'CEO',
+  'Admin',
+]
+
+/**
+ * Roles that can use the recycle bin (restore and purge deleted records)
+ * IT, Admin, CEO only
+ */
+export const RECYCLE_BIN_ROLES: UserRole[] = [
+  'IT',
+  'CEO',
+  'Admin',
+]
+
+/**
+ * Roles that can roll back a spreadsheet import (remove every row it inserted)
+ * IT, Admin, CEO only
+ */
+export const IMPORT_ROLLBACK_ROLES: UserRole[] = [
+  'IT',
+  'CEO',
+  'Admin',
+]
+
+/**
+ * Roles that can export personal data of transaction parties (phones, ID numbers, passport details)
+ * IT, Admin, CEO only
+ */
+export const PERSONAL_DATA_EXPORT_ROLES: UserRole[] = [
+  'IT',
+  'CEO',
+  'Admin',
+]
+
 /**
  * Role display names (for UI)
  */
@@ -324,6 +364,38 @@ export function canEditProperties(role: UserRole | null | undefined): boolean {
   return PROPERTY_EDIT_ROLES.includes(role)
 }
 
+/**
+ * Check if a role can view the activity log
+ */
+export function canViewActivity(role: UserRole | null | undefined): boolean {
+  if (!role) return false
+  return ACTIVITY_VIEW_ROLES.includes(role)
+}
+
+/**
+ * Check if a role can restore or purge records in the recycle bin
+ */
+export function canManageRecycleBin(role: UserRole | null | undefined): boolean {
+  if (!role) return false
+  return RECYCLE_BIN_ROLES.includes(role)
+}
+
+/**
+ * Check if a role can roll back spreadsheet imports
+ */
+export function canRollbackImports(role: UserRole | null | undefined): boolean {
+  if (!role) return false
+  return IMPORT_ROLLBACK_ROLES.includes(role)
+}
+
+/**
+ * Check if a role can include personal data in exports
+ */
+export function canExportPersonalData(role: UserRole | null | undefined): boolean {
+  if (!role) return false
+  return PERSONAL_DATA_EXPORT_ROLES.includes(role)
+}
+
 /**
  * Check if user can see a specific employee based on role hierarchy
  * User cannot see employees with lower level (higher authority)
@@ -0,0 +1,22 @@
+import { TRANSACTION_IMPORT_FIELDS } from '@/config/transaction-import'
+import type { PropertyTransaction } from '@/types/archive'
+import type { ExportColumn } from '@/types/export'
+
+// Contact and identity details of the parties
+const PERSONAL_COLUMNS: Array<keyof PropertyTransaction> = [
+  'phone1', 'phone2', 'mobile1', 'mobile2', 'secondary_mobile',
+  'id_number', 'eid_number', 'passport_expiry_date', 'birth_date',
+]
+
+/**
+ * Property transaction columns that can be exported, in file order
+ * Headers are the import labels, so an exported file imports back without mapping.
+ */
+export const TRANSACTION_EXPORT_COLUMNS: ExportColumn<PropertyTransaction>[] = [
+  { key: 'id', label: 'Transaction ID' },
+  ...TRANSACTION_IMPORT_FIELDS.map(field => ({
+    key: field.key,
+    label: field.label,
+    personal: PERSONAL_COLUMNS.includes(field.key),
+  })),
+]
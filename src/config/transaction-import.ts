@@ -0,0 +1,44 @@
+import type { DuplicateKey, ImportField } from '@/types/import'
+import type { PropertyTransaction } from '@/types/archive'
+
+/**
+ * Property transaction columns a spreadsheet can be imported into
+ * Aliases cover the headers of the DLD transaction exports and of our own exports.
+ */
+export const TRANSACTION_IMPORT_FIELDS: ImportField<PropertyTransaction>[] = [
+  { key: 'date', label: 'Date', type: 'date', required: true, aliases: ['Transaction Date', 'Instance Date', 'Registration Date'] },
+  { key: 'price', label: 'Price (AED)', type: 'number', required: true, aliases: ['Amount', 'Trans Value', 'Transaction Value', 'Actual Worth', 'Price'] },
+  { key: 'area_and_community', label: 'Area & Community', type: 'text', aliases: ['Area', 'Area Name', 'Community', 'Location'] },
+  { key: 'project_name', label: 'Project Name', type: 'text', aliases: ['Project', 'Master Project'] },
+  { key: 'building', label: 'Building', type: 'text', aliases: ['Building Name', 'Tower'] },
+  { key: 'unit_number', label: 'Unit Number', type: 'text', aliases: ['Unit', 'Unit No', 'Property Number'] },
+  { key: 'land_number', label: 'Land Number', type: 'text', aliases: ['Land No', 'Plot Number', 'Plot No'] },
+  { key: 'size', label: 'Size', type: 'number', aliases: ['Procedure Area', 'Actual Area', 'Area (sqm)', 'Size (sqm)', 'Sqm'] },
+  { key: 'completion_status', label: 'Completion Status', type: 'text', aliases: ['Status', 'Reg Type', 'Registration Type'] },
+  { key: 'property_type', label: 'Property Type', type: 'text', aliases: ['Type', 'Property Sub Type', 'Prop Type'] },
+  { key: 'property_usage', label: 'Property Usage', type: 'text', aliases: ['Usage'] },
+  { key: 'bedroom', label: 'Bedroom', type: 'text', aliases: ['Bedrooms', 'Rooms', 'Beds'] },
+  { key: 'role', label: 'Role', type: 'text', aliases: ['Party Role', 'Procedure Party Type'] },
+  { key: 'deal_type', label: 'Deal Type', type: 'text', aliases: ['Procedure', 'Procedure Name', 'Transaction Type', 'Trans Group'] },
+  { key: 'owner_name', label: 'Owner Name', type: 'text', aliases: ['Owner', 'Name', 'Party Name'] },
+  { key: 'phone1', label: 'Phone 1', type: 'text', aliases: ['Phone', 'Telephone'] },
+  { key: 'phone2', label: 'Phone 2', type: 'text' },
+  { key: 'mobile1', label: 'Mobile 1', type: 'text', aliases: ['Mobile', 'Mobile Number'] },
+  { key: 'mobile2', label: 'Mobile 2', type: 'text' },
+  { key: 'secondary_mobile', label: 'Secondary Mobile', type: 'text' },
+  { key: 'country_name', label: 'Country', type: 'text', aliases: ['Nationality', 'Country Name'] },
+  { key: 'id_number', label: 'ID Number', type: 'text', aliases: ['ID', 'ID No'] },
+  { key: 'eid_number', label: 'EID Number', type: 'text', aliases: ['EID', 'Emirates ID'] },
+  { key: 'passport_expiry_date', label: 'Passport Expiry', type: 'date', aliases: ['Passport Expiry Date', 'Passport Expiry'] },
+  { key: 'birth_date', label: 'Birth Date', type: 'date', aliases: ['Date of Birth', 'DOB'] },
+]
+
+/**
+ * Ways to recognise the same transaction in overlapping exports, offered when importing
+ * and in the Find duplicates tool. The first one is the default.
+ */
+export const TRANSACTION_DUPLICATE_KEYS: DuplicateKey<PropertyTransaction>[] = [
+  { id: 'unit-sale', label: 'Date, unit number, building and price', columns: ['date', 'unit_number', 'building', 'price'] },
+  { id: 'land-sale', label: 'Land number and date', columns: ['land_number', 'date'] },
+  { id: 'project-unit-sale', label: 'Date, project, unit number and price', columns: ['date', 'project_name', 'unit_number', 'price'] },
+]
@@ -0,0 +1,40 @@
+import type { SearchColumn } from '@/components/shared/AdvancedSearchBar'
+import type { TableFilterConfig } from '@/hooks/useTableFilters'
+
+/**
+ * Columns searchable on the Database (property transactions) page
+ */
+export const TRANSACTION_SEARCH_COLUMNS: SearchColumn[] = [
+  { key: 'date', label: 'Date', type: 'date' },
+  { key: 'price', label: 'Price', type: 'number', facet: true },
+  { key: 'area_and_community', label: 'Area', type: 'text', suggestValues: true },
+  { key: 'project_name', label: 'Project', type: 'text', suggestValues: true },
+  { key: 'building', label: 'Building', type: 'text', suggestValues: true },
+  { key: 'unit_number', label: 'Unit Number', type: 'text' },
+  { key: 'property_type', label: 'Property Type', type: 'text', suggestValues: true, facet: true },
+  { key: 'completion_status', label: 'Completion Status', type: 'text', suggestValues: true, facet: true },
+  { key: 'bedroom', label: 'Bedrooms', type: 'text', facet: true },
+  { key: 'owner_name', label: 'Owner Name', type: 'text' },
+  { key: 'mobile1', label: 'Mobile', type: 'text' },
+  { key: 'deal_type', label: 'Deal Type', type: 'text', suggestValues: true, facet: true },
+  { key: 'size', label: 'Size', type: 'number', facet: true },
+]
+
+/**
+ * Query building for property transaction searches (Database page and saved-search alerts)
+ */
+export const TRANSACTION_FILTER_CONFIG: TableFilterConfig = {
+  tableName: 'property_transaction',
+  columns: TRANSACTION_SEARCH_COLUMNS,
+  // search_vector indexes the owner, area, project, building, unit, mobile, deal and property type columns.
+  // search_property_transactions(search text), when the database defines it (the mock backend does),
+  // returns the rows matching to_tsquery('simple', search) ordered by ts_rank, so free-text searches
+  // list the best matches first; without it they are filtered on search_vector and sorted by date
+  fullTextSearch: {
+    column: 'search_vector',
+    language: 'simple',
+    rankFunction: 'search_property_transactions',
+  },
+  defaultSort: { column: 'date', direction: 'desc' },
+  softDelete: true,
+}
@@ -1,6 +1,8 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 import type { ReactNode } from 'react'
 import { supabase } from '@/lib/supabase'
+import { clearQueryCache } from '@/lib/query-cache'
+import { setAuditActor } from '@/lib/audit'
 import type { AuthUser, Employee, AuthState } from '@/types/auth'
 import { getRoleRedirectPath, canAccessDashboard } from '@/lib/rbac'
 
@@ -100,6 +102,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       setLoading(true)
       await supabase.auth.signOut()
+      clearQueryCache()
       setUser(null)
       setEmployee(null)
       setError(null)
@@ -111,6 +114,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  // Attribute audit log entries to the signed-in employee
+  useEffect(() => {
+    setAuditActor(employee)
+  }, [employee])
+
   // Check for existing session on mount
   useEffect(() => {
     let isMounted = true
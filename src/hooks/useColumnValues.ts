@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react"
+import { fuzzyScore } from "@/lib/fuzzy-match"
+import type { ColumnValue, ColumnValues } from "@/lib/repositories/base"
+
+// Wait for the user to stop typing before looking up values
+const LOOKUP_DELAY = 250
+const MAX_SUGGESTIONS = 8
+
+// Anything that can list the distinct values of a column (every repository can)
+export interface ColumnValueSource {
+  distinctValues(column: string, search?: string): Promise<ColumnValues>
+}
+
+// Best matches first; equally good matches by how many rows have the value
+function rankValues(values: ColumnValue[], term: string): ColumnValue[] {
+  return values
+    .map(item => ({ item, score: fuzzyScore(item.value, term) }))
+    .filter((entry): entry is { item: ColumnValue; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score || b.item.count - a.item.count)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ item }) => item)
+}
+
+/**
+ * Suggest values for a column as the user types them
+ * The column's values are fetched once (and cached) so misspelled terms still match;
+ * when the column has too many rows to read in full, values containing the term are looked up too.
+ */
+export function useColumnValues(source: ColumnValueSource | undefined, column: string | null, term: string) {
+  const [result, setResult] = useState<(ColumnValues & { column: string }) | null>(null)
+
+  useEffect(() => {
+    if (!source || !column) return
+
+    let active = true
+    const timer = setTimeout(async () => {
+      try {
+        const all = await source.distinctValues(column)
+        let { values, complete } = all
+
+        if (!complete && term.trim()) {
+          const matching = await source.distinctValues(column, term)
+          // Counts from the narrower lookup are more accurate for the values it found
+          const counts = new Map(values.map(item => [item.value, item.count]))
+          for (const item of matching.values) counts.set(item.value, item.count)
+          values = Array.from(counts, ([value, count]) => ({ value, count }))
+          complete = matching.complete
+        }
+
+        if (active) setResult({ column, values: rankValues(values, term), complete })
+      } catch (err) {
+        console.warn(`Could not load values for ${column}:`, err)
+      }
+    }, LOOKUP_DELAY)
+
+    return () => {
+      active = false
+      clearTimeout(timer)
+    }
+  }, [source, column, term])
+
+  // Suggestions for the previous term stay up while the next lookup runs, but never another column's
+  return result && result.column === column ? result : { values: [], complete: true }
+}
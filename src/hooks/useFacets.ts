@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from "react"
+import type { SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { compileQuery, type TableSchema } from "@/lib/query-compiler"
+import { parseQuery, setQueryRange, setQueryValues } from "@/lib/query-parser"
+import type { ColumnRange, ColumnValues, Filter, ScopeParams } from "@/lib/repositories/base"
+
+// Anything that can count values and find ranges under a query (every repository can)
+export interface FacetSource {
+  valueCounts(column: string, params?: ScopeParams): Promise<ColumnValues>
+  valueRange(column: string, params?: ScopeParams): Promise<ColumnRange | null>
+}
+
+export interface FacetOptions {
+  source: FacetSource
+  // How the page compiles its search (free-text fields, full-text search)
+  schema: TableSchema
+  // Conditions the page always applies, e.g. the project type of the Projects page
+  filters?: Filter[]
+}
+
+export type Facet =
+  | ({ column: SearchColumn; kind: 'values' } & ColumnValues)
+  | { column: SearchColumn; kind: 'range'; range: ColumnRange | null }
+
+interface FacetRequest {
+  column: SearchColumn
+  scope: ScopeParams
+}
+
+/**
+ * Counts and ranges for the facet columns of a table under the current query
+ * Each facet ignores its own terms, so the values next to a checked one stay visible with their counts.
+ */
+export function useFacets(options: FacetOptions, query: string, enabled = true) {
+  const { source, schema, filters } = options
+  const [facets, setFacets] = useState<Facet[]>([])
+
+  const requests = useMemo(() => schema.columns
+    .filter(column => column.facet && (column.type === 'text' || column.type === 'number'))
+    .map((column): FacetRequest => {
+      const withoutFacet = column.type === 'number'
+        ? setQueryRange(query, column.key, { from: null, to: null }, schema.columns)
+        : setQueryValues(query, column.key, [], schema.columns)
+      const compiled = compileQuery(parseQuery(withoutFacet, schema.columns), schema)
+      return {
+        column,
+        scope: { filters: [...(filters || []), ...compiled.filters], logic: compiled.logic },
+      }
+    }), [query, schema, filters])
+
+  // Pages rebuild their schema on every render; only refetch when the requests change
+  const requestKey = JSON.stringify(requests)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let active = true
+    const pending: FacetRequest[] = JSON.parse(requestKey)
+
+    Promise.all(pending.map(async ({ column, scope }): Promise<Facet> => column.type === 'number'
+      ? { column, kind: 'range', range: await source.valueRange(column.key, scope) }
+      : { column, kind: 'values', ...await source.valueCounts(column.key, scope) }
+    ))
+      .then((result) => {
+        if (active) setFacets(result)
+      })
+      .catch((err) => {
+        console.warn("Could not load facets:", err)
+      })
+
+    return () => {
+      active = false
+    }
+  }, [source, requestKey, enabled])
+
+  return facets
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef } from "react"
+import { useSearchParams } from "react-router-dom"
+
+interface ListParamChanges {
+  q?: string
+  page?: number
+  record?: number | null
+}
+
+// Positive integer from a search param, or null
+function parseId(value: string | null): number | null {
+  const id = Number(value)
+  return value && Number.isInteger(id) && id > 0 ? id : null
+}
+
+/**
+ * Search query, page and open record of a list page, kept in the URL
+ * (e.g. `/database?q=area:marina+price:>2m&page=3&record=812`) so a refresh or a shared link restores them.
+ * Searching, paging and opening a record add a history entry, so back/forward moves between them;
+ * closing a record replaces the entry instead of adding one.
+ */
+export function useListSearchParams() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const searchQuery = searchParams.get("q") ?? ""
+  const currentPage = parseId(searchParams.get("page")) ?? 1
+  const recordId = parseId(searchParams.get("record"))
+
+  const update = useCallback((changes: ListParamChanges, replace = false) => {
+    const next = new URLSearchParams(searchParams)
+    if (changes.q !== undefined) {
+      if (changes.q.trim()) next.set("q", changes.q)
+      else next.delete("q")
+    }
+    if (changes.page !== undefined) {
+      if (changes.page > 1) next.set("page", String(changes.page))
+      else next.delete("page")
+    }
+    if (changes.record !== undefined) {
+      if (changes.record !== null) next.set("record", String(changes.record))
+      else next.delete("record")
+    }
+    // Applying the same search twice must not add a history entry
+    if (next.toString() === searchParams.toString()) return
+    setSearchParams(next, { replace })
+  }, [searchParams, setSearchParams])
+
+  // A new search starts on the first page; re-applying the current one keeps the page
+  const setSearchQuery = useCallback((query: string) => {
+    if (query.trim() === searchQuery.trim()) return
+    update({ q: query, page: 1 })
+  }, [searchQuery, update])
+  const setCurrentPage = useCallback((page: number) => update({ page }), [update])
+  const openRecord = useCallback((id: number) => update({ record: id }), [update])
+  const closeRecord = useCallback(() => update({ record: null }, true), [update])
+
+  return { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord }
+}
+
+interface RecordFromUrlConfig<T extends { id: number }> {
+  recordId: number | null
+  // Record currently shown in the page's dialog/sheet
+  record: T | null
+  load: (id: number) => Promise<T | null>
+  // Show a record that was opened from the URL (page load, back/forward)
+  onLoad: (record: T) => void
+  onMissing: () => void
+}
+
+/**
+ * Load the record named in the URL when it is not the one already on screen
+ */
+export function useRecordFromUrl<T extends { id: number }>({ recordId, record, load, onLoad, onMissing }: RecordFromUrlConfig<T>) {
+  const shownId = record?.id ?? null
+
+  // Latest callbacks without reloading on every render
+  const callbacksRef = useRef({ load, onLoad, onMissing })
+  useEffect(() => {
+    callbacksRef.current = { load, onLoad, onMissing }
+  })
+
+  useEffect(() => {
+    if (recordId === null || recordId === shownId) return
+
+    let active = true
+    callbacksRef.current.load(recordId)
+      .then((loaded) => {
+        if (!active) return
+        if (loaded) callbacksRef.current.onLoad(loaded)
+        else callbacksRef.current.onMissing()
+      })
+      .catch((err) => {
+        console.error(`Error loading record #${recordId}:`, err)
+        if (active) callbacksRef.current.onMissing()
+      })
+
+    return () => {
+      active = false
+    }
+  }, [recordId, shownId])
+}
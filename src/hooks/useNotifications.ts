@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { formatError } from "@/lib/error-formatter"
+import { subscribeToTable } from "@/lib/realtime"
+import { notificationRepository } from "@/lib/repositories/notification"
+import { checkSavedSearchAlerts } from "@/lib/saved-search-alerts"
+import type { AppNotification } from "@/types/notification"
+
+// Most recent notifications shown in the menu
+const NOTIFICATION_LIMIT = 20
+// Quiet time after the last new transaction before saved search alerts are checked (ms);
+// an import inserts its rows in chunks, and the check should see all of them
+const ALERT_CHECK_DELAY = 15000
+
+async function listNotifications(employeeId: number): Promise<AppNotification[]> {
+  const { data } = await notificationRepository.list({
+    filters: [{ column: "employee_id", operator: "eq", value: employeeId }],
+    order: [{ column: "created_at", direction: "desc" }],
+    limit: NOTIFICATION_LIMIT,
+  })
+  return data
+}
+
+/**
+ * In-app notifications of the signed-in employee, kept up to date as new ones arrive
+ * The employee's saved search alerts are checked on load and after new transactions arrive;
+ * rows imported while the app was closed alert on the next visit, and the daily digest is
+ * prepared on the first visit of the day.
+ */
+export function useNotifications() {
+  const { employee } = useAuth()
+  const employeeId = employee?.id
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+
+  useEffect(() => {
+    if (employeeId === undefined) return
+
+    let active = true
+    const load = () => {
+      listNotifications(employeeId)
+        .then((data) => {
+          if (active) setNotifications(data)
+        })
+        .catch((err) => console.error("Failed to load notifications:", err))
+    }
+
+    const checkAlerts = () => {
+      checkSavedSearchAlerts({ id: employeeId })
+        .catch((err) => console.error("Failed to check saved search alerts:", err))
+    }
+
+    load()
+    checkAlerts()
+    const unsubscribe = subscribeToTable("notification", load, { filter: `employee_id=eq.${employeeId}` })
+    let alertTimer: ReturnType<typeof setTimeout> | undefined
+    const unsubscribeTransactions = subscribeToTable("property_transaction", (change) => {
+      if (change.type !== "INSERT") return
+      clearTimeout(alertTimer)
+      alertTimer = setTimeout(checkAlerts, ALERT_CHECK_DELAY)
+    })
+
+    return () => {
+      active = false
+      clearTimeout(alertTimer)
+      unsubscribe()
+      unsubscribeTransactions()
+    }
+  }, [employeeId])
+
+  const markRead = useCallback(async (notification: AppNotification) => {
+    if (notification.read_at) return
+    const readAt = new Date().toISOString()
+    setNotifications(current => current.map(item => item.id === notification.id ? { ...item, read_at: readAt } : item))
+    try {
+      await notificationRepository.update(notification.id, { read_at: readAt })
+    } catch (err) {
+      console.error("Failed to mark notification as read:", err)
+    }
+  }, [])
+
+  const markAllRead = useCallback(async () => {
+    const unread = notifications.filter(notification => !notification.read_at)
+    if (unread.length === 0) return
+    const readAt = new Date().toISOString()
+    setNotifications(current => current.map(item => item.read_at ? item : { ...item, read_at: readAt }))
+    try {
+      await Promise.all(unread.map(notification => notificationRepository.update(notification.id, { read_at: readAt })))
+    } catch (err) {
+      console.error("Failed to mark notifications as read:", err)
+      toast.error(formatError(err) || "Failed to mark notifications as read")
+    }
+  }, [notifications])
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length
+
+  return { notifications, unreadCount, markRead, markAllRead }
+}
@@ -0,0 +1,17 @@
+import { useCallback, useMemo } from "react"
+import type { SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { parseQuery, setQuerySort, toggleSort } from "@/lib/query-parser"
+
+/**
+ * Sort of a list page's search query, for sortable table headers
+ * Header clicks rewrite the `sort:` term of the query, so the search bar and headers stay in sync.
+ */
+export function useQuerySort(query: string, columns: SearchColumn[], onChange: (query: string) => void) {
+  const sort = useMemo(() => parseQuery(query, columns).sort, [query, columns])
+
+  const onSort = useCallback((column: string, additive: boolean) => {
+    onChange(setQuerySort(query, toggleSort(sort, column, additive)))
+  }, [query, sort, onChange])
+
+  return { sort, onSort }
+}
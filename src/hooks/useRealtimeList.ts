@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react"
+import { subscribeToTable } from "@/lib/realtime"
+
+// How long new/changed rows stay highlighted (ms)
+const HIGHLIGHT_DURATION = 3000
+// Bursts of inserts/deletes (bulk actions, imports) trigger a single refetch
+const REFETCH_DELAY = 300
+
+interface RealtimeListConfig<T extends { id: number }> {
+  table: string
+  enabled?: boolean
+  rows: T[]
+  setRows: Dispatch<SetStateAction<T[]>>
+  // Reload the current page (inserts and deletes change paging and counts)
+  refetch: () => void | Promise<void>
+}
+
+/**
+ * Keep a list page in sync with row changes made by other users
+ * Updates are applied in place; inserts and deletes refetch the current page.
+ * Returns the ids of rows that changed recently so they can be highlighted.
+ */
+export function useRealtimeList<T extends { id: number }>({
+  table,
+  enabled = true,
+  rows,
+  setRows,
+  refetch,
+}: RealtimeListConfig<T>) {
+  const [highlightedIds, setHighlightedIds] = useState<Set<number>>(new Set())
+
+  // Latest values for the subscription callback without resubscribing on every render
+  const rowIdsRef = useRef<Set<number>>(new Set())
+  const refetchRef = useRef(refetch)
+  useEffect(() => {
+    rowIdsRef.current = new Set(rows.map(row => row.id))
+    refetchRef.current = refetch
+  })
+
+  const highlight = useCallback((id: number) => {
+    setHighlightedIds(ids => new Set(ids).add(id))
+    setTimeout(() => {
+      setHighlightedIds(ids => {
+        const next = new Set(ids)
+        next.delete(id)
+        return next
+      })
+    }, HIGHLIGHT_DURATION)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined
+    const scheduleRefetch = () => {
+      clearTimeout(refetchTimer)
+      refetchTimer = setTimeout(() => void refetchRef.current(), REFETCH_DELAY)
+    }
+
+    const unsubscribe = subscribeToTable<T>(table, (change) => {
+      if (change.type === 'UPDATE' && change.record) {
+        const updated = change.record
+        // Rows on other pages are picked up on their next fetch
+        if (!rowIdsRef.current.has(updated.id)) return
+        setRows(current => current.map(row => row.id === updated.id ? { ...row, ...updated } : row))
+        highlight(updated.id)
+        return
+      }
+
+      if (change.type === 'INSERT' && change.record) {
+        highlight(change.record.id)
+      }
+      scheduleRefetch()
+    })
+
+    return () => {
+      clearTimeout(refetchTimer)
+      unsubscribe()
+    }
+  }, [table, enabled, setRows, highlight])
+
+  return { highlightedIds }
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { subscribeToTable } from "@/lib/realtime"
+import { getAuditActor } from "@/lib/audit"
+import { auditLogRepository } from "@/lib/repositories/audit-log"
+
+// Audit entries are written right after the change; give them a moment before looking up the actor
+const ACTOR_LOOKUP_DELAY = 500
+
+export interface RecordConflict<T> {
+  // Latest version of the record (null when it was deleted)
+  record: T | null
+  deleted: boolean
+  actorName: string | null
+}
+
+interface RecordConflictConfig<T extends { id: number }, F extends object> {
+  table: string
+  // Record loaded into the dialog
+  record: T | null
+  enabled: boolean
+  formData: F
+  toFormData: (record: T) => F
+  // Apply a resolved conflict: the record becomes the new base for the form
+  onResolve: (record: T, formData: F) => void
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+// Who made the latest change to a record, according to the audit log
+async function findLastActor(table: string, id: number): Promise<{ id: number | null; name: string | null } | null> {
+  await new Promise(resolve => setTimeout(resolve, ACTOR_LOOKUP_DELAY))
+  try {
+    const { data } = await auditLogRepository.list({
+      filters: [
+        { column: "entity", operator: "eq", value: table },
+        { column: "record_id", operator: "eq", value: String(id) },
+      ],
+      order: [{ column: "created_at", direction: "desc" }],
+      limit: 1,
+    })
+    return data[0] ? { id: data[0].actor_id, name: data[0].actor_name } : null
+  } catch (err) {
+    console.warn(`Could not look up who changed ${table} #${id}:`, err)
+    return null
+  }
+}
+
+/**
+ * Watch the record open in an edit dialog for changes made by someone else
+ * `merge` keeps the user's edits and takes the other changes for untouched fields;
+ * `reload` discards the user's edits.
+ */
+export function useRecordConflict<T extends { id: number }, F extends object>({
+  table,
+  record,
+  enabled,
+  formData,
+  toFormData,
+  onResolve,
+}: RecordConflictConfig<T, F>) {
+  const recordId = record?.id
+  const [detected, setConflict] = useState<(RecordConflict<T> & { recordId: number }) | null>(null)
+  // A conflict only applies while the dialog still shows the record it was detected for
+  const conflict = enabled && detected?.recordId === recordId ? detected : null
+
+  // Latest values for the subscription callback without resubscribing on every render
+  const recordRef = useRef(record)
+  useEffect(() => {
+    recordRef.current = record
+  })
+
+  useEffect(() => {
+    if (!enabled || recordId === undefined) return
+
+    let active = true
+    const unsubscribe = subscribeToTable<T>(table, async (change) => {
+      if (change.type === "INSERT") return
+
+      const actor = await findLastActor(table, recordId)
+      // Our own saves are not conflicts
+      if (!active || (actor?.id != null && actor.id === getAuditActor()?.id)) return
+
+      setConflict({
+        recordId,
+        record: change.type === "DELETE" ? null : { ...recordRef.current, ...change.record } as T,
+        deleted: change.type === "DELETE",
+        actorName: actor?.name ?? null,
+      })
+    }, { filter: `id=eq.${recordId}` })
+
+    return () => {
+      active = false
+      unsubscribe()
+      setConflict(null)
+    }
+  }, [table, recordId, enabled])
+
+  const reload = useCallback(() => {
+    if (!conflict?.record) return
+    onResolve(conflict.record, toFormData(conflict.record))
+    setConflict(null)
+  }, [conflict, onResolve, toFormData])
+
+  const merge = useCallback(() => {
+    if (!conflict?.record || !record) return
+    const base = toFormData(record) as Record<string, unknown>
+    const theirs = toFormData(conflict.record) as Record<string, unknown>
+    const merged = { ...formData } as Record<string, unknown>
+
+    for (const key of Object.keys(theirs)) {
+      // Fields the user has not touched take the other user's value
+      if (isSame(merged[key], base[key])) {
+        merged[key] = theirs[key]
+      }
+    }
+    onResolve(conflict.record, merged as F)
+    setConflict(null)
+  }, [conflict, record, formData, onResolve, toFormData])
+
+  const dismiss = useCallback(() => setConflict(null), [])
+
+  return { conflict, merge, reload, dismiss }
+}
@@ -0,0 +1,48 @@
+import { useCallback, useState } from "react"
+import { toast } from "sonner"
+import { isStaleRecordError } from "@/lib/repositories/base"
+
+export interface SaveConflict<T, F> {
+  // Latest version of the record, saved by someone else after it was loaded
+  record: T
+  // Form values of the version the user started editing from
+  base: F
+  mine: F
+  theirs: F
+}
+
+// Record and form values to save with after a conflict was resolved
+export interface SaveResolution<T, F> {
+  record: T
+  formData: F
+}
+
+/**
+ * Handle saves rejected because the record changed after it was loaded
+ * `detect` is called from a save's catch block; it opens the conflict for resolution
+ * and returns true when the error was a stale-record conflict.
+ */
+export function useSaveConflict<T, F extends object>(toFormData: (record: T) => F) {
+  const [conflict, setConflict] = useState<SaveConflict<T, F> | null>(null)
+
+  const detect = useCallback((error: unknown, record: T, formData: F): boolean => {
+    if (!isStaleRecordError<T>(error)) return false
+
+    if (!error.current) {
+      toast.error("This record was deleted by someone else. Restore it from the recycle bin if it is still needed.")
+      return true
+    }
+
+    setConflict({
+      record: error.current,
+      base: toFormData(record),
+      mine: formData,
+      theirs: toFormData(error.current),
+    })
+    return true
+  }, [toFormData])
+
+  const dismiss = useCallback(() => setConflict(null), [])
+
+  return { conflict, detect, dismiss }
+}
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useState } from "react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { formatError } from "@/lib/error-formatter"
+import { savedSearchRepository } from "@/lib/repositories/saved-search"
+import { savedSearchSubscriptionRepository } from "@/lib/repositories/saved-search-subscription"
+import { createSavedSearch, listSavedSearches, migrateLegacySavedSearches } from "@/lib/saved-searches"
+import { ALERT_TABLE, listSavedSearchSubscriptions, subscribeToSavedSearch } from "@/lib/saved-search-alerts"
+import type {
+  SavedSearch,
+  SavedSearchAlertFrequency,
+  SavedSearchSubscription,
+  SavedSearchVisibility,
+} from "@/types/saved-search"
+
+/**
+ * Saved searches of a table for the signed-in employee
+ * Searches saved in this browser before they were stored server-side are migrated on first use.
+ * On tables that support alerts, the employee's alert subscriptions are loaded too.
+ */
+export function useSavedSearches(table: string | undefined) {
+  const { employee } = useAuth()
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [subscriptions, setSubscriptions] = useState<SavedSearchSubscription[]>([])
+  const canAlert = table === ALERT_TABLE
+
+  const reload = useCallback(async () => {
+    if (!table || !employee) return
+    setSearches(await listSavedSearches(table, employee))
+  }, [table, employee])
+
+  useEffect(() => {
+    if (!table || !employee) return
+
+    let active = true
+    migrateLegacySavedSearches(employee)
+      .then(() => listSavedSearches(table, employee))
+      .then((data) => {
+        if (active) setSearches(data)
+      })
+      .catch((err) => console.error("Failed to load saved searches:", err))
+
+    return () => {
+      active = false
+    }
+  }, [table, employee])
+
+  useEffect(() => {
+    if (!canAlert || !employee) return
+
+    let active = true
+    listSavedSearchSubscriptions(employee)
+      .then((data) => {
+        if (active) setSubscriptions(data)
+      })
+      .catch((err) => console.error("Failed to load saved search alerts:", err))
+
+    return () => {
+      active = false
+    }
+  }, [canAlert, employee])
+
+  const save = useCallback(async (name: string, query: string, visibility: SavedSearchVisibility): Promise<boolean> => {
+    if (!table || !employee) return false
+    try {
+      await createSavedSearch(table, employee, { name, query, visibility })
+      await reload()
+      return true
+    } catch (err) {
+      console.error("Failed to save search:", err)
+      toast.error(formatError(err) || "Failed to save search")
+      return false
+    }
+  }, [table, employee, reload])
+
+  const remove = useCallback(async (search: SavedSearch) => {
+    try {
+      await savedSearchRepository.remove(search.id)
+      setSearches(current => current.filter(item => item.id !== search.id))
+      setSubscriptions(current => current.filter(subscription => subscription.saved_search_id !== search.id))
+      toast.success("Search deleted")
+    } catch (err) {
+      console.error("Failed to delete saved search:", err)
+      toast.error(formatError(err) || "Failed to delete search")
+    }
+  }, [])
+
+  const togglePinned = useCallback(async (search: SavedSearch) => {
+    try {
+      await savedSearchRepository.update(search.id, { pinned: !search.pinned })
+      await reload()
+    } catch (err) {
+      console.error("Failed to pin saved search:", err)
+      toast.error(formatError(err) || "Failed to update search")
+    }
+  }, [reload])
+
+  // null turns the alert off
+  const setAlert = useCallback(async (search: SavedSearch, frequency: SavedSearchAlertFrequency | null) => {
+    if (!employee) return
+    try {
+      const existing = subscriptions.find(subscription => subscription.saved_search_id === search.id)
+      if (frequency === null) {
+        if (existing) await savedSearchSubscriptionRepository.remove(existing.id)
+        setSubscriptions(current => current.filter(subscription => subscription.id !== existing?.id))
+        toast.success("Alert turned off")
+        return
+      }
+
+      const subscription = await subscribeToSavedSearch(search, employee, frequency)
+      setSubscriptions(current => [
+        ...current.filter(item => item.id !== subscription.id),
+        subscription,
+      ])
+      toast.success(frequency === "daily"
+        ? "You will get a daily digest of new matches"
+        : "You will be notified when an import adds matches")
+    } catch (err) {
+      console.error("Failed to update saved search alert:", err)
+      toast.error(formatError(err) || "Failed to update alert")
+    }
+  }, [employee, subscriptions])
+
+  const alertFrequency = useCallback((search: SavedSearch): SavedSearchAlertFrequency | null =>
+    subscriptions.find(subscription => subscription.saved_search_id === search.id)?.frequency ?? null,
+  [subscriptions])
+
+  // Only the owner can pin, unpin or delete a search
+  const isOwn = useCallback((search: SavedSearch) => search.owner_id === employee?.id, [employee])
+
+  return { searches, save, remove, togglePinned, isOwn, canAlert, alertFrequency, setAlert }
+}
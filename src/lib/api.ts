@@ -1,8 +1,21 @@
-import axios, { type AxiosInstance, type AxiosRequestConfig } from 'axios'
+import axios, {
+  AxiosError,
+  type AxiosInstance,
+  type AxiosRequestConfig,
+  type InternalAxiosRequestConfig,
+} from 'axios'
+import { toast } from 'sonner'
+import { supabase } from '@/lib/supabase'
+import { isMockBackend, mockAxiosAdapter } from '@/lib/mock-backend'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
+// Serve every axios request (the instances below) from the mock backend
+if (isMockBackend) {
+  axios.defaults.adapter = mockAxiosAdapter
+}
+
 // Create axios instance for Supabase REST API
 export const supabaseApi: AxiosInstance = axios.create({
   baseURL: `${supabaseUrl}/rest/v1`,
@@ -22,6 +35,103 @@ export const supabaseStorageApi: AxiosInstance = axios.create({
   },
 })
 
+// Create axios instance for Supabase Edge Functions
+export const supabaseFunctionsApi: AxiosInstance = axios.create({
+  baseURL: `${supabaseUrl}/functions/v1`,
+  headers: {
+    'apikey': supabaseAnonKey,
+    'Authorization': `Bearer ${supabaseAnonKey}`,
+  },
+})
+
+// Create axios instance for the other Supabase APIs (e.g. Auth), used by apiRequest/storageRequest
+const supabaseBaseApi: AxiosInstance = axios.create({
+  baseURL: supabaseUrl,
+  headers: {
+    'apikey': supabaseAnonKey,
+    'Authorization': `Bearer ${supabaseAnonKey}`,
+  },
+})
+
+type SessionRequestConfig = InternalAxiosRequestConfig & {
+  _sessionAuth?: boolean
+  _retried?: boolean
+}
+
+// Shared between concurrent 401s so the session is only refreshed once
+let refreshPromise: Promise<string | null> | null = null
+
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = supabase.auth.refreshSession()
+      .then(({ data, error }) => (error ? null : data.session?.access_token ?? null))
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+  return refreshPromise
+}
+
+const redirectToLogin = async () => {
+  await supabase.auth.signOut().catch(() => undefined)
+  if (window.location.pathname !== '/login') {
+    toast.error('Your session has expired. Please log in again.')
+    window.location.assign('/login')
+  }
+}
+
+/**
+ * Attach the signed-in user's access token to every request and
+ * refresh the session once (then retry) when a request fails with 401
+ */
+const attachSessionInterceptors = (instance: AxiosInstance) => {
+  instance.interceptors.request.use(async (config: SessionRequestConfig) => {
+    // Keep explicit tokens (e.g. service key) set by the caller
+    const authorization = config.headers.get('Authorization')
+    if (authorization && authorization !== `Bearer ${supabaseAnonKey}`) {
+      return config
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (session?.access_token) {
+      config.headers.set('Authorization', `Bearer ${session.access_token}`)
+      config._sessionAuth = true
+    }
+    return config
+  })
+
+  instance.interceptors.response.use(undefined, async (error: unknown) => {
+    const config = (error as AxiosError).config as SessionRequestConfig | undefined
+
+    // Only requests signed with the session token are refreshed and retried
+    if (
+      !(error instanceof AxiosError) ||
+      error.response?.status !== 401 ||
+      !config?._sessionAuth ||
+      config._retried
+    ) {
+      return Promise.reject(error)
+    }
+
+    config._retried = true
+    const accessToken = await refreshAccessToken()
+
+    if (!accessToken) {
+      await redirectToLogin()
+      return Promise.reject(error)
+    }
+
+    config.headers.set('Authorization', `Bearer ${accessToken}`)
+    return instance(config)
+  })
+}
+
+attachSessionInterceptors(supabaseApi)
+attachSessionInterceptors(supabaseStorageApi)
+attachSessionInterceptors(supabaseFunctionsApi)
+attachSessionInterceptors(supabaseBaseApi)
+
 // Helper function to get headers with optional access token
 export const getAuthHeaders = (accessToken?: string): Record<string, string> => {
   const headers: Record<string, string> = {
@@ -31,34 +141,31 @@ export const getAuthHeaders = (accessToken?: string): Record<string, string> =>
   return headers
 }
 
-// Helper for REST API calls with optional token
+// Helper for REST API calls with optional token (the session token when none is given)
 export const apiRequest = async <T = any>(
   method: 'GET' | 'POST' | 'PATCH' | 'DELETE' | 'PUT',
   url: string,
   data?: any,
   config?: AxiosRequestConfig & { accessToken?: string }
 ): Promise<T> => {
-  const headers = getAuthHeaders(config?.accessToken)
-  
-  if (config?.accessToken) {
-    headers['Authorization'] = `Bearer ${config.accessToken}`
-  }
+  const { accessToken, headers: extraHeaders, ...axiosConfig } = config || {}
+  const headers = getAuthHeaders(accessToken)
 
-  const response = await axios({
+  const response = await supabaseBaseApi({
+    ...axiosConfig,
     method,
-    url: `${supabaseUrl}${url.startsWith('/') ? url : '/' + url}`,
+    url: url.startsWith('/') ? url : '/' + url,
     data,
     headers: {
       ...headers,
-      ...config?.headers,
+      ...extraHeaders,
     },
-    ...config,
   })
 
   return response.data
 }
 
-// Helper for Storage API calls with optional token
+// Helper for Storage API calls with optional token (the session token when none is given)
 export const storageRequest = async (
   method: 'POST' | 'PUT' | 'DELETE',
   url: string,
@@ -76,9 +183,9 @@ export const storageRequest = async (
     headers['Content-Type'] = contentType
   }
 
-  const response = await axios({
+  const response = await supabaseBaseApi({
     method,
-    url: `${supabaseUrl}${url.startsWith('/') ? url : '/' + url}`,
+    url: url.startsWith('/') ? url : '/' + url,
     data,
     headers,
   })
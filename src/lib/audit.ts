@@ -0,0 +1,120 @@
+import { toast } from 'sonner'
+import { supabaseApi } from '@/lib/api'
+import { invalidateQueries } from '@/lib/query-cache'
+import type { Employee } from '@/types/auth'
+import type { AuditAction, AuditChanges, AuditLog } from '@/types/audit'
+
+type Row = Record<string, unknown>
+
+// Employee currently signed in; set by AuthContext
+let currentActor: Pick<Employee, 'id' | 'role' | 'full_name'> | null = null
+
+export function setAuditActor(employee: Employee | null): void {
+  currentActor = employee
+    ? { id: employee.id, role: employee.role, full_name: employee.full_name }
+    : null
+}
+
+export function getAuditActor(): Pick<Employee, 'id' | 'role' | 'full_name'> | null {
+  return currentActor
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  restore: 'Restored',
+  purge: 'Purged',
+  rollback: 'Rolled back',
+  export: 'Exported',
+}
+
+// Actions whose snapshot is the row as it was before the action
+export const AUDIT_REMOVAL_ACTIONS: AuditAction[] = ['delete', 'purge']
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Reduce a before/after pair to the fields that actually changed
+ */
+export function diffRecords(before: Row | null, after: Row | null): AuditChanges {
+  if (!before || !after) {
+    return { before, after }
+  }
+
+  const changedBefore: Row = {}
+  const changedAfter: Row = {}
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    // Timestamps change on every write and only add noise
+    if (key === 'updated_at') continue
+    if (!isEqual(before[key], after[key])) {
+      changedBefore[key] = before[key] ?? null
+      changedAfter[key] = after[key] ?? null
+    }
+  }
+  return { before: changedBefore, after: changedAfter }
+}
+
+export interface AuditEntry {
+  action: AuditAction
+  recordId: unknown
+  before: Row | null
+  after: Row | null
+}
+
+/**
+ * Thrown when audit log rows could not be written
+ */
+export class AuditLogError extends Error {
+  entity: string
+
+  constructor(entity: string, cause: unknown) {
+    super(`The change to ${entity} could not be recorded in the activity log`, { cause })
+    this.name = 'AuditLogError'
+    this.entity = entity
+  }
+}
+
+/**
+ * Write audit log rows for mutations on an entity
+ * Throws an AuditLogError when the rows cannot be written.
+ */
+export async function recordAudit(entity: string, entries: AuditEntry[]): Promise<void> {
+  const rows: Array<Omit<AuditLog, 'id' | 'created_at'>> = entries
+    .map(entry => ({
+      actor_id: currentActor?.id ?? null,
+      actor_role: currentActor?.role ?? null,
+      actor_name: currentActor?.full_name ?? null,
+      entity,
+      record_id: String(entry.recordId),
+      action: entry.action,
+      changes: diffRecords(entry.before, entry.after),
+    }))
+    // Updates that did not change anything are not worth a log entry
+    .filter(row => row.action !== 'update' || Object.keys(row.changes.after || {}).length > 0)
+
+  if (rows.length === 0) return
+
+  try {
+    await supabaseApi.post('/audit_log', rows, { headers: { 'Prefer': 'return=minimal' } })
+    invalidateQueries('audit_log')
+  } catch (err: unknown) {
+    console.error(`Could not write audit log for ${entity}:`, err)
+    throw new AuditLogError(entity, err)
+  }
+}
+
+/**
+ * Write audit log rows for a change that has already been saved
+ * A failed write does not fail the change, since retrying it would apply it twice;
+ * the user is warned that it was saved but not logged instead.
+ */
+export async function recordSavedAudit(entity: string, entries: AuditEntry[]): Promise<void> {
+  try {
+    await recordAudit(entity, entries)
+  } catch (err: unknown) {
+    if (!(err instanceof AuditLogError)) throw err
+    // One warning per entity, however many saves failed to log
+    toast.warning(`Saved, but the change to ${entity} could not be recorded in the activity log`, { id: `audit-${entity}` })
+  }
+}
@@ -0,0 +1,153 @@
+import { deleteRecords, type DeletedBatch } from '@/lib/recycle-bin'
+import type { EntityInput, Filter, ListParams, ListResult, ScopeParams } from '@/lib/repositories/base'
+import type { DuplicateKey, ImportField } from '@/types/import'
+
+// Imported records checked against the table per request
+const LOOKUP_CHUNK_SIZE = 100
+// Rows read per request (the API returns at most 1000)
+const PAGE_SIZE = 1000
+
+type Row = Record<string, unknown>
+
+interface ListSource<T> {
+  list(params?: ListParams): Promise<ListResult<T>>
+}
+
+// Key values match regardless of case, surrounding and repeated spaces, and the time of a date
+function normalizeKeyValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number') return String(value)
+  const text = String(value).trim().replace(/\s+/g, ' ').toLowerCase()
+  if (text === '') return null
+  return /^\d{4}-\d{2}-\d{2}t/.test(text) ? text.slice(0, 10) : text
+}
+
+/**
+ * The duplicate key of a record; null when a key column is empty, since such records
+ * cannot be told apart from other records with the same gap
+ */
+export function duplicateKeyOf<T>(record: Partial<T>, key: DuplicateKey<T>): string | null {
+  const values = key.columns.map(column => normalizeKeyValue((record as Row)[column]))
+  return values.includes(null) ? null : JSON.stringify(values)
+}
+
+/**
+ * Existing rows that match any of the records on the duplicate key, by key
+ * Only the non-text key columns narrow the request (text columns are compared loosely, here),
+ * unless the key has text columns only.
+ */
+export async function findExistingDuplicates<T>(
+  repository: ListSource<T>,
+  records: Array<Partial<T>>,
+  key: DuplicateKey<T>,
+  fields: ImportField<T>[],
+  select = '*'
+): Promise<Map<string, T>> {
+  const exactColumns = key.columns.filter(column => fields.find(field => field.key === column)?.type !== 'text')
+  const lookupColumns = exactColumns.length > 0 ? exactColumns : key.columns
+  const keyed = records.filter(record => duplicateKeyOf(record, key) !== null)
+  const found = new Map<string, T>()
+
+  for (let start = 0; start < keyed.length; start += LOOKUP_CHUNK_SIZE) {
+    const chunk = keyed.slice(start, start + LOOKUP_CHUNK_SIZE)
+    const filters: Filter[] = lookupColumns.map(column => ({
+      column,
+      operator: 'in',
+      value: Array.from(new Set(chunk.map(record => (record as Row)[column] as string | number))),
+    }))
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data } = await repository.list({ select, filters, order: [{ column: 'id', direction: 'asc' }], limit: PAGE_SIZE, offset })
+      for (const row of data) {
+        const rowKey = duplicateKeyOf(row as Partial<T>, key)
+        // The oldest row stands for its key
+        if (rowKey !== null && !found.has(rowKey)) found.set(rowKey, row)
+      }
+      if (data.length < PAGE_SIZE) break
+    }
+  }
+
+  return found
+}
+
+// Records sharing one duplicate key
+export interface DuplicateGroup {
+  key: string
+  // Oldest first
+  ids: number[]
+}
+
+/**
+ * Group the rows in scope that share a duplicate key, largest groups first
+ */
+export async function findDuplicateGroups<T extends { id: number }>(
+  repository: ListSource<T> & { count(params?: ScopeParams): Promise<number> },
+  key: DuplicateKey<T>,
+  scope: ScopeParams = {},
+  onProgress?: (scanned: number, total: number) => void
+): Promise<DuplicateGroup[]> {
+  const params: ScopeParams = {
+    ...scope,
+    filters: [
+      ...key.columns.map((column): Filter => ({ column, operator: 'is', value: null, negate: true })),
+      ...(scope.filters || []),
+    ],
+  }
+  const total = await repository.count(params)
+  const groups = new Map<string, number[]>()
+  let scanned = 0
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data } = await repository.list({
+      ...params,
+      select: ['id', ...key.columns].join(','),
+      order: [{ column: 'id', direction: 'asc' }],
+      limit: PAGE_SIZE,
+      offset,
+    })
+    for (const row of data) {
+      const rowKey = duplicateKeyOf(row, key)
+      if (rowKey === null) continue
+      const ids = groups.get(rowKey)
+      if (ids) ids.push(row.id)
+      else groups.set(rowKey, [row.id])
+    }
+    scanned += data.length
+    onProgress?.(scanned, total)
+    if (data.length < PAGE_SIZE) break
+  }
+
+  return Array.from(groups, ([groupKey, ids]) => ({ key: groupKey, ids }))
+    .filter(group => group.ids.length > 1)
+    .sort((a, b) => b.ids.length - a.ids.length || a.ids[0] - b.ids[0])
+}
+
+/**
+ * Fields the kept record is missing that one of its duplicates has (the first one wins)
+ */
+export function mergedValues<T>(keep: T, duplicates: T[], columns: Array<keyof T & string>): Partial<T> {
+  const values: Partial<T> = {}
+  for (const column of columns) {
+    if (normalizeKeyValue(keep[column]) !== null) continue
+    const source = duplicates.find(duplicate => normalizeKeyValue(duplicate[column]) !== null)
+    if (source) values[column] = source[column]
+  }
+  return values
+}
+
+/**
+ * Merge duplicates into the kept record: fill its missing fields from them, then move them
+ * to the recycle bin. Returns the deleted batch, so the delete can be undone.
+ */
+export async function mergeDuplicates<T extends { id: number }>(
+  repository: { table: string; update(id: number, values: EntityInput<T>): Promise<T | null> },
+  keep: T,
+  duplicates: T[],
+  columns: Array<keyof T & string>
+): Promise<DeletedBatch> {
+  const values = mergedValues(keep, duplicates, columns)
+  if (Object.keys(values).length > 0) {
+    await repository.update(keep.id, values as EntityInput<T>)
+  }
+  return deleteRecords(repository.table, duplicates.map(duplicate => duplicate.id))
+}
@@ -0,0 +1,34 @@
+import type { QueryNode } from '@/lib/query-parser'
+
+/**
+ * Words of a free-text term as they are indexed in a tsvector ("simple" configuration)
+ */
+export function searchLexemes(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+/**
+ * to_tsquery() syntax for a free-text term: every word must match, as a word prefix
+ * "arabian ranch" -> "arabian:* & ranch:*". Returns null when the term has no words.
+ */
+export function toTsQuery(text: string): string | null {
+  const lexemes = searchLexemes(text)
+  return lexemes.length > 0 ? lexemes.map(lexeme => `${lexeme}:*`).join(' & ') : null
+}
+
+/**
+ * Words searched for by the free-text terms of an expression, for highlighting matches
+ * Terms under NOT are left out: rows never match them.
+ */
+export function highlightTerms(node: QueryNode | null | undefined): string[] {
+  if (!node) return []
+  switch (node.type) {
+    case 'text':
+      return searchLexemes(node.value)
+    case 'and':
+    case 'or':
+      return [...new Set(node.children.flatMap(highlightTerms))]
+    default:
+      return []
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Fuzzy matching for search suggestions (column names, column values)
+ */
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Characters of `term` appear in `text` in order ("dmrn" matches "Dubai Marina")
+function isSubsequence(term: string, text: string): boolean {
+  let index = 0
+  for (const char of text) {
+    if (char === term[index]) index++
+    if (index === term.length) return true
+  }
+  return false
+}
+
+/**
+ * How well `text` matches what the user typed (higher is better, null when it does not match)
+ * Exact and prefix matches rank first, then word prefixes, substrings, abbreviations
+ * and finally prefixes with a typo or two.
+ */
+export function fuzzyScore(text: string, term: string): number | null {
+  const value = text.toLowerCase()
+  const search = term.toLowerCase().trim()
+
+  if (!search) return 0
+  if (value === search) return 100
+  if (value.startsWith(search)) return 80
+  if (value.split(/[\s\-_/,.()]+/).some(word => word.startsWith(search))) return 60
+  if (value.includes(search)) return 40
+  if (search.length > 1 && isSubsequence(search.replace(/\s+/g, ''), value)) return 20
+
+  const typos = Math.floor(search.length / 4)
+  if (typos > 0 && editDistance(search, value.substring(0, search.length)) <= typos) return 10
+  return null
+}
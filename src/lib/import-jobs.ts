@@ -0,0 +1,373 @@
+import * as XLSX from 'xlsx'
+import { isAxiosError } from 'axios'
+import { getAuditActor, recordSavedAudit } from '@/lib/audit'
+import { downloadFile } from '@/lib/download'
+import { formatError } from '@/lib/error-formatter'
+import { duplicateKeyOf, findExistingDuplicates } from '@/lib/duplicates'
+import {
+  PartialUpdateError,
+  type EntityInput,
+  type Filter,
+  type ListParams,
+  type ListResult,
+  type RemoveOptions,
+  type ScopeParams,
+} from '@/lib/repositories/base'
+import { importJobRepository } from '@/lib/repositories/import-job'
+import { mapRows, parseCell, type MappedRecord, type Spreadsheet } from '@/lib/spreadsheet-import'
+import type { ColumnMapping, DuplicateAction, DuplicateKey, ImportField, ImportJob, ImportRowError } from '@/types/import'
+
+// Rows written per request
+const CHUNK_SIZE = 500
+// Reason given for the rows left after the connection was lost
+const STOPPED_REASON = 'Not imported: the import stopped before this row'
+// Reason given for the rows whose existing record was deleted while the import ran
+const DELETED_REASON = 'Not imported: the matching record was deleted during the import'
+// A running job that has not reported progress for this long was abandoned (its browser tab was closed)
+const INTERRUPTED_AFTER = 10 * 60 * 1000
+
+type JobCounts = Pick<ImportJob, 'inserted' | 'updated' | 'skipped' | 'failed'>
+
+// Rows of a table imports write to: inserted rows are tagged with their job, so it can be rolled back
+export interface ImportedRow {
+  id: number
+  import_job_id: number | null
+}
+
+export interface ImportJobRepository<T extends ImportedRow> {
+  table: string
+  list(params?: ListParams): Promise<ListResult<T>>
+  createMany(values: Array<EntityInput<T>>): Promise<T[]>
+  updateMany(values: Array<EntityInput<T> & Pick<T, 'id'>>): Promise<T[]>
+}
+
+export interface ImportJobInput<T extends ImportedRow> {
+  repository: ImportJobRepository<T>
+  sheet: Spreadsheet
+  mapping: ColumnMapping
+  fields: ImportField<T>[]
+  // How rows matching an existing record are recognised and handled; without it every row is inserted
+  duplicates?: { key: DuplicateKey<T>; action: DuplicateAction }
+  // Called with the job after every chunk
+  onProgress?: (job: ImportJob) => void
+}
+
+// A write of one chunk, with the file rows merged into it
+interface PendingWrite<T> {
+  numbers: number[]
+  values: Partial<T>
+}
+
+// Blank cells of a duplicate leave the current value alone
+const withoutBlanks = <T>(values: Partial<T>): Partial<T> =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null)) as Partial<T>
+
+/**
+ * Cells of a row as they go into the failed rows report
+ * Mapped values that could be read are written normalized (e.g. Excel dates as yyyy-MM-dd),
+ * so a fixed report imports like the original file.
+ */
+function reportCells<T>(cells: unknown[], sheet: Spreadsheet, mapping: ColumnMapping, fields: ImportField<T>[]): unknown[] {
+  return cells.map((cell, index) => {
+    const field = fields.find(candidate => candidate.key === mapping[sheet.headers[index]])
+    const parsed = field ? parseCell(cell, field.type) : null
+    return parsed && !parsed.error ? parsed.value : cell
+  })
+}
+
+/**
+ * Import mapped spreadsheet rows in chunks, tracked as an import job
+ * With a duplicate key, each chunk is first checked against the table (and the rows imported
+ * before it); duplicates are skipped, update the record they match, or are inserted anyway.
+ * A write the database refuses is reported row by row and the import carries on; a lost
+ * connection stops the job, and the rows not sent yet are reported as failed.
+ * Inserted rows carry the job's id; updated rows keep theirs.
+ */
+export async function runImportJob<T extends ImportedRow>({
+  repository,
+  sheet,
+  mapping,
+  fields,
+  duplicates,
+  onProgress,
+}: ImportJobInput<T>): Promise<ImportJob> {
+  const { records, rejected } = mapRows(sheet, mapping, fields)
+  const cellsByRow = new Map(sheet.rows.map(row => [row.number, row.cells]))
+  const toError = (number: number, reasons: string[]): ImportRowError => ({
+    number,
+    cells: reportCells(cellsByRow.get(number) ?? [], sheet, mapping, fields),
+    reasons,
+  })
+  const failedRows = rejected.map(row => toError(row.number, row.reasons))
+  const duplicateKey = duplicates && duplicates.action !== 'keep' ? duplicates.key : null
+  const fieldColumns = ['id', ...fields.map(field => field.key)]
+  const actor = getAuditActor()
+
+  let job = await importJobRepository.create({
+    table_name: repository.table,
+    file_name: sheet.fileName,
+    status: 'running',
+    total_rows: sheet.rows.length,
+    inserted: 0,
+    updated: 0,
+    skipped: 0,
+    failed: failedRows.length,
+    duplicate_key: duplicateKey?.id ?? null,
+    on_duplicate: duplicates?.action ?? 'keep',
+    headers: sheet.headers,
+    failed_rows: [],
+    error: null,
+    created_by: actor?.id ?? null,
+    created_by_name: actor?.full_name ?? null,
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    rolled_back_at: null,
+    rolled_back_by: null,
+    rolled_back_by_name: null,
+    rolled_back_rows: null,
+  })
+  onProgress?.(job)
+
+  const counts: JobCounts = { inserted: 0, updated: 0, skipped: 0, failed: failedRows.length }
+  // Records in the table by duplicate key, found by the checks or written by this job
+  const known = new Map<string, T>()
+  let error: string | null = null
+
+  // Report the rows behind a write that failed; returns true when the job has to stop
+  const fail = (numbers: number[], err: unknown, remaining: MappedRecord<T>[]): boolean => {
+    const reason = formatError(err) || 'Could not be saved'
+    failedRows.push(...numbers.map(number => toError(number, [reason])))
+
+    // Without a response the server cannot be reached; the other chunks would fail the same way
+    if (isAxiosError(err) && !err.response) {
+      error = reason
+      failedRows.push(...remaining.map(record => toError(record.number, [STOPPED_REASON])))
+      return true
+    }
+    return false
+  }
+
+  for (let start = 0; start < records.length && !error; start += CHUNK_SIZE) {
+    const chunk = records.slice(start, start + CHUNK_SIZE)
+    const remaining = records.slice(start + CHUNK_SIZE)
+    const inserts: PendingWrite<T>[] = []
+    const insertsByKey = new Map<string, PendingWrite<T>>()
+    const updates = new Map<number, PendingWrite<T>>()
+
+    if (duplicateKey) {
+      try {
+        const existing = await findExistingDuplicates(repository, chunk.map(record => record.values), duplicateKey, fields, fieldColumns.join(','))
+        for (const [key, row] of existing) {
+          if (!known.has(key)) known.set(key, row)
+        }
+      } catch (err: unknown) {
+        fail(chunk.map(record => record.number), err, remaining)
+        counts.failed = failedRows.length
+        job = { ...job, ...counts }
+        onProgress?.(job)
+        continue
+      }
+    }
+
+    for (const record of chunk) {
+      const key = duplicateKey ? duplicateKeyOf(record.values, duplicateKey) : null
+      const existing = key !== null ? known.get(key) : undefined
+      const pending = key !== null ? insertsByKey.get(key) : undefined
+
+      if (key === null || (!existing && !pending)) {
+        const write = { numbers: [record.number], values: record.values }
+        inserts.push(write)
+        if (key !== null) insertsByKey.set(key, write)
+      } else if (duplicates?.action === 'skip') {
+        counts.skipped++
+      } else {
+        // Later rows of the file win over earlier ones and over the table
+        let write = existing ? updates.get(existing.id) : pending
+        if (!write && existing) {
+          const current = Object.fromEntries(fieldColumns.map(column => [column, (existing as Record<string, unknown>)[column] ?? null]))
+          write = { numbers: [], values: current as Partial<T> }
+          updates.set(existing.id, write)
+        }
+        write!.numbers.push(record.number)
+        Object.assign(write!.values, withoutBlanks(record.values))
+      }
+    }
+
+    if (inserts.length > 0) {
+      // Only a rejected write fails its rows. Once it resolved the rows are in the table, whatever happens
+      // next; a log entry that could not be written is warned about by the repository, not reported here.
+      const created = await repository
+        .createMany(inserts.map(write => ({ ...write.values, import_job_id: job.id }) as EntityInput<T>))
+        .catch((err: unknown) => {
+          fail(inserts.flatMap(write => write.numbers), err, remaining)
+          return null
+        })
+      if (created) {
+        counts.inserted += created.length
+        // Rows merged into an insert count as updates of it
+        counts.updated += inserts.reduce((sum, write) => sum + write.numbers.length - 1, 0)
+        if (duplicateKey) {
+          for (const row of created) {
+            const key = duplicateKeyOf(row, duplicateKey)
+            if (key !== null) known.set(key, row)
+          }
+        }
+      }
+    }
+
+    const updateNumbers = Array.from(updates.values()).flatMap(write => write.numbers)
+    if (updateNumbers.length > 0 && error) {
+      failedRows.push(...updateNumbers.map(number => toError(number, [STOPPED_REASON])))
+    } else if (updateNumbers.length > 0) {
+      // A failure partway through fails only the rows that were not updated
+      let updated: T[] = []
+      let failedIds = new Set(updates.keys())
+      let failure: unknown = null
+      try {
+        updated = await repository.updateMany(Array.from(updates.values(), write => write.values as EntityInput<T> & Pick<T, 'id'>))
+        failedIds = new Set()
+      } catch (err: unknown) {
+        failure = err
+        if (err instanceof PartialUpdateError) {
+          updated = err.updated as T[]
+          failedIds = new Set(err.failed as number[])
+          failure = err.cause
+        }
+      }
+
+      const updatedIds = new Set(updated.map(row => row.id))
+      const failedNumbers: number[] = []
+      for (const [id, write] of updates) {
+        if (updatedIds.has(id)) counts.updated += write.numbers.length
+        else if (failedIds.has(id)) failedNumbers.push(...write.numbers)
+        else failedRows.push(...write.numbers.map(number => toError(number, [DELETED_REASON])))
+      }
+      if (failedNumbers.length > 0) fail(failedNumbers, failure, remaining)
+    }
+    counts.failed = failedRows.length
+
+    // Progress is best effort; the final update below records the outcome
+    job = { ...job, ...counts }
+    if (!error) {
+      await importJobRepository.update(job.id, counts).catch((err: unknown) => {
+        console.warn('Could not save import progress:', err)
+      })
+    }
+    onProgress?.(job)
+  }
+
+  const finished = await importJobRepository.update(job.id, {
+    ...counts,
+    status: error ? 'failed' : 'completed',
+    error,
+    failed_rows: failedRows.sort((a, b) => a.number - b.number),
+    finished_at: new Date().toISOString(),
+  })
+  job = finished ?? { ...job, ...counts, status: error ? 'failed' : 'completed', error, failed_rows: failedRows }
+  onProgress?.(job)
+  return job
+}
+
+// The parts of a repository a rollback needs
+export interface ImportBatchRepository<T> {
+  list(params?: ListParams): Promise<ListResult<T>>
+  count(params?: ScopeParams): Promise<number>
+  removeWhere(filters: Filter[], options?: RemoveOptions): Promise<void>
+}
+
+// The rows a job inserted that are still in the table
+const batchFilters = (job: Pick<ImportJob, 'id'>): Filter[] => [{ column: 'import_job_id', operator: 'eq', value: job.id }]
+
+export interface RollbackPreview<T> {
+  // Rows of the job still in the table (deleted ones are already in the recycle bin)
+  remaining: number
+  // The first of them
+  sample: T[]
+}
+
+/**
+ * What rolling a job back would remove
+ */
+export async function previewRollback<T>(
+  repository: ImportBatchRepository<T>,
+  job: Pick<ImportJob, 'id'>,
+  sampleSize = 10
+): Promise<RollbackPreview<T>> {
+  const filters = batchFilters(job)
+  const [remaining, { data }] = await Promise.all([
+    repository.count({ filters }),
+    repository.list({ filters, order: [{ column: 'id', direction: 'asc' }], limit: sampleSize }),
+  ])
+  return { remaining, sample: data }
+}
+
+/**
+ * Move every row a job inserted to the recycle bin in one go, and mark the job as rolled back
+ * The rows share their deleted_at, so the recycle bin restores them together. Rows the job
+ * updated keep the imported values.
+ */
+export async function rollbackImportJob<T>(repository: ImportBatchRepository<T>, job: ImportJob): Promise<ImportJob> {
+  const filters = batchFilters(job)
+  const removed = await repository.count({ filters })
+  await repository.removeWhere(filters)
+
+  const actor = getAuditActor()
+  const values = {
+    rolled_back_at: new Date().toISOString(),
+    rolled_back_by: actor?.id ?? null,
+    rolled_back_by_name: actor?.full_name ?? null,
+    rolled_back_rows: removed,
+  }
+  const updated = await importJobRepository.update(job.id, values)
+  await recordSavedAudit('import_job', [{
+    action: 'rollback',
+    recordId: job.id,
+    before: null,
+    after: { table_name: job.table_name, file_name: job.file_name, started_at: job.started_at, removed_rows: removed },
+  }])
+  return updated ?? { ...job, ...values }
+}
+
+/**
+ * Whether a job still marked as running was abandoned
+ */
+export function isJobInterrupted(job: ImportJob, now = Date.now()): boolean {
+  return job.status === 'running' && now - new Date(job.updated_at).getTime() > INTERRUPTED_AFTER
+}
+
+/**
+ * Rows handled so far
+ */
+export function processedRows(job: Pick<ImportJob, keyof JobCounts>): number {
+  return job.inserted + job.updated + job.skipped + job.failed
+}
+
+/**
+ * Human-readable run time of a job, e.g. "2m 05s"; running jobs count up to now
+ */
+export function formatJobDuration(job: Pick<ImportJob, 'started_at' | 'finished_at'>, now = Date.now()): string {
+  const end = job.finished_at ? new Date(job.finished_at).getTime() : now
+  const seconds = Math.max(0, Math.round((end - new Date(job.started_at).getTime()) / 1000))
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+}
+
+/**
+ * CSV of the rows a job could not import: the file's own columns, then the row number and the reasons
+ */
+export function failedRowsCsv(job: Pick<ImportJob, 'headers' | 'failed_rows'>): string {
+  const table = [
+    [...job.headers, 'Row', 'Errors'],
+    ...job.failed_rows.map(row => [...row.cells, row.number, row.reasons.join('; ')]),
+  ]
+  return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(table))
+}
+
+/**
+ * Download the failed rows report of a job, e.g. "dld-march (failed rows).csv"
+ */
+export function downloadFailedRows(job: Pick<ImportJob, 'file_name' | 'headers' | 'failed_rows'>): void {
+  downloadFile(`${job.file_name.replace(/\.[^.]+$/, '')} (failed rows).csv`, failedRowsCsv(job), 'text/csv;charset=utf-8')
+}
@@ -0,0 +1,167 @@
+import type { MockRequest, MockResponse } from './types'
+import { database, type AuthUserRecord } from './database'
+
+const ACCESS_TOKEN_TTL = 3600
+
+// Refresh tokens issued by the mock backend -> auth user id
+const refreshTokens = new Map<string, string>()
+
+function base64Url(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Unsigned JWT: enough for supabase-js to read claims, never verified anywhere
+function createAccessToken(user: AuthUserRecord): string {
+  const now = Math.floor(Date.now() / 1000)
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }))
+  const payload = base64Url(JSON.stringify({
+    sub: user.id,
+    email: user.email,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL,
+  }))
+  return `${header}.${payload}.mock`
+}
+
+/**
+ * Decode a token issued by the mock backend (null for anon/service keys)
+ */
+export function readAccessToken(token: string): { sub: string; exp: number } | null {
+  const [, payload, signature] = token.split('.')
+  if (!payload || signature !== 'mock') return null
+  try {
+    return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
+  } catch {
+    return null
+  }
+}
+
+function toUser(user: AuthUserRecord) {
+  return {
+    id: user.id,
+    aud: 'authenticated',
+    role: 'authenticated',
+    email: user.email,
+    email_confirmed_at: user.created_at,
+    created_at: user.created_at,
+    updated_at: user.created_at,
+    app_metadata: { provider: 'email', providers: ['email'] },
+    user_metadata: {},
+  }
+}
+
+function sessionResponse(user: AuthUserRecord): MockResponse {
+  const refreshToken = crypto.randomUUID()
+  refreshTokens.set(refreshToken, user.id)
+
+  return {
+    status: 200,
+    body: {
+      access_token: createAccessToken(user),
+      token_type: 'bearer',
+      expires_in: ACCESS_TOKEN_TTL,
+      expires_at: Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL,
+      refresh_token: refreshToken,
+      user: toUser(user),
+    },
+  }
+}
+
+function authError(status: number, errorCode: string, message: string): MockResponse {
+  return { status, body: { code: status, error_code: errorCode, msg: message } }
+}
+
+function findUserByEmail(email: string): AuthUserRecord | undefined {
+  const normalized = email.trim().toLowerCase()
+  return Array.from(database.users.values()).find(user => user.email.toLowerCase() === normalized)
+}
+
+function currentUser(request: MockRequest): AuthUserRecord | undefined {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || ''
+  const claims = readAccessToken(token)
+  if (!claims || claims.exp * 1000 < Date.now()) return undefined
+  return database.users.get(claims.sub)
+}
+
+/**
+ * Handle /auth/v1/* requests (password login, refresh, signup, logout, admin delete)
+ */
+export function handleAuth(request: MockRequest): MockResponse {
+  const path = request.path.replace(/^\/auth\/v1/, '')
+  const body = (request.body || {}) as Record<string, string>
+
+  if (request.method === 'POST' && path === '/token') {
+    const grantType = request.searchParams.get('grant_type')
+
+    if (grantType === 'password') {
+      const user = findUserByEmail(body.email || '')
+      if (!user || user.password !== body.password) {
+        return authError(400, 'invalid_credentials', 'Invalid login credentials')
+      }
+      return sessionResponse(user)
+    }
+
+    if (grantType === 'refresh_token') {
+      const userId = refreshTokens.get(body.refresh_token)
+      const user = userId ? database.users.get(userId) : undefined
+      if (!user) {
+        return authError(400, 'refresh_token_not_found', 'Invalid Refresh Token: Refresh Token Not Found')
+      }
+      refreshTokens.delete(body.refresh_token)
+      return sessionResponse(user)
+    }
+
+    return authError(400, 'validation_failed', `Unsupported grant type: ${grantType}`)
+  }
+
+  if (request.method === 'POST' && path === '/signup') {
+    if (!body.email || !body.password) {
+      return authError(422, 'validation_failed', 'Signup requires a valid password')
+    }
+    if (findUserByEmail(body.email)) {
+      return authError(422, 'user_already_exists', 'User already registered')
+    }
+
+    const user: AuthUserRecord = {
+      id: crypto.randomUUID(),
+      email: body.email.trim(),
+      password: body.password,
+      created_at: new Date().toISOString(),
+    }
+    database.users.set(user.id, user)
+
+    // Mirrors the database trigger that creates an account row for every new auth user
+    database.insert('account', {
+      user_id: user.id,
+      email: user.email,
+      phone: '',
+      full_name: '',
+      avatar: null,
+      role: null,
+    })
+
+    return sessionResponse(user)
+  }
+
+  if (request.method === 'GET' && path === '/user') {
+    const user = currentUser(request)
+    return user ? { status: 200, body: toUser(user) } : authError(401, 'bad_jwt', 'invalid JWT')
+  }
+
+  if (request.method === 'POST' && path === '/logout') {
+    return { status: 204 }
+  }
+
+  const adminUser = path.match(/^\/admin\/users\/([^/]+)$/)
+  if (adminUser && request.method === 'DELETE') {
+    const userId = decodeURIComponent(adminUser[1])
+    if (!database.users.delete(userId)) {
+      return authError(404, 'user_not_found', 'User not found')
+    }
+    return { status: 200, body: {} }
+  }
+
+  return authError(404, 'not_found', `Mock backend does not implement ${request.method} /auth/v1${path}`)
+}
@@ -0,0 +1,109 @@
+import type { Row } from './types'
+import { createSeedData } from './seed'
+import { toTsVector } from './text-search'
+
+export interface AuthUserRecord {
+  id: string
+  email: string
+  password: string
+  created_at: string
+}
+
+export interface StoredObject {
+  data: Blob
+  contentType: string
+  updated_at: string
+}
+
+// Columns filled in automatically on insert/update when a table has them
+const TIMESTAMP_COLUMNS = ['created_at', 'updated_at']
+
+// Columns Postgres computes from the rest of the row (GENERATED ALWAYS AS ... STORED), by table
+const GENERATED_COLUMNS: Record<string, Record<string, (row: Row) => unknown>> = {
+  property_transaction: {
+    search_vector: row => toTsVector([
+      row.owner_name,
+      row.area_and_community,
+      row.project_name,
+      row.building,
+      row.unit_number,
+      row.mobile1,
+      row.deal_type,
+      row.property_type,
+    ]),
+  },
+}
+
+function fillGeneratedColumns(table: string, row: Row): Row {
+  for (const [column, generate] of Object.entries(GENERATED_COLUMNS[table] ?? {})) {
+    row[column] = generate(row)
+  }
+  return row
+}
+
+/**
+ * In-memory stand-in for the Supabase database, auth users and storage buckets
+ * Data lives for the lifetime of the page and is reseeded on reload.
+ */
+function createDatabase() {
+  const seed = createSeedData()
+  const tables = new Map<string, Row[]>(
+    Object.entries(seed.tables).map(([table, rows]) => [table, rows.map(row => fillGeneratedColumns(table, row))])
+  )
+  const users = new Map<string, AuthUserRecord>(seed.users.map(user => [user.id, user]))
+  const objects = new Map<string, StoredObject>()
+
+  const nextId = (rows: Row[]): number =>
+    rows.reduce((max, row) => Math.max(max, Number(row.id) || 0), 0) + 1
+
+  const hasColumn = (rows: Row[], column: string): boolean =>
+    rows.length === 0 || rows.some(row => column in row)
+
+  return {
+    hasTable(table: string): boolean {
+      return tables.has(table)
+    },
+
+    rows(table: string): Row[] {
+      return tables.get(table) ?? []
+    },
+
+    insert(table: string, values: Row): Row {
+      const rows = tables.get(table) ?? []
+      const now = new Date().toISOString()
+      const row: Row = { ...values }
+
+      if (row.id === undefined || row.id === null) {
+        row.id = nextId(rows)
+      }
+      for (const column of TIMESTAMP_COLUMNS) {
+        if (row[column] === undefined && hasColumn(rows, column)) {
+          row[column] = now
+        }
+      }
+
+      fillGeneratedColumns(table, row)
+      rows.push(row)
+      tables.set(table, rows)
+      return row
+    },
+
+    update(table: string, row: Row, values: Row): Row {
+      Object.assign(row, values)
+      if ('updated_at' in row && values.updated_at === undefined) {
+        row.updated_at = new Date().toISOString()
+      }
+      return fillGeneratedColumns(table, row)
+    },
+
+    remove(table: string, toRemove: Row[]): void {
+      const removed = new Set(toRemove)
+      tables.set(table, this.rows(table).filter(row => !removed.has(row)))
+    },
+
+    users,
+    objects,
+  }
+}
+
+export const database = createDatabase()
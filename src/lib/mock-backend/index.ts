@@ -0,0 +1,125 @@
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+} from 'axios'
+import type { MockRequest, MockResponse } from './types'
+import type { MockChange } from './realtime'
+
+export type { MockChange }
+
+/**
+ * Local mock backend
+ *
+ * Set VITE_MOCK_BACKEND=true to serve PostgREST, Storage and Auth requests from
+ * an in-memory, seeded database instead of the Supabase project. Seeded logins
+ * are "<role>@mhp.local" (e.g. "it@mhp.local", "sales.manager@mhp.local") with
+ * the password "password"; "user@mhp.local" has no role.
+ */
+export const isMockBackend = import.meta.env.VITE_MOCK_BACKEND === 'true'
+
+const SERVICE_PATH = /\/(rest|storage|auth|functions)\/v1(\/|$|\?)/
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body
+  try {
+    return JSON.parse(body)
+  } catch {
+    return body
+  }
+}
+
+function toMockRequest(method: string, url: string, headers: Headers, body: unknown): MockRequest {
+  const start = url.search(SERVICE_PATH)
+  const relative = start === -1 ? url : url.slice(start)
+  const [path, query = ''] = relative.split('?')
+
+  return {
+    method: method.toUpperCase(),
+    path,
+    searchParams: new URLSearchParams(query),
+    headers,
+    body: parseBody(body),
+  }
+}
+
+// The in-memory server is only loaded when the mock backend is actually used
+async function dispatch(request: MockRequest): Promise<MockResponse> {
+  const { handleMockRequest } = await import('./server')
+  return handleMockRequest(request)
+}
+
+/**
+ * Row change feed of the in-memory database (used instead of Supabase Realtime)
+ */
+export async function subscribeMockChanges(listener: (change: MockChange) => void): Promise<() => void> {
+  const realtime = await import('./realtime')
+  return realtime.subscribeMockChanges(listener)
+}
+
+function serializeBody(response: MockResponse): BodyInit | null {
+  if (response.body === undefined || response.status === 204) return null
+  return response.body instanceof Blob ? response.body : JSON.stringify(response.body)
+}
+
+/**
+ * fetch() replacement handed to supabase-js
+ */
+export const mockFetch: typeof fetch = async (input, init) => {
+  const request = input instanceof Request ? input : undefined
+  const url = request ? request.url : String(input)
+  const method = init?.method || request?.method || 'GET'
+  const headers = new Headers(init?.headers || request?.headers)
+  const body = init?.body ?? (request && method !== 'GET' && method !== 'HEAD' ? await request.text() : undefined)
+
+  const response = await dispatch(toMockRequest(method, url, headers, body))
+
+  return new Response(method === 'HEAD' ? null : serializeBody(response), {
+    status: response.status,
+    headers: { 'Content-Type': 'application/json', ...response.headers },
+  })
+}
+
+/**
+ * Axios adapter used by the shared API instances
+ */
+export const mockAxiosAdapter: AxiosAdapter = async (config) => {
+  const url = `${config.baseURL || ''}${config.url || ''}`
+  const params = config.params ? `?${new URLSearchParams(config.params).toString()}` : ''
+  const fullUrl = url.includes('?') && params ? `${url}&${params.slice(1)}` : `${url}${params}`
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(AxiosHeaders.from(config.headers).toJSON())) {
+    if (value !== undefined && value !== null && value !== false) {
+      headers.set(name, String(value))
+    }
+  }
+
+  const mockResponse = await dispatch(toMockRequest(config.method || 'get', fullUrl, headers, config.data))
+
+  const response: AxiosResponse = {
+    data: serializeBody(mockResponse) ?? '',
+    status: mockResponse.status,
+    statusText: String(mockResponse.status),
+    headers: new AxiosHeaders(Object.fromEntries(
+      // Browsers expose response header names in lower case
+      Object.entries({ 'Content-Type': 'application/json', ...mockResponse.headers })
+        .map(([name, value]) => [name.toLowerCase(), value])
+    )),
+    config,
+    request: {},
+  }
+
+  const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300)
+  if (!validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    )
+  }
+
+  return response
+}
@@ -0,0 +1,466 @@
+import type { MockRequest, MockResponse, Row } from './types'
+import { database } from './database'
+import { emitMockChanges, type MockChange } from './realtime'
+import { matchesTsQuery, tsRank } from './text-search'
+
+/**
+ * Subset of the PostgREST query language used by the app:
+ * column filters (eq/neq/gt/gte/lt/lte/like/ilike/is/in/fts, optionally negated with "not."),
+ * logic trees (or/and), select, order, limit/offset, Prefer: count/return and the functions below
+ */
+
+type Condition =
+  | { type: 'filter'; column: string; operator: string; value: string; negate: boolean }
+  | { type: 'and' | 'or'; conditions: Condition[]; negate: boolean }
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'])
+
+class PostgrestError extends Error {
+  status: number
+  code: string
+
+  constructor(status: number, code: string, message: string) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
+// Split on commas that are not inside parentheses or double quotes
+function splitTopLevel(input: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (char === '\\' && quoted) {
+      current += char + (input[i + 1] ?? '')
+      i++
+      continue
+    }
+    if (char === '"') quoted = !quoted
+    if (!quoted && char === '(') depth++
+    if (!quoted && char === ')') depth--
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+  }
+  return trimmed
+}
+
+// "op.value" or "not.op.value" (the column is known from the param name)
+function parseOperation(column: string, operation: string): Condition {
+  let rest = operation
+  let negate = false
+  if (rest.startsWith('not.')) {
+    negate = true
+    rest = rest.slice(4)
+  }
+
+  const dot = rest.indexOf('.')
+  if (dot === -1) {
+    throw new PostgrestError(400, 'PGRST100', `failed to parse filter (${operation})`)
+  }
+
+  return { type: 'filter', column, operator: rest.slice(0, dot), value: rest.slice(dot + 1), negate }
+}
+
+// "(a.eq.1,and(b.gt.2,c.is.null))"
+function parseLogicTree(type: 'and' | 'or', input: string, negate = false): Condition {
+  const trimmed = input.trim()
+  if (!trimmed.startsWith('(') || !trimmed.endsWith(')')) {
+    throw new PostgrestError(400, 'PGRST100', `failed to parse logic tree (${input})`)
+  }
+
+  const conditions = splitTopLevel(trimmed.slice(1, -1)).map((part): Condition => {
+    const item = part.trim()
+    const group = item.match(/^(not\.)?(and|or)(\(.*\))$/)
+    if (group) {
+      return parseLogicTree(group[2] as 'and' | 'or', group[3], Boolean(group[1]))
+    }
+
+    const dot = item.indexOf('.')
+    if (dot === -1) {
+      throw new PostgrestError(400, 'PGRST100', `failed to parse logic tree (${input})`)
+    }
+    return parseOperation(item.slice(0, dot), item.slice(dot + 1))
+  })
+
+  return { type, conditions, negate }
+}
+
+/**
+ * Parse every filter in the query string into one AND-ed condition tree
+ */
+function parseConditions(searchParams: URLSearchParams): Condition {
+  const conditions: Condition[] = []
+
+  for (const [key, value] of searchParams.entries()) {
+    if (RESERVED_PARAMS.has(key)) continue
+
+    const group = key.match(/^(not\.)?(and|or)$/)
+    if (group) {
+      conditions.push(parseLogicTree(group[2] as 'and' | 'or', value, Boolean(group[1])))
+    } else {
+      conditions.push(parseOperation(key, value))
+    }
+  }
+
+  return { type: 'and', conditions, negate: false }
+}
+
+function likeToRegExp(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*' || char === '%') return '.*'
+      if (char === '_') return '.'
+      return char.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's')
+}
+
+function compareValues(rowValue: unknown, value: string): number {
+  if (typeof rowValue === 'number') {
+    return rowValue - Number(value)
+  }
+  if (typeof rowValue === 'boolean') {
+    return Number(rowValue) - Number(value === 'true')
+  }
+  const left = String(rowValue)
+  return left < value ? -1 : left > value ? 1 : 0
+}
+
+function parseList(value: string): string[] {
+  const trimmed = value.trim()
+  if (!trimmed.startsWith('(') || !trimmed.endsWith(')')) {
+    throw new PostgrestError(400, 'PGRST100', `failed to parse list (${value})`)
+  }
+  return splitTopLevel(trimmed.slice(1, -1)).map(unquote)
+}
+
+function matchesFilter(row: Row, condition: Extract<Condition, { type: 'filter' }>): boolean {
+  const rowValue = row[condition.column]
+  const value = unquote(condition.value)
+
+  switch (condition.operator) {
+    case 'is':
+      if (value === 'null') return rowValue === null || rowValue === undefined
+      if (value === 'true') return rowValue === true
+      if (value === 'false') return rowValue === false
+      return rowValue === null || rowValue === undefined
+    case 'in':
+      if (rowValue === null || rowValue === undefined) return false
+      return parseList(condition.value).some(item => compareValues(rowValue, item) === 0)
+  }
+
+  // SQL comparisons with NULL are never true
+  if (rowValue === null || rowValue === undefined) return false
+
+  switch (condition.operator.replace(/\(\w+\)$/, '')) {
+    case 'eq': return compareValues(rowValue, value) === 0
+    case 'neq': return compareValues(rowValue, value) !== 0
+    case 'gt': return compareValues(rowValue, value) > 0
+    case 'gte': return compareValues(rowValue, value) >= 0
+    case 'lt': return compareValues(rowValue, value) < 0
+    case 'lte': return compareValues(rowValue, value) <= 0
+    case 'like': return likeToRegExp(value, false).test(String(rowValue))
+    case 'ilike': return likeToRegExp(value, true).test(String(rowValue))
+    // fts(config).query; every table is searched with the "simple" configuration
+    case 'fts': return matchesTsQuery(rowValue, value)
+    default:
+      throw new PostgrestError(400, 'PGRST100', `unknown operator "${condition.operator}"`)
+  }
+}
+
+function matchesCondition(row: Row, condition: Condition): boolean {
+  let result: boolean
+  if (condition.type === 'filter') {
+    result = matchesFilter(row, condition)
+  } else if (condition.type === 'and') {
+    result = condition.conditions.every(child => matchesCondition(row, child))
+  } else {
+    result = condition.conditions.some(child => matchesCondition(row, child))
+  }
+  return condition.negate ? !result : result
+}
+
+function checkColumns(table: string, rows: Row[], condition: Condition): void {
+  if (rows.length === 0) return
+  if (condition.type === 'filter') {
+    if (!(condition.column in rows[0])) {
+      throw new PostgrestError(400, '42703', `column ${table}.${condition.column} does not exist`)
+    }
+    return
+  }
+  condition.conditions.forEach(child => checkColumns(table, rows, child))
+}
+
+// "col.desc.nullslast,other.asc"
+function sortRows(rows: Row[], order: string | null): Row[] {
+  if (!order) return rows
+
+  const terms = order.split(',').map(term => {
+    const [column, ...modifiers] = term.trim().split('.')
+    const descending = modifiers.includes('desc')
+    // Postgres default: NULLS LAST for ascending, NULLS FIRST for descending
+    const nullsFirst = modifiers.includes('nullsfirst') || (descending && !modifiers.includes('nullslast'))
+    return { column, descending, nullsFirst }
+  })
+
+  return [...rows].sort((a, b) => {
+    for (const { column, descending, nullsFirst } of terms) {
+      const left = a[column]
+      const right = b[column]
+      const leftNull = left === null || left === undefined
+      const rightNull = right === null || right === undefined
+
+      if (leftNull || rightNull) {
+        if (leftNull && rightNull) continue
+        return (leftNull ? -1 : 1) * (nullsFirst ? 1 : -1)
+      }
+
+      const diff = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right))
+      if (diff !== 0) return descending ? -diff : diff
+    }
+    return 0
+  })
+}
+
+function projectColumns(rows: Row[], select: string | null): Row[] {
+  if (!select || select.trim() === '*') {
+    return rows.map(row => ({ ...row }))
+  }
+
+  const columns = splitTopLevel(select)
+    .map(column => column.trim())
+    // Embedded resources (e.g. "developer(title)") are not supported
+    .filter(column => column && !column.includes('('))
+
+  return rows.map(row => {
+    const projected: Row = {}
+    for (const column of columns) {
+      if (column === '*') {
+        Object.assign(projected, row)
+        continue
+      }
+      const [alias, source] = column.includes(':') ? column.split(':') : [column, column]
+      projected[alias] = row[source.split('::')[0]]
+    }
+    return projected
+  })
+}
+
+function preferences(headers: Headers): Set<string> {
+  return new Set(
+    (headers.get('Prefer') || '')
+      .split(',')
+      .map(preference => preference.trim())
+      .filter(Boolean)
+  )
+}
+
+function contentRange(offset: number, length: number, total: number | null): string {
+  const totalPart = total === null ? '*' : String(total)
+  return length === 0 ? `*/${totalPart}` : `${offset}-${offset + length - 1}/${totalPart}`
+}
+
+function singleObjectResponse(rows: Row[], headers: Record<string, string>, status = 200): MockResponse {
+  if (rows.length !== 1) {
+    return {
+      status: 406,
+      body: {
+        code: 'PGRST116',
+        message: 'JSON object requested, multiple (or no) rows returned',
+        details: `The result contains ${rows.length} rows`,
+        hint: null,
+      },
+    }
+  }
+  return { status, headers, body: rows[0] }
+}
+
+function representation(
+  request: MockRequest,
+  rows: Row[],
+  status: number,
+  prefer: Set<string>
+): MockResponse {
+  if (!prefer.has('return=representation')) {
+    return { status: status === 201 ? 201 : 204 }
+  }
+  const projected = projectColumns(rows, request.searchParams.get('select'))
+  if (request.headers.get('Accept')?.includes('vnd.pgrst.object')) {
+    return singleObjectResponse(projected, {}, status)
+  }
+  return { status, body: projected }
+}
+
+/**
+ * Sort, page and project rows for a GET/HEAD (or function call) response
+ */
+function readRows(request: MockRequest, rows: Row[], prefer: Set<string>): MockResponse {
+  const { searchParams, headers } = request
+  const filtered = sortRows(rows, searchParams.get('order'))
+  const offset = Number(searchParams.get('offset') || 0)
+  const limitParam = searchParams.get('limit')
+  const page = limitParam === null
+    ? filtered.slice(offset)
+    : filtered.slice(offset, offset + Number(limitParam))
+  const wantsCount = [...prefer].some(preference => preference.startsWith('count='))
+  const responseHeaders = {
+    'Content-Range': contentRange(offset, page.length, wantsCount ? filtered.length : null),
+  }
+
+  if (request.method === 'HEAD') {
+    return { status: 200, headers: responseHeaders }
+  }
+
+  const projected = projectColumns(page, searchParams.get('select'))
+  if (headers.get('Accept')?.includes('vnd.pgrst.object')) {
+    return singleObjectResponse(projected, responseHeaders)
+  }
+  return { status: 200, headers: responseHeaders, body: projected }
+}
+
+// Database functions callable through /rest/v1/rpc/<name>; they return rows of a table
+const FUNCTIONS: Record<string, { table: string; call: (args: Row) => Row[] }> = {
+  // Transactions matching a tsquery, best matches (then the most recent) first
+  search_property_transactions: {
+    table: 'property_transaction',
+    call: ({ search }) => {
+      const query = String(search ?? '')
+      return database.rows('property_transaction')
+        .filter(row => matchesTsQuery(row.search_vector, query))
+        .map(row => ({ row, rank: tsRank(row.search_vector, query) }))
+        .sort((a, b) => b.rank - a.rank || String(b.row.date).localeCompare(String(a.row.date)))
+        .map(({ row }) => row)
+    },
+  },
+}
+
+function handleFunction(request: MockRequest, name: string): MockResponse {
+  const fn = FUNCTIONS[name]
+  if (!fn) {
+    return {
+      status: 404,
+      body: { code: 'PGRST202', message: `Could not find the function public.${name}`, details: null, hint: null },
+    }
+  }
+  if (request.method !== 'POST' && request.method !== 'GET' && request.method !== 'HEAD') {
+    return { status: 405, body: { code: 'PGRST117', message: `Unsupported HTTP method: ${request.method}` } }
+  }
+
+  const args = request.method === 'POST' ? (request.body ?? {}) as Row : {}
+  const rows = fn.call(args)
+  const condition = parseConditions(request.searchParams)
+  checkColumns(fn.table, database.rows(fn.table), condition)
+  return readRows(request, rows.filter(row => matchesCondition(row, condition)), preferences(request.headers))
+}
+
+function handleTable(request: MockRequest, table: string): MockResponse {
+  if (!database.hasTable(table)) {
+    return {
+      status: 404,
+      body: { code: '42P01', message: `relation "public.${table}" does not exist`, details: null, hint: null },
+    }
+  }
+
+  const { searchParams, headers } = request
+  const prefer = preferences(headers)
+  const rows = database.rows(table)
+  const condition = parseConditions(searchParams)
+  checkColumns(table, rows, condition)
+  const matching = () => rows.filter(row => matchesCondition(row, condition))
+
+  switch (request.method) {
+    case 'GET':
+    case 'HEAD':
+      return readRows(request, matching(), prefer)
+
+    case 'POST': {
+      const values = (Array.isArray(request.body) ? request.body : [request.body]) as Row[]
+      const upsert = prefer.has('resolution=merge-duplicates')
+      const conflictColumns = (searchParams.get('on_conflict') || 'id').split(',')
+      const changes: MockChange[] = []
+
+      const written = values.map(value => {
+        if (upsert) {
+          const existing = rows.find(row =>
+            conflictColumns.every(column => value[column] !== undefined && row[column] === value[column])
+          )
+          if (existing) {
+            const old = { ...existing }
+            const row = database.update(table, existing, value)
+            changes.push({ table, eventType: 'UPDATE', new: row, old })
+            return row
+          }
+        }
+        const row = database.insert(table, value)
+        changes.push({ table, eventType: 'INSERT', new: row, old: {} })
+        return row
+      })
+
+      emitMockChanges(changes)
+      return representation(request, written, 201, prefer)
+    }
+
+    case 'PATCH': {
+      const changes: MockChange[] = []
+      const updated = matching().map(row => {
+        const old = { ...row }
+        database.update(table, row, request.body as Row)
+        changes.push({ table, eventType: 'UPDATE', new: row, old })
+        return row
+      })
+      emitMockChanges(changes)
+      return representation(request, updated, 200, prefer)
+    }
+
+    case 'DELETE': {
+      const removed = matching()
+      database.remove(table, removed)
+      emitMockChanges(removed.map(row => ({ table, eventType: 'DELETE', new: {}, old: row })))
+      return representation(request, removed, 200, prefer)
+    }
+
+    default:
+      return { status: 405, body: { code: 'PGRST117', message: `Unsupported HTTP method: ${request.method}` } }
+  }
+}
+
+/**
+ * Handle /rest/v1/<table> and /rest/v1/rpc/<function> requests
+ */
+export function handleRest(request: MockRequest): MockResponse {
+  const [table, name] = request.path.replace(/^\/rest\/v1\/?/, '').split('/')
+
+  try {
+    if (table === 'rpc') {
+      return handleFunction(request, decodeURIComponent(name ?? ''))
+    }
+    return handleTable(request, decodeURIComponent(table))
+  } catch (err) {
+    if (err instanceof PostgrestError) {
+      return { status: err.status, body: { code: err.code, message: err.message, details: null, hint: null } }
+    }
+    throw err
+  }
+}
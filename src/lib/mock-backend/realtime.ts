@@ -0,0 +1,35 @@
+import type { Row } from './types'
+
+export interface MockChange {
+  table: string
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  new: Row
+  old: Row
+}
+
+type MockChangeListener = (change: MockChange) => void
+
+const listeners = new Set<MockChangeListener>()
+
+/**
+ * Listen for row changes made through the mock PostgREST handler
+ * Stands in for Supabase Realtime, which the mock backend cannot serve.
+ */
+export function subscribeMockChanges(listener: MockChangeListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function emitMockChanges(changes: MockChange[]): void {
+  if (changes.length === 0 || listeners.size === 0) return
+  // Delivered after the response, like Realtime messages arriving over the socket
+  setTimeout(() => {
+    for (const change of changes) {
+      for (const listener of listeners) {
+        listener(structuredClone(change))
+      }
+    }
+  }, 0)
+}
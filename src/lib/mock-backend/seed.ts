@@ -0,0 +1,212 @@
+import type { Row } from './types'
+import type { AuthUserRecord } from './database'
+import { ROLE_ORDER, type UserRole } from '@/config/roles'
+
+/**
+ * Password shared by every seeded account (mock backend only)
+ */
+export const MOCK_PASSWORD = 'password'
+
+const SEED_DATE = '2025-01-01T09:00:00.000Z'
+
+// Deterministic PRNG so every reload produces the same data set
+function createRandom(seed: number) {
+  let state = seed
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+  return {
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+  }
+}
+
+const timestamps = { created_at: SEED_DATE, updated_at: SEED_DATE }
+
+// One account per role (login: <role>@mhp.local), plus a user without a role
+function seedAccounts(): { users: AuthUserRecord[]; accounts: Row[] } {
+  const roles: Array<UserRole | null> = [...ROLE_ORDER, null]
+
+  const users = roles.map((role, index) => ({
+    id: `00000000-0000-4000-8000-${String(index + 1).padStart(12, '0')}`,
+    email: `${(role ?? 'user').toLowerCase().replace(/\s+/g, '.')}@mhp.local`,
+    password: MOCK_PASSWORD,
+    created_at: SEED_DATE,
+  }))
+
+  const accounts = users.map((user, index) => ({
+    id: index + 1,
+    user_id: user.id,
+    email: user.email,
+    phone: `+97150000${String(index + 1).padStart(4, '0')}`,
+    full_name: `${roles[index] ?? 'Pending'} Demo`,
+    avatar: null,
+    role: roles[index],
+  }))
+
+  return { users, accounts }
+}
+
+const areas: Row[] = [
+  { id: 1, title: 'Dubai Marina', city: 'Dubai', ...timestamps },
+  { id: 2, title: 'Downtown Dubai', city: 'Dubai', ...timestamps },
+  { id: 3, title: 'Jumeirah Village Circle', city: 'Dubai', ...timestamps },
+  { id: 4, title: 'Palm Jumeirah', city: 'Dubai', ...timestamps },
+  { id: 5, title: 'Saadiyat Island', city: 'Abu Dhabi', ...timestamps },
+  { id: 6, title: 'Al Majaz', city: 'Sharjah', ...timestamps },
+]
+
+const developers: Row[] = [
+  { id: 1, title: 'Emaar', foundation_date: '1997-06-23', logo: null, ...timestamps },
+  { id: 2, title: 'Damac', foundation_date: '2002-01-01', logo: null, ...timestamps },
+  { id: 3, title: 'Sobha', foundation_date: '1976-01-01', logo: null, ...timestamps },
+  { id: 4, title: 'Aldar', foundation_date: '2004-01-01', logo: null, ...timestamps },
+  { id: 5, title: 'Nakheel', foundation_date: '2000-01-01', logo: null, ...timestamps },
+]
+
+const contacts: Row[] = [
+  'Amira Haddad', 'Omar Saleh', 'Lina Farouk', 'Yusuf Karim',
+  'Sara Nasser', 'Khalid Mansour', 'Nadia Aziz', 'Tariq Rahman',
+].map((fullName, index) => ({
+  id: index + 1,
+  full_name: fullName,
+  email: `${fullName.toLowerCase().replace(' ', '.')}@example.com`,
+  phone: `+97155100${String(index + 1).padStart(4, '0')}`,
+  ...timestamps,
+}))
+
+const projects: Row[] = [
+  { title: 'Marina Vista', developer_id: 1, area_id: 1, type: 'Off Plan', price: 1850000, latitude: 25.0805, longitude: 55.1403 },
+  { title: 'Creek Rise', developer_id: 1, area_id: 2, type: 'Off Plan', price: 2400000, latitude: 25.1972, longitude: 55.2744 },
+  { title: 'Cavalli Tower', developer_id: 2, area_id: 1, type: 'Off Plan', price: 3200000, latitude: 25.0870, longitude: 55.1460 },
+  { title: 'Sobha Hartland', developer_id: 3, area_id: 3, type: 'Ready', price: 1250000, latitude: 25.0603, longitude: 55.2094 },
+  { title: 'Saadiyat Grove', developer_id: 4, area_id: 5, type: 'Ready', price: 2100000, latitude: 24.5410, longitude: 54.4340 },
+  { title: 'Palm Tower', developer_id: 5, area_id: 4, type: 'Secondary', price: 4500000, latitude: 25.1124, longitude: 55.1390 },
+  { title: 'Al Majaz Residences', developer_id: 4, area_id: 6, type: 'Secondary', price: 780000, latitude: 25.3260, longitude: 55.3850 },
+].map((project, index) => ({
+  id: index + 1,
+  slug: project.title.toLowerCase().replace(/\s+/g, '-'),
+  file_brochure: null,
+  file_floor_plan: null,
+  ...project,
+  ...timestamps,
+}))
+
+const projectMedia: Row[] = projects.map((project, index) => ({
+  id: index + 1,
+  project_id: project.id,
+  image: null,
+  video: null,
+  created_at: SEED_DATE,
+}))
+
+const projectTravelTimes: Row[] = projects.flatMap((project, index) => [
+  { id: index * 2 + 1, project_id: project.id, minutes: 10 + index, icon: 'burj-khalifa', created_at: SEED_DATE },
+  { id: index * 2 + 2, project_id: project.id, minutes: 5 + index, icon: 'beach', created_at: SEED_DATE },
+])
+
+const projectPaymentPlans: Row[] = projects.flatMap((project, index) => [
+  { id: index * 3 + 1, project_id: project.id, title: 'Down payment', percentage: 20, created_at: SEED_DATE },
+  { id: index * 3 + 2, project_id: project.id, title: 'During construction', percentage: 50, created_at: SEED_DATE },
+  { id: index * 3 + 3, project_id: project.id, title: 'On handover', percentage: 30, created_at: SEED_DATE },
+])
+
+function seedProperties(): Row[] {
+  const random = createRandom(7)
+  const types = ['Flat', 'Villa', 'Townhouse', 'Studio', 'Office']
+
+  return Array.from({ length: 24 }, (_, index) => {
+    const project = random.pick(projects)
+    return {
+      id: index + 1,
+      project_id: project.id,
+      owner_id: random.int(1, contacts.length),
+      // Every other property is a live (Property Finder) listing, the rest are pocket listings
+      pf_id: index % 2 === 0 ? `PF-${String(1000 + index)}` : null,
+      type: random.pick(types),
+      bedrooms: random.int(0, 5),
+      square_meter: random.int(45, 420),
+      price: random.int(60, 900) * 10000,
+      latitude: project.latitude,
+      longitude: project.longitude,
+      ...timestamps,
+    }
+  })
+}
+
+// Archive transactions use obviously fake owner details
+function seedPropertyTransactions(): Row[] {
+  const random = createRandom(42)
+  const communities = ['Dubai Marina', 'Business Bay', 'Jumeirah Lake Towers', 'Arabian Ranches', 'Al Barsha']
+  const usages = ['Residential', 'Commercial']
+  const dealTypes = ['Sale', 'Mortgage', 'Gift']
+  const statuses = ['Ready', 'Off Plan']
+  const countries = ['United Arab Emirates', 'India', 'United Kingdom', 'Pakistan', 'Russia']
+
+  return Array.from({ length: 60 }, (_, index) => {
+    const community = random.pick(communities)
+    const date = new Date(Date.UTC(2023, random.int(0, 23), random.int(1, 28)))
+    return {
+      id: index + 1,
+      date: date.toISOString().slice(0, 10),
+      price: random.int(50, 1200) * 10000,
+      area_and_community: community,
+      project_name: `${community} Heights`,
+      building: `Building ${random.int(1, 12)}`,
+      unit_number: String(random.int(101, 3204)),
+      land_number: String(random.int(1000, 9999)),
+      size: random.int(40, 600),
+      completion_status: random.pick(statuses),
+      property_type: random.pick(['Flat', 'Villa', 'Office']),
+      property_usage: random.pick(usages),
+      bedroom: String(random.int(0, 5)),
+      role: 'Owner',
+      deal_type: random.pick(dealTypes),
+      owner_name: `Test Owner ${index + 1}`,
+      phone1: `+9714000${String(index).padStart(4, '0')}`,
+      phone2: null,
+      mobile1: `+97150999${String(index).padStart(4, '0')}`,
+      mobile2: null,
+      secondary_mobile: null,
+      country_name: random.pick(countries),
+      id_number: `ID-${String(100000 + index)}`,
+      eid_number: `784-0000-${String(1000000 + index)}-0`,
+      passport_expiry_date: '2030-01-01',
+      birth_date: '1980-01-01',
+      search_vector: null,
+      import_job_id: null,
+    }
+  })
+}
+
+/**
+ * Build a fresh copy of the seed data for every table in src/types
+ */
+export function createSeedData(): { tables: Record<string, Row[]>; users: AuthUserRecord[] } {
+  const { users, accounts } = seedAccounts()
+  // Copies the rows; tables with a recycle bin also carry the soft-delete columns
+  const softDeletable = (rows: Row[]) => rows.map(row => ({ ...row, deleted_at: null, deleted_by: null }))
+
+  return {
+    users,
+    tables: {
+      account: accounts,
+      area: softDeletable(areas),
+      contact: softDeletable(contacts),
+      developer: softDeletable(developers),
+      project: softDeletable(projects),
+      project_media: softDeletable(projectMedia),
+      project_travel_time: softDeletable(projectTravelTimes),
+      project_payment_plan: softDeletable(projectPaymentPlans),
+      property: softDeletable(seedProperties()),
+      property_transaction: softDeletable(seedPropertyTransactions()),
+      audit_log: [],
+      saved_search: [],
+      saved_search_subscription: [],
+      notification: [],
+      import_mapping: [],
+      import_job: [],
+    },
+  }
+}
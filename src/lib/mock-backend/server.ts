@@ -0,0 +1,48 @@
+import type { MockRequest, MockResponse } from './types'
+import { handleRest } from './postgrest'
+import { handleAuth, readAccessToken } from './auth'
+import { handleStorage } from './storage'
+
+// Small artificial latency so loading states behave like they do against Supabase
+const LATENCY_MS = 120
+
+function isExpiredSession(request: MockRequest): boolean {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || ''
+  const claims = readAccessToken(token)
+  return claims !== null && claims.exp * 1000 < Date.now()
+}
+
+function route(request: MockRequest): MockResponse {
+  if (request.path.startsWith('/auth/v1')) {
+    return handleAuth(request)
+  }
+
+  // Expired user tokens are rejected like PostgREST/Storage do, so the 401 refresh flow can be exercised
+  if (isExpiredSession(request)) {
+    return { status: 401, body: { code: 'PGRST301', message: 'JWT expired', details: null, hint: null } }
+  }
+
+  if (request.path.startsWith('/rest/v1')) {
+    return handleRest(request)
+  }
+  if (request.path.startsWith('/storage/v1')) {
+    return handleStorage(request)
+  }
+
+  return {
+    status: 404,
+    body: { error: 'not_found', message: `Mock backend does not implement ${request.method} ${request.path}` },
+  }
+}
+
+/**
+ * Entry point for requests routed to the in-memory backend
+ */
+export async function handleMockRequest(request: MockRequest): Promise<MockResponse> {
+  await new Promise(resolve => setTimeout(resolve, LATENCY_MS))
+  const response = route(request)
+  // Hand out copies so callers never mutate the in-memory rows
+  return response.body instanceof Blob || response.body === undefined
+    ? response
+    : { ...response, body: structuredClone(response.body) }
+}
@@ -0,0 +1,61 @@
+import type { MockRequest, MockResponse } from './types'
+import { database } from './database'
+
+function storageError(status: number, error: string, message: string): MockResponse {
+  return { status, body: { statusCode: String(status), error, message } }
+}
+
+/**
+ * Handle /storage/v1/object/* requests (upload, download and delete)
+ */
+export function handleStorage(request: MockRequest): MockResponse {
+  const match = request.path.match(/^\/storage\/v1\/object\/(?:(public|authenticated)\/)?([^/]+)(?:\/(.+))?$/)
+  if (!match) {
+    return storageError(404, 'not_found', `Mock backend does not implement ${request.path}`)
+  }
+
+  const [, , bucket, objectPath] = match
+  const key = objectPath ? `${bucket}/${decodeURIComponent(objectPath)}` : ''
+
+  switch (request.method) {
+    case 'POST':
+    case 'PUT': {
+      if (!key) return storageError(400, 'invalid_key', 'Object path is required')
+      if (request.method === 'POST' && database.objects.has(key) && request.headers.get('x-upsert') !== 'true') {
+        return storageError(409, 'Duplicate', 'The resource already exists')
+      }
+
+      const data = request.body instanceof Blob
+        ? request.body
+        : new Blob([typeof request.body === 'string' ? request.body : JSON.stringify(request.body ?? '')])
+      database.objects.set(key, {
+        data,
+        contentType: request.headers.get('Content-Type') || data.type || 'application/octet-stream',
+        updated_at: new Date().toISOString(),
+      })
+      return { status: 200, body: { Key: key, Id: crypto.randomUUID() } }
+    }
+
+    case 'GET': {
+      const object = database.objects.get(key)
+      if (!object) return storageError(404, 'not_found', 'Object not found')
+      return { status: 200, headers: { 'Content-Type': object.contentType }, body: object.data }
+    }
+
+    case 'DELETE': {
+      // DELETE /object/<bucket> with { prefixes: [...] } removes several objects at once
+      const prefixes = key
+        ? [key]
+        : (((request.body as { prefixes?: string[] })?.prefixes) || []).map(prefix => `${bucket}/${prefix}`)
+
+      const removed = prefixes.filter(prefix => database.objects.delete(prefix))
+      if (key && removed.length === 0) {
+        return storageError(404, 'not_found', 'Object not found')
+      }
+      return { status: 200, body: removed.map(name => ({ name, bucket_id: bucket })) }
+    }
+
+    default:
+      return storageError(405, 'method_not_allowed', `Unsupported method ${request.method}`)
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Just enough of Postgres full-text search for the app's "simple" configuration searches:
+ * tsvectors are stored in their text form ('word':1 'other':2) and tsqueries may use
+ * & (and), <-> (followed by) and :* (prefix)
+ */
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+/**
+ * to_tsvector('simple', ...) of the given values, joined like concat_ws(' ', ...)
+ */
+export function toTsVector(values: unknown[]): string {
+  const positions = new Map<string, number[]>()
+  const text = values.filter(value => value !== null && value !== undefined).join(' ')
+  words(text).forEach((word, index) => {
+    positions.set(word, [...(positions.get(word) ?? []), index + 1])
+  })
+  return [...positions.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([word, at]) => `'${word}':${at.join(',')}`)
+    .join(' ')
+}
+
+function parseTsVector(vector: string): Map<string, number[]> {
+  const lexemes = new Map<string, number[]>()
+  for (const match of vector.matchAll(/'((?:[^']|'')*)'(?::([\d,]+))?/g)) {
+    lexemes.set(match[1].replace(/''/g, "'"), (match[2] ?? '').split(',').filter(Boolean).map(Number))
+  }
+  return lexemes
+}
+
+interface QueryLexeme {
+  word: string
+  prefix: boolean
+}
+
+// "a:* & b <-> c" -> [[a:*], [b, c]]: every phrase must match
+function parseTsQuery(query: string): QueryLexeme[][] {
+  return query.split('&').map(phrase =>
+    phrase.split('<->').map((part) => {
+      const lexeme = part.trim().replace(/^'|'$/g, '')
+      const prefix = lexeme.endsWith(':*')
+      return { word: (prefix ? lexeme.slice(0, -2) : lexeme).toLowerCase(), prefix }
+    }).filter(lexeme => lexeme.word)
+  ).filter(phrase => phrase.length > 0)
+}
+
+function positionsOf(lexemes: Map<string, number[]>, { word, prefix }: QueryLexeme): number[] {
+  if (!prefix) return lexemes.get(word) ?? []
+  return [...lexemes.entries()]
+    .filter(([lexeme]) => lexeme.startsWith(word))
+    .flatMap(([, at]) => at)
+}
+
+// Positions where a phrase starts (every lexeme found right after the previous one)
+function phraseMatches(lexemes: Map<string, number[]>, phrase: QueryLexeme[]): number[] {
+  const [first, ...rest] = phrase
+  return positionsOf(lexemes, first).filter(start =>
+    rest.every((lexeme, index) => positionsOf(lexemes, lexeme).includes(start + index + 1))
+  )
+}
+
+/**
+ * search_vector @@ to_tsquery(query)
+ */
+export function matchesTsQuery(vector: unknown, query: string): boolean {
+  if (typeof vector !== 'string') return false
+  const lexemes = parseTsVector(vector)
+  return parseTsQuery(query).every(phrase => phraseMatches(lexemes, phrase).length > 0)
+}
+
+/**
+ * Rough stand-in for ts_rank: how often the query's phrases occur, relative to the document length
+ */
+export function tsRank(vector: unknown, query: string): number {
+  if (typeof vector !== 'string') return 0
+  const lexemes = parseTsVector(vector)
+  const length = [...lexemes.values()].reduce((total, at) => total + at.length, 0)
+  const hits = parseTsQuery(query).reduce((total, phrase) => total + phraseMatches(lexemes, phrase).length, 0)
+  return length > 0 ? hits / Math.log2(length + 1) : 0
+}
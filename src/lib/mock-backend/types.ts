@@ -0,0 +1,18 @@
+export type Row = Record<string, unknown>
+
+export interface MockRequest {
+  method: string
+  // Path relative to the Supabase URL, e.g. "/rest/v1/area"
+  path: string
+  searchParams: URLSearchParams
+  headers: Headers
+  body: unknown
+}
+
+export interface MockResponse {
+  status: number
+  headers?: Record<string, string>
+  body?: unknown
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>
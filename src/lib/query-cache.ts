@@ -0,0 +1,116 @@
+/**
+ * Small in-memory query cache with stale-while-revalidate semantics
+ *
+ * Keys are "<entity>:<query>" (e.g. "developer:list:select=id,title", "project:123")
+ * so that a mutation can invalidate everything cached for one entity.
+ */
+
+interface CacheEntry<T> {
+  data?: T
+  updatedAt: number
+  promise?: Promise<T>
+}
+
+export interface FetchQueryOptions<T> {
+  // How long cached data is considered fresh (ms)
+  staleTime?: number
+  // Called with fresh data when a stale cached value was served first
+  onRevalidate?: (data: T) => void
+}
+
+const DEFAULT_STALE_TIME = 30_000
+
+const cache = new Map<string, CacheEntry<unknown>>()
+
+/**
+ * Build a cache key from an entity name and query parts
+ */
+export function queryKey(entity: string, ...parts: Array<string | number>): string {
+  return [entity, ...parts].join(':')
+}
+
+/**
+ * Return cached data for a key without fetching
+ */
+export function peekQuery<T>(key: string): T | undefined {
+  return (cache.get(key) as CacheEntry<T> | undefined)?.data
+}
+
+// Run the fetcher once per key at a time; concurrent callers share the promise
+function revalidate<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const entry = (cache.get(key) as CacheEntry<T> | undefined) ?? { updatedAt: 0 }
+  if (entry.promise) return entry.promise
+
+  const promise = fetcher()
+    .then((data) => {
+      // Ignore results for entries invalidated while the request was in flight
+      if (cache.get(key) === entry) {
+        entry.data = data
+        entry.updatedAt = Date.now()
+      }
+      return data
+    })
+    .finally(() => {
+      entry.promise = undefined
+    })
+
+  entry.promise = promise
+  cache.set(key, entry)
+  return promise
+}
+
+/**
+ * Fetch data through the cache
+ * Cached data is returned immediately; if it is stale it is refetched in the
+ * background and `onRevalidate` receives the fresh value.
+ */
+export async function fetchQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions<T> = {}
+): Promise<T> {
+  const { staleTime = DEFAULT_STALE_TIME, onRevalidate } = options
+  const entry = cache.get(key) as CacheEntry<T> | undefined
+
+  if (entry?.data === undefined) {
+    return revalidate(key, fetcher)
+  }
+
+  if (Date.now() - entry.updatedAt > staleTime) {
+    revalidate(key, fetcher)
+      .then((data) => onRevalidate?.(data))
+      .catch((err) => console.warn(`Background refresh failed for ${key}:`, err))
+  }
+
+  return entry.data
+}
+
+/**
+ * Drop every cached query for an entity (or a more specific key prefix)
+ */
+export function invalidateQueries(prefix: string): void {
+  for (const key of Array.from(cache.keys())) {
+    if (key === prefix || key.startsWith(`${prefix}:`)) {
+      cache.delete(key)
+    }
+  }
+}
+
+/**
+ * Mark cached queries as stale without dropping them
+ * The next read still serves the cached data (no loading state) and refetches it in the background.
+ */
+export function markQueriesStale(prefix: string): void {
+  for (const [key, entry] of cache) {
+    if (key === prefix || key.startsWith(`${prefix}:`)) {
+      entry.updatedAt = 0
+    }
+  }
+}
+
+/**
+ * Drop the whole cache (e.g. on logout)
+ */
+export function clearQueryCache(): void {
+  cache.clear()
+}
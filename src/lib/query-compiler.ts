@@ -0,0 +1,265 @@
+import { addDays, format, parseISO } from 'date-fns'
+import type { SearchColumn } from '@/components/shared/AdvancedSearchBar'
+import { toTsQuery } from '@/lib/full-text-search'
+import type { ParsedQuery, QueryNode } from '@/lib/query-parser'
+import {
+  filterOperand,
+  formatCondition,
+  type Filter,
+  type FilterOperator,
+  type ListParams,
+  type SortOrder,
+} from '@/lib/repositories/base'
+
+export interface FullTextSearchConfig {
+  // tsvector column, e.g. search_vector
+  column: string
+  // Text search configuration the column was built with, e.g. "simple"
+  language: string
+  // Function returning the table's rows matching a tsquery (`search` argument), best matches first;
+  // used when the query has free text and no explicit sort
+  rankFunction?: string
+}
+
+/**
+ * What a search query can do on a table
+ */
+export interface TableSchema {
+  columns: SearchColumn[]
+  // Columns free text is looked for in (default: every text column); not used with fullTextSearch
+  textSearchFields?: string[]
+  // Match free text against a tsvector column instead of ilike on the text search fields
+  fullTextSearch?: FullTextSearchConfig
+  // Order when the query does not sort (and free text is not ranked)
+  defaultSort?: SortOrder
+}
+
+/**
+ * A search query compiled for PostgREST, independent of how the request is sent
+ */
+export interface CompiledQuery {
+  // Conditions ANDed at the top level
+  filters: Filter[]
+  // Logic trees ANDed with the filters, each the inside of an or=(...) parameter
+  logic: string[]
+  order: SortOrder[]
+  // tsquery of the top-level free text when results should be ranked by relevance
+  rankSearch: string | null
+}
+
+const OPERATORS: Record<string, FilterOperator> = {
+  '=': 'eq',
+  '==': 'eq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  '!=': 'neq',
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/
+
+const nextDay = (day: string) => format(addDays(parseISO(day), 1), 'yyyy-MM-dd')
+
+const findColumn = (schema: TableSchema, key: string) => schema.columns.find(column => column.key === key)
+
+/**
+ * Give date terms whole-day semantics, so they behave the same on date and timestamp columns
+ * date:2024-05-01 -> date >= 2024-05-01 AND date < 2024-05-02; date:<=2024-05-01 -> date < 2024-05-02
+ */
+function normalizeDates(node: QueryNode, schema: TableSchema): QueryNode {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map(child => normalizeDates(child, schema)) }
+    case 'not':
+      return { ...node, child: normalizeDates(node.child, schema) }
+    case 'in':
+      if (findColumn(schema, node.column)?.type !== 'date') return node
+      return {
+        type: 'or',
+        children: node.values.map(value => normalizeDates({ type: 'filter', column: node.column, operator: '=', value }, schema)),
+      }
+    case 'filter': {
+      if (findColumn(schema, node.column)?.type !== 'date' || !DAY.test(node.value)) return node
+      const at = (operator: string, value: string): QueryNode => ({ ...node, operator, value })
+      const day: QueryNode = { type: 'and', children: [at('>=', node.value), at('<', nextDay(node.value))] }
+      switch (node.operator) {
+        case '=': return day
+        case '!=': return { type: 'not', child: day }
+        case '<=': return at('<', nextDay(node.value))
+        case '>': return at('>=', nextDay(node.value))
+        default: return node
+      }
+    }
+    default:
+      return node
+  }
+}
+
+/**
+ * Conditions for a filter, IN list or text term; the node matches when any of them does
+ * Returns null when the node cannot be applied (unknown column, invalid number, no text fields).
+ */
+function leafConditions(node: QueryNode, schema: TableSchema): Filter[] | null {
+  if (node.type === 'text') {
+    if (schema.fullTextSearch) {
+      const tsQuery = toTsQuery(node.value)
+      if (!tsQuery) return null
+      const { column, language } = schema.fullTextSearch
+      return [{ column, operator: `fts(${language})`, value: tsQuery }]
+    }
+
+    const searchFields = schema.textSearchFields ||
+      schema.columns.filter(column => column.type === 'text').map(column => column.key)
+    const text = node.value.trim()
+    if (!text || searchFields.length === 0) return null
+    return searchFields.map(field => ({ column: field, operator: 'ilike', value: `%${text}%` }))
+  }
+
+  if (node.type !== 'filter' && node.type !== 'in') return null
+
+  const column = findColumn(schema, node.column)
+  if (!column) return null
+
+  // Skip invalid number filters
+  const isValid = (value: string) => column.type !== 'number' || !isNaN(parseFloat(value))
+
+  if (node.type === 'in') {
+    const values = node.values.filter(isValid)
+    if (values.length === 0) return null
+    // Text columns match partially, like a plain column:value filter, unless the list is exact
+    if (column.type === 'text' && !node.exact) {
+      return values.map(value => ({ column: column.key, operator: 'ilike', value: `%${value}%` }))
+    }
+    return [{ column: column.key, operator: 'in', value: values }]
+  }
+
+  if (!isValid(node.value)) return null
+  const value = column.type === 'number' ? String(parseFloat(node.value)) : node.value
+
+  // column:value and column:!=value on text look for (or exclude) the value anywhere in the column;
+  // column:=value matches it exactly
+  if (column.type === 'text' && (node.operator === '=' || node.operator === '!=')) {
+    return [{ column: column.key, operator: 'ilike', value: `%${value}%`, negate: node.operator === '!=' }]
+  }
+  return [{ column: column.key, operator: OPERATORS[node.operator] ?? 'eq', value }]
+}
+
+/**
+ * Compile an expression node into a PostgREST logic tree condition, e.g. not.and(a.eq.1,b.not.gt.2)
+ */
+function toLogic(node: QueryNode, schema: TableSchema, negate = false): string | null {
+  const prefix = negate ? 'not.' : ''
+
+  if (node.type === 'not') {
+    return toLogic(node.child, schema, !negate)
+  }
+
+  if (node.type === 'and' || node.type === 'or') {
+    const parts = node.children
+      .map(child => ({ child, logic: toLogic(child, schema) }))
+      .filter(part => part.logic !== null)
+    if (parts.length === 0) return null
+    if (parts.length === 1) return toLogic(parts[0].child, schema, negate)
+    return `${prefix}${node.type}(${parts.map(part => part.logic).join(',')})`
+  }
+
+  const conditions = leafConditions(node, schema)
+  if (!conditions) return null
+  if (conditions.length === 1) {
+    const [condition] = conditions
+    return formatCondition({ ...condition, negate: Boolean(condition.negate) !== negate })
+  }
+  return `${prefix}or(${conditions.map(formatCondition).join(',')})`
+}
+
+/**
+ * Compile a parsed search query for a table
+ * Top-level terms become separate conditions; anything with OR or negated groups becomes a logic tree.
+ */
+export function compileQuery(parsed: ParsedQuery, schema: TableSchema): CompiledQuery {
+  const expression = parsed.expression ? normalizeDates(parsed.expression, schema) : null
+  const terms = !expression ? [] : expression.type === 'and' ? expression.children : [expression]
+  const filters: Filter[] = []
+  const logic: string[] = []
+
+  for (const term of terms) {
+    const negated = term.type === 'not'
+    const node = term.type === 'not' ? term.child : term
+    const leaf = leafConditions(node, schema)
+
+    if (leaf && leaf.length === 1) {
+      const [condition] = leaf
+      filters.push(negated ? { ...condition, negate: !condition.negate } : condition)
+      continue
+    }
+
+    // Several alternatives (text search across fields, text IN lists, OR groups) go into one or=()
+    const alternatives = !negated && leaf
+      ? leaf.map(formatCondition)
+      : !negated && node.type === 'or'
+        ? node.children.map(child => toLogic(child, schema)).filter((part): part is string => part !== null)
+        : [toLogic(term, schema)].filter((part): part is string => part !== null)
+
+    if (alternatives.length > 0) {
+      logic.push(alternatives.join(','))
+    }
+  }
+
+  // Free text ANDed at the top level ranks the results, unless the query sorts explicitly
+  const text = terms.find(term => term.type === 'text')
+  const rankSearch = schema.fullTextSearch?.rankFunction && text?.type === 'text' && parsed.sort.length === 0
+    ? toTsQuery(text.value)
+    : null
+
+  const order = parsed.sort.length > 0
+    ? parsed.sort
+    : !rankSearch && schema.defaultSort ? [schema.defaultSort] : []
+
+  return { filters, logic, order, rankSearch }
+}
+
+/**
+ * Repository list params (sent as a PostgREST query string) for a compiled query
+ */
+export function toListParams(compiled: CompiledQuery): Pick<ListParams, 'filters' | 'logic' | 'order'> {
+  return {
+    filters: compiled.filters,
+    logic: compiled.logic,
+    order: compiled.order.length > 0 ? compiled.order : undefined,
+  }
+}
+
+// The parts of a supabase-js filter builder a compiled query is applied with
+interface FilterBuilder<Q> {
+  filter(column: string, operator: string, value: unknown): Q
+  not(column: string, operator: string, value: unknown): Q
+  or(filters: string): Q
+  order(column: string, options: { ascending: boolean }): Q
+}
+
+/**
+ * Apply a compiled query's conditions and order to a supabase-js query
+ */
+export function applyToSupabase<Q extends FilterBuilder<Q>>(query: Q, compiled: CompiledQuery): Q {
+  let result = query
+
+  for (const filter of compiled.filters) {
+    const operand = filterOperand(filter)
+    result = filter.negate
+      ? result.not(filter.column, filter.operator, operand)
+      : result.filter(filter.column, filter.operator, operand)
+  }
+
+  for (const tree of compiled.logic) {
+    result = result.or(tree)
+  }
+
+  // Each order() call appends to PostgREST's comma-separated order= parameter
+  for (const sort of compiled.order) {
+    result = result.order(sort.column, { ascending: sort.direction === 'asc' })
+  }
+
+  return result
+}
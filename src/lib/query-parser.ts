@@ -1,145 +1,941 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from "date-fns"
 import type { SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { editDistance } from "@/lib/fuzzy-match"
+
+export interface QueryFilter {
+  column: string
+  operator: string
+  value: string
+}
+
+/**
+ * Boolean expression tree of a search query
+ * `in` filters come from `column:(a|b|c)` lists; `text` nodes are free-text search terms.
+ * `exact` lists and the `==` operator come from `column:=value` terms, which match text columns exactly.
+ */
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | ({ type: 'filter' } & QueryFilter)
+  | { type: 'in'; column: string; values: string[]; exact?: boolean }
+  | { type: 'text'; value: string }
+
+// Replace query[start, end) with `text`
+export interface QueryFix {
+  label: string
+  start: number
+  end: number
+  text: string
+}
+
+// Problem with part of the query; `start`/`end` are character offsets
+export interface QueryDiagnostic {
+  start: number
+  end: number
+  message: string
+  fixes: QueryFix[]
+}
+
+export type QuerySegmentKind = 'column' | 'operator' | 'value' | 'sort' | 'keyword' | 'text'
+
+export interface QuerySegment {
+  kind: QuerySegmentKind
+  text: string
+}
+
+// One term, keyword or parenthesis of the query, split into parts for highlighting
+export interface QueryChip {
+  start: number
+  end: number
+  segments: QuerySegment[]
+}
+
+export interface QuerySort {
+  column: string
+  direction: 'asc' | 'desc'
+}
 
 export interface ParsedQuery {
   textSearch: string
-  filters: Array<{ column: string; operator: string; value: string }>
-  sort?: { column: string; direction: 'asc' | 'desc' }
+  filters: QueryFilter[]
+  // Sort keys in priority order (empty when the query does not sort)
+  sort: QuerySort[]
+  // Full query including OR, NOT, grouping and IN lists; textSearch/filters only hold the plain ANDed terms
+  expression?: QueryNode | null
+  diagnostics: QueryDiagnostic[]
+  chips: QueryChip[]
+}
+
+interface Token {
+  type: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'term'
+  // Source text and its offsets in the query
+  value: string
+  start: number
+  end: number
+}
+
+const KEYWORDS: Record<string, Token['type'] | undefined> = {
+  OR: 'or',
+  AND: 'and',
+  NOT: 'not',
 }
 
+const unquote = (value: string) => value.replace(/^["']|["']$/g, '')
+
 /**
- * Parse query string to extract filters, search text, and sort
+ * Split a query into terms, keywords and parentheses
+ * Quoted strings and `column:(a|b)` lists stay inside a single term; a leading "-" negates the term.
  */
-export function parseQuery(query: string, columns: SearchColumn[]): ParsedQuery {
-  const result: ParsedQuery = {
-    textSearch: '',
-    filters: [],
-    sort: undefined,
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let current = ''
+  let currentStart = 0
+  let quote: string | null = null
+  // Parentheses opened inside a term (IN lists)
+  let depth = 0
+
+  const flush = () => {
+    if (current) {
+      tokens.push({
+        type: KEYWORDS[current] || 'term',
+        value: current,
+        start: currentStart,
+        end: currentStart + current.length,
+      })
+    }
+    current = ''
   }
 
-  if (!query.trim()) return result
+  const append = (char: string, index: number) => {
+    if (!current) currentStart = index
+    current += char
+  }
 
-  // Split query by spaces, but preserve quoted strings
-  const parts: string[] = []
-  let current = ''
-  let inQuotes = false
-
-  for (let i = 0; i < query.length; i++) {
-    const char = query[i]
-    if (char === '"' || char === "'") {
-      inQuotes = !inQuotes
-      current += char
-    } else if (char === ' ' && !inQuotes) {
-      if (current.trim()) {
-        parts.push(current.trim())
-        current = ''
+  for (let index = 0; index < query.length; index++) {
+    const char = query[index]
+
+    if (quote) {
+      append(char, index)
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+      append(char, index)
+    } else if (depth > 0) {
+      append(char, index)
+      if (char === '(') depth++
+      else if (char === ')') depth--
+    } else if (/\s/.test(char)) {
+      flush()
+    } else if (char === '(') {
+      // "column:(" starts an IN list, anything else opens a group
+      if (/[:=<>]$/.test(current)) {
+        append(char, index)
+        depth = 1
+      } else {
+        flush()
+        tokens.push({ type: 'lparen', value: char, start: index, end: index + 1 })
       }
+    } else if (char === ')') {
+      flush()
+      tokens.push({ type: 'rparen', value: char, start: index, end: index + 1 })
+    } else if (char === '-' && current === '') {
+      tokens.push({ type: 'not', value: char, start: index, end: index + 1 })
+    } else {
+      append(char, index)
+    }
+  }
+  flush()
+
+  return tokens
+}
+
+function findColumn(key: string, columns: SearchColumn[]): SearchColumn | undefined {
+  return columns.find(
+    col => col.key.toLowerCase() === key ||
+    col.label.toLowerCase().replace(/\s+/g, '_') === key ||
+    col.key.toLowerCase().replace(/_/g, '') === key.replace(/_/g, '')
+  )
+}
+
+// Columns the user probably meant when typing an unknown column name
+function similarColumns(key: string, columns: SearchColumn[]): SearchColumn[] {
+  const scored = columns.map(col => {
+    const names = [col.key.toLowerCase(), col.label.toLowerCase().replace(/\s+/g, '_')]
+    const prefix = names.some(name => name.startsWith(key) || key.startsWith(name) || name.includes(key))
+    return { col, score: prefix ? 0 : Math.min(...names.map(name => editDistance(key, name))) }
+  })
+  return scored
+    .filter(({ score }) => score <= 2)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, 3)
+    .map(({ col }) => col)
+}
+
+const isColumnName = (key: string) => /^[a-z_][a-z0-9_]*$/i.test(key)
+
+// Dates must be valid yyyy-MM-dd (rejects partial input like "2025-0" or "2025-13-32")
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return false
+  const [year, month, day] = value.split('-').map(Number)
+  return date.getFullYear() === year && date.getMonth() + 1 === month && date.getDate() === day
+}
+
+const NUMBER_SUFFIXES: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+}
+
+/**
+ * Parse a number with an optional k/m/b suffix ("750k", "1.2m", "1,200")
+ */
+export function parseNumber(value: string): number | null {
+  const match = value.replace(/[,_]/g, '').match(/^(-?(?:\d+\.?\d*|\.\d+))([kmb])?$/i)
+  if (!match) return null
+  const number = parseFloat(match[1]) * (match[2] ? NUMBER_SUFFIXES[match[2].toLowerCase()] : 1)
+  // Avoid floating point noise such as 1.15m = 1149999.9999999998
+  return Math.round(number * 100) / 100
+}
+
+// Inclusive range of days a date value stands for
+interface DatePeriod {
+  from: Date
+  to: Date
+}
+
+const DATE_UNITS: Record<string, (date: Date, amount: number) => Date> = {
+  d: addDays,
+  day: addDays,
+  days: addDays,
+  w: addWeeks,
+  week: addWeeks,
+  weeks: addWeeks,
+  m: addMonths,
+  month: addMonths,
+  months: addMonths,
+  y: addYears,
+  year: addYears,
+  years: addYears,
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+const day = (date: Date): DatePeriod => ({ from: date, to: date })
+
+/**
+ * Resolve a date value to the days it covers
+ * Accepts yyyy, yyyy-MM and yyyy-MM-dd, offsets from today (-30d, +2w, -6m, -1y),
+ * named periods (today, yesterday, this_week, last_month, this_quarter, last_year, ...)
+ * and last_N_days/weeks/months/years.
+ */
+export function parseDatePeriod(value: string, now: Date = new Date()): DatePeriod | null {
+  const today = startOfDay(now)
+  const input = value.toLowerCase()
+
+  if (/^\d{4}$/.test(input)) {
+    const start = new Date(Number(input), 0, 1)
+    return { from: start, to: endOfYear(start) }
+  }
+
+  const month = input.match(/^(\d{4})-(\d{2})$/)
+  if (month && Number(month[2]) >= 1 && Number(month[2]) <= 12) {
+    const start = new Date(Number(month[1]), Number(month[2]) - 1, 1)
+    return { from: start, to: endOfMonth(start) }
+  }
+
+  if (isValidDate(input)) {
+    const [year, monthIndex, date] = input.split('-').map(Number)
+    return day(new Date(year, monthIndex - 1, date))
+  }
+
+  const offset = input.match(/^([+-])(\d+)([dwmy])$/)
+  if (offset) {
+    const amount = Number(offset[2]) * (offset[1] === '-' ? -1 : 1)
+    return day(DATE_UNITS[offset[3]](today, amount))
+  }
+
+  const lastN = input.match(/^last_(\d+)_(days?|weeks?|months?|years?)$/)
+  if (lastN) {
+    return { from: DATE_UNITS[lastN[2]](today, -Number(lastN[1])), to: today }
+  }
+
+  switch (input) {
+    case 'today':
+      return day(today)
+    case 'yesterday':
+      return day(addDays(today, -1))
+    case 'this_week':
+      return { from: startOfWeek(today, WEEK_OPTIONS), to: endOfWeek(today, WEEK_OPTIONS) }
+    case 'last_week': {
+      const date = addWeeks(today, -1)
+      return { from: startOfWeek(date, WEEK_OPTIONS), to: endOfWeek(date, WEEK_OPTIONS) }
+    }
+    case 'this_month':
+      return { from: startOfMonth(today), to: endOfMonth(today) }
+    case 'last_month': {
+      const date = addMonths(today, -1)
+      return { from: startOfMonth(date), to: endOfMonth(date) }
+    }
+    case 'this_quarter':
+      return { from: startOfQuarter(today), to: endOfQuarter(today) }
+    case 'last_quarter': {
+      const date = addMonths(today, -3)
+      return { from: startOfQuarter(date), to: endOfQuarter(date) }
+    }
+    case 'this_year':
+      return { from: startOfYear(today), to: endOfYear(today) }
+    case 'last_year': {
+      const date = addYears(today, -1)
+      return { from: startOfYear(date), to: endOfYear(date) }
+    }
+  }
+
+  return null
+}
+
+const formatDate = (date: Date) => format(date, 'yyyy-MM-dd')
+
+const NAMED_PERIODS = ['today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month', 'this_quarter', 'last_quarter', 'this_year', 'last_year']
+
+// Corrections for number and date values that could not be parsed
+function suggestValues(column: SearchColumn, value: string): string[] {
+  const candidates: string[] = []
+
+  if (column.type === 'number') {
+    // "1.2M AED", "aed750k", "2mil"
+    candidates.push(value.toLowerCase().replace(/[^\d.,kmb]/g, ''))
+  } else {
+    const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+    if (dayFirst) {
+      candidates.push(`${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`)
+    }
+    const yearFirst = value.match(/^(\d{4})[/.](\d{1,2})(?:[/.](\d{1,2}))?$/)
+    if (yearFirst) {
+      candidates.push([yearFirst[1], yearFirst[2].padStart(2, '0'), yearFirst[3]?.padStart(2, '0')].filter(Boolean).join('-'))
+    }
+    // "30d" -> "-30d", "this-month" / "thismonth" -> "this_month", "last90days" -> "last_90_days"
+    if (/^\d+[dwmy]$/i.test(value)) candidates.push(`-${value}`)
+    const words = value.toLowerCase().replace(/[-\s]+/g, '_')
+    candidates.push(words)
+    candidates.push(words.replace(/^(this|last)_?(?=[a-z])/, '$1_'))
+    candidates.push(words.replace(/^last_?(\d+)_?(day|week|month|year)s?$/, 'last_$1_$2s'))
+    if (!candidates.some(candidate => parseDatePeriod(candidate))) {
+      candidates.push(...NAMED_PERIODS.filter(name => editDistance(words, name) <= 2))
+    }
+  }
+
+  const valid = (candidate: string) => column.type === 'number'
+    ? parseNumber(candidate) !== null
+    : parseDatePeriod(candidate) !== null
+  return [...new Set(candidates)].filter(candidate => candidate && candidate !== value && valid(candidate)).slice(0, 3)
+}
+
+function invalidValueMessage(column: SearchColumn, value: string): string {
+  return column.type === 'number'
+    ? `"${value}" is not a number. ${column.label} takes values like 750k, 1.2m or 1m..2m.`
+    : `"${value}" is not a date. ${column.label} takes values like 2024-03-15, 2024-03, 2024, this_month or -30d.`
+}
+
+/**
+ * Compile a comparison on a number or date column into plain filters
+ * Dates covering several days and `a..b` ranges (either end may be left open) become gte/lte pairs.
+ * Returns null when a value cannot be parsed.
+ */
+function comparisonNode(column: SearchColumn, operator: string, value: string): QueryNode | null {
+  const filter = (op: string, filterValue: string): QueryNode =>
+    ({ type: 'filter', column: column.key, operator: op, value: filterValue })
+
+  // Lowest and highest value a single value stands for
+  const bounds = (input: string): { from: string; to: string } | null => {
+    if (column.type === 'number') {
+      const number = parseNumber(input)
+      return number === null ? null : { from: String(number), to: String(number) }
+    }
+    const period = parseDatePeriod(input)
+    return period && { from: formatDate(period.from), to: formatDate(period.to) }
+  }
+
+  const range = value.split('..')
+  if (range.length === 2 && operator === '=') {
+    const [low, high] = range.map(part => part.trim())
+    if (!low && !high) return null
+    const from = low ? bounds(low) : null
+    const to = high ? bounds(high) : null
+    if ((low && !from) || (high && !to)) return null
+    return group('and', [from && filter('>=', from.from), to && filter('<=', to.to)])
+  }
+
+  const target = bounds(value)
+  if (!target) return null
+
+  switch (operator) {
+    case '>':
+      return filter('>', target.to)
+    case '>=':
+      return filter('>=', target.from)
+    case '<':
+      return filter('<', target.from)
+    case '<=':
+      return filter('<=', target.to)
+    default: {
+      if (target.from === target.to) return filter(operator, target.from)
+      const within = group('and', [filter('>=', target.from), filter('<=', target.to)])
+      return operator === '!=' && within ? { type: 'not', child: within } : within
+    }
+  }
+}
+
+// Combine nodes, dropping empty ones and merging free text so "foo bar" is still one text search
+function group(type: 'and' | 'or', nodes: Array<QueryNode | null>): QueryNode | null {
+  const children: QueryNode[] = []
+  const text: string[] = []
+  let textIndex = -1
+
+  for (const node of nodes) {
+    if (!node) continue
+    if (node.type === type) {
+      children.push(...node.children)
+    } else if (type === 'and' && node.type === 'text') {
+      if (textIndex === -1) textIndex = children.length
+      text.push(node.value)
     } else {
-      current += char
+      children.push(node)
     }
   }
-  if (current.trim()) {
-    parts.push(current.trim())
+
+  if (textIndex !== -1) {
+    children.splice(textIndex, 0, { type: 'text', value: text.join(' ') })
+  }
+
+  if (children.length === 0) return null
+  return children.length === 1 ? children[0] : { type, children }
+}
+
+// Diagnostics collected while parsing; `start` is the offset of the term being parsed
+interface TermContext {
+  columns: SearchColumn[]
+  start: number
+  report: (diagnostic: QueryDiagnostic) => void
+}
+
+// Offsets of the separator in column:value / column=value terms (-1 when there is none)
+function separatorIndexOf(part: string): number {
+  const colonIndex = part.indexOf(':')
+  const equalIndex = part.indexOf('=')
+
+  if (colonIndex > 0 && (equalIndex === -1 || colonIndex < equalIndex)) {
+    return colonIndex
+  } else if (equalIndex > 0) {
+    return equalIndex
   }
+  return -1
+}
+
+/**
+ * Parse a single term: a column filter (column:value, column=value, column:>value, column:(a|b), etc.)
+ * or free text. Returns null for terms that cannot be applied; those are reported as diagnostics.
+ */
+function parseTerm(part: string, { columns, start, report }: TermContext): QueryNode | null {
+  // Support both ':' and '=' separators
+  const separatorIndex = separatorIndexOf(part)
+
+  if (separatorIndex > 0) {
+    const keyPart = part.substring(0, separatorIndex).toLowerCase()
+    const valuePart = part.substring(separatorIndex + 1).trim()
+
+    // Check for operator
+    let operator = '='
+    let actualValue = valuePart
+
+    if (valuePart.startsWith('>=')) {
+      operator = '>='
+      actualValue = valuePart.substring(2).trim()
+    } else if (valuePart.startsWith('<=')) {
+      operator = '<='
+      actualValue = valuePart.substring(2).trim()
+    } else if (valuePart.startsWith('>')) {
+      operator = '>'
+      actualValue = valuePart.substring(1).trim()
+    } else if (valuePart.startsWith('<')) {
+      operator = '<'
+      actualValue = valuePart.substring(1).trim()
+    } else if (valuePart.startsWith('!=')) {
+      operator = '!='
+      actualValue = valuePart.substring(2).trim()
+    } else if (valuePart.startsWith('=')) {
+      operator = '=='
+      actualValue = valuePart.substring(1).trim()
+    }
+
+    const column = findColumn(keyPart, columns)
+    const valueStart = start + part.length - actualValue.length
+    const valueEnd = start + part.length
+
+    if (!column && isColumnName(keyPart)) {
+      report({
+        start,
+        end: start + separatorIndex,
+        message: `Unknown column "${keyPart}"`,
+        fixes: similarColumns(keyPart, columns).map(col => ({
+          label: col.key,
+          start,
+          end: start + separatorIndex,
+          text: col.key,
+        })),
+      })
+      return null
+    }
 
-  const textParts: string[] = []
+    // IN list: column:(a|b|c), column:=(a|b|c) for exact values, or column!=(a|b|c) to exclude the values
+    const list = actualValue.match(/^\((.*)\)$/)
+    if (column && list && (operator === '=' || operator === '==' || operator === '!=')) {
+      const values: string[] = []
+      const invalid: string[] = []
+      for (const item of list[1].split('|').map(value => unquote(value.trim())).filter(Boolean)) {
+        const number = column.type === 'number' ? parseNumber(item) : null
+        if (column.type === 'number' && number === null) invalid.push(item)
+        else if (column.type === 'date' && !isValidDate(item)) invalid.push(item)
+        else values.push(number !== null ? String(number) : item)
+      }
+      if (invalid.length > 0) {
+        report({
+          start: valueStart,
+          end: valueEnd,
+          message: column.type === 'number'
+            ? `Not a number: ${invalid.join(', ')}`
+            : `Lists of dates take yyyy-MM-dd values; not valid: ${invalid.join(', ')}`,
+          fixes: [],
+        })
+      }
+      if (values.length === 0) return null
+      const node: QueryNode = { type: 'in', column: column.key, values, ...(operator === '==' && { exact: true }) }
+      return operator === '!=' ? { type: 'not', child: node } : node
+    }
 
-  for (const part of parts) {
-    // Check for sort: column:direction or sort:column
-    if (part.toLowerCase().startsWith('sort:')) {
-      const sortPart = part.substring(5).trim()
-      const [column, direction] = sortPart.split(':')
-      if (column) {
-        result.sort = {
-          column: column.trim(),
-          direction: direction?.toLowerCase() === 'asc' ? 'asc' : 'desc',
+    // Remove quotes
+    actualValue = unquote(actualValue)
+
+    if (column && actualValue) {
+      // Numbers and dates are normalized; values that cannot be parsed are reported and skipped
+      if (column.type !== 'text') {
+        const node = comparisonNode(column, operator === '==' ? '=' : operator, actualValue)
+        if (!node) {
+          report({
+            start: valueStart,
+            end: valueEnd,
+            message: invalidValueMessage(column, actualValue),
+            fixes: suggestValues(column, actualValue).map(value => ({
+              label: value,
+              start: valueStart,
+              end: valueEnd,
+              text: value,
+            })),
+          })
         }
+        return node
       }
+      return { type: 'filter', column: column.key, operator, value: actualValue }
+    }
+  }
+
+  // Otherwise it's text search
+  return { type: 'text', value: unquote(part) }
+}
+
+/**
+ * Parse sort:column, sort:column:direction or several keys: sort:date:desc,price:asc
+ */
+function parseSort(part: string, { columns, start, report }: TermContext): QuerySort[] {
+  const sort: QuerySort[] = []
+  let keyStart = start + 5
+
+  for (const item of part.substring(5).split(',')) {
+    const [key, direction] = item.split(':')
+    const itemStart = keyStart
+    keyStart += item.length + 1
+    if (!key) continue
+
+    const column = findColumn(key.toLowerCase(), columns)
+    if (!column) {
+      report({
+        start: itemStart,
+        end: itemStart + key.length,
+        message: `Cannot sort by unknown column "${key}"`,
+        fixes: similarColumns(key.toLowerCase(), columns).map(col => ({
+          label: col.key,
+          start: itemStart,
+          end: itemStart + key.length,
+          text: col.key,
+        })),
+      })
+      continue
+    }
+
+    if (direction && !['asc', 'desc'].includes(direction.toLowerCase())) {
+      const directionStart = itemStart + key.length + 1
+      report({
+        start: directionStart,
+        end: directionStart + direction.length,
+        message: `Sort direction must be asc or desc; sorting descending`,
+        fixes: ['asc', 'desc'].map(text => ({ label: text, start: directionStart, end: directionStart + direction.length, text })),
+      })
+    }
+
+    // A column sorted twice keeps its first position
+    if (sort.some(existing => existing.column === column.key)) continue
+    sort.push({
+      column: column.key,
+      direction: direction?.toLowerCase() === 'asc' ? 'asc' : 'desc',
+    })
+  }
+
+  return sort
+}
+
+/**
+ * Next sort after clicking a column header
+ * A plain click sorts by that column only (ascending, then descending, then unsorted);
+ * with `additive` (shift-click) the column is added to or cycled within the existing sort.
+ */
+export function toggleSort(sort: QuerySort[], column: string, additive = false): QuerySort[] {
+  const current = sort.find(item => item.column === column)
+  const next: QuerySort | null = !current
+    ? { column, direction: 'asc' }
+    : current.direction === 'asc'
+      ? { column, direction: 'desc' }
+      : null
+
+  if (!additive) return next ? [next] : []
+  if (!current) return [...sort, next!]
+  return sort.flatMap(item => item.column !== column ? [item] : next ? [next] : [])
+}
+
+/**
+ * Replace the sort of a query string, e.g. "area:marina" + [date desc] -> "area:marina sort:date:desc"
+ */
+export function setQuerySort(query: string, sort: QuerySort[]): string {
+  const withoutSort = query.replace(/(^|\s)sort:\S*/gi, ' ').replace(/\s+/g, ' ').trim()
+  if (sort.length === 0) return withoutSort
+  const sortTerm = `sort:${sort.map(item => `${item.column}:${item.direction}`).join(',')}`
+  return withoutSort ? `${withoutSort} ${sortTerm}` : sortTerm
+}
+
+export interface QueryRange {
+  // Either end may be open
+  from: number | null
+  to: number | null
+}
+
+// Plain terms on a column that are ANDed at the top level (not negated, grouped or part of an OR)
+function columnTerms(tokens: Token[], column: string, columns: SearchColumn[]): Token[] {
+  let depth = 0
+  return tokens.filter((token, index) => {
+    if (token.type === 'lparen') depth++
+    else if (token.type === 'rparen') depth = Math.max(depth - 1, 0)
+    if (token.type !== 'term' || depth > 0) return false
+    if (tokens[index - 1]?.type === 'not' || tokens[index - 1]?.type === 'or' || tokens[index + 1]?.type === 'or') return false
+
+    const separatorIndex = separatorIndexOf(token.value)
+    if (separatorIndex <= 0) return false
+    return findColumn(token.value.substring(0, separatorIndex).toLowerCase(), columns)?.key === column
+  })
+}
+
+// Value part of a column term, e.g. ">=750k" for price:>=750k
+const termValue = (token: Token) => token.value.substring(separatorIndexOf(token.value) + 1)
+
+// Remove terms (and an AND keyword joining them to the query) and append `term`
+function replaceTerms(query: string, tokens: Token[], terms: Token[], term: string | null): string {
+  let result = query
+  // From the end so earlier offsets stay valid
+  for (const token of [...terms].sort((a, b) => b.start - a.start)) {
+    const index = tokens.indexOf(token)
+    const start = tokens[index - 1]?.type === 'and' ? tokens[index - 1].start : token.start
+    const end = start === token.start && tokens[index + 1]?.type === 'and' ? tokens[index + 1].end : token.end
+    result = result.substring(0, start) + ' ' + result.substring(end)
+  }
+  result = result.replace(/\s+/g, ' ').trim()
+  if (!term) return result
+  return result ? `${result} ${term}` : term
+}
+
+const quoteListValue = (value: string) => /[\s"|(),:=]/.test(value) ? `"${value.replace(/"/g, '')}"` : value
+
+/**
+ * Values a text column is filtered by with column:value, column:=value or column:(a|b) terms
+ */
+export function getQueryValues(query: string, column: string, columns: SearchColumn[]): string[] {
+  const values: string[] = []
+  for (const token of columnTerms(tokenize(query), column, columns)) {
+    const value = termValue(token).replace(/^=/, '')
+    if (/^[<>!]/.test(value)) continue
+    const list = value.match(/^\((.*)\)$/)
+    const items = list ? list[1].split('|') : [value]
+    values.push(...items.map(item => unquote(item.trim())).filter(Boolean))
+  }
+  return [...new Set(values)]
+}
+
+/**
+ * Replace a text column's column:value / column:(a|b) terms with one matching exactly any of `values`
+ * e.g. "price:<2m" + deal_type [Sales, Rent] -> "price:<2m deal_type:=(Sales|Rent)"
+ */
+export function setQueryValues(query: string, column: string, values: string[], columns: SearchColumn[]): string {
+  const tokens = tokenize(query)
+  const terms = columnTerms(tokens, column, columns).filter(token => !/^[<>!]/.test(termValue(token)))
+  const list = values.map(quoteListValue)
+  const term = list.length === 0 ? null : list.length === 1 ? `${column}:=${list[0]}` : `${column}:=(${list.join('|')})`
+  return replaceTerms(query, tokens, terms, term)
+}
+
+// Range of a number term; null for terms that are not a plain comparison or range
+function termRange(term: string): QueryRange | null {
+  const value = term.replace(/^=/, '')
+  const range = value.split('..')
+  if (range.length === 2) {
+    const [from, to] = range.map(part => part.trim() ? parseNumber(part.trim()) : null)
+    return { from, to }
+  }
+  const comparison = value.match(/^(>=|<=|>|<)?(.+)$/)
+  const number = comparison ? parseNumber(comparison[2]) : null
+  if (!comparison || number === null) return null
+  switch (comparison[1]) {
+    case '>':
+    case '>=':
+      return { from: number, to: null }
+    case '<':
+    case '<=':
+      return { from: null, to: number }
+    default:
+      return { from: number, to: number }
+  }
+}
+
+/**
+ * Range a number column is limited to by comparison and range terms (price:>=1m price:<=3m, price:1m..3m)
+ */
+export function getQueryRange(query: string, column: string, columns: SearchColumn[]): QueryRange {
+  const result: QueryRange = { from: null, to: null }
+  for (const token of columnTerms(tokenize(query), column, columns)) {
+    const range = termRange(termValue(token))
+    if (range?.from != null) result.from = range.from
+    if (range?.to != null) result.to = range.to
+  }
+  return result
+}
+
+/**
+ * Replace a number column's comparison and range terms with a single range term, e.g. price:1000000..3000000
+ */
+export function setQueryRange(query: string, column: string, range: QueryRange, columns: SearchColumn[]): string {
+  const tokens = tokenize(query)
+  const terms = columnTerms(tokens, column, columns).filter(token => termRange(termValue(token)) !== null)
+  const { from, to } = range
+  const term = from === null && to === null
+    ? null
+    : from === to
+      ? `${column}:${from}`
+      : `${column}:${from ?? ''}..${to ?? ''}`
+  return replaceTerms(query, tokens, terms, term)
+}
+
+/**
+ * Split a token into highlighted parts
+ */
+function chipSegments(token: Token): QuerySegment[] {
+  if (token.type !== 'term') {
+    return [{ kind: 'keyword', text: token.value }]
+  }
+  if (token.value.toLowerCase().startsWith('sort:')) {
+    return [{ kind: 'sort', text: token.value }]
+  }
+
+  const separatorIndex = separatorIndexOf(token.value)
+  const key = token.value.substring(0, separatorIndex)
+  if (separatorIndex <= 0 || !isColumnName(key)) {
+    return [{ kind: 'text', text: token.value }]
+  }
+
+  const operator = token.value.substring(separatorIndex).match(/^[:=](>=|<=|!=|=|>|<)?/)?.[0] || ''
+  return [
+    { kind: 'column', text: key },
+    { kind: 'operator', text: operator },
+    { kind: 'value', text: token.value.substring(separatorIndex + operator.length) },
+  ].filter(segment => segment.text) as QuerySegment[]
+}
+
+function toChips(tokens: Token[]): QueryChip[] {
+  const chips: QueryChip[] = []
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]
+    const next = tokens[index + 1]
+    // "-term" is shown as one chip
+    if (token.type === 'not' && token.value === '-' && next?.type === 'term' && next.start === token.end) {
+      chips.push({ start: token.start, end: next.end, segments: [{ kind: 'keyword', text: '-' }, ...chipSegments(next)] })
+      index++
       continue
     }
+    chips.push({ start: token.start, end: token.end, segments: chipSegments(token) })
+  }
+  return chips
+}
+
+/**
+ * Misplaced keywords: OR/AND without a term on both sides, NOT without a term after it
+ */
+function keywordDiagnostics(tokens: Token[]): QueryDiagnostic[] {
+  const diagnostics: QueryDiagnostic[] = []
+  const startsTerm = (token?: Token) => token?.type === 'term' || token?.type === 'lparen' || token?.type === 'not'
+  const endsTerm = (token?: Token) => token?.type === 'term' || token?.type === 'rparen'
+
+  tokens.forEach((token, index) => {
+    const remove = { label: `Remove ${token.value}`, start: token.start, end: token.end, text: '' }
+    if ((token.type === 'or' || token.type === 'and') && (!endsTerm(tokens[index - 1]) || !startsTerm(tokens[index + 1]))) {
+      diagnostics.push({ start: token.start, end: token.end, message: `${token.value} needs a term on both sides`, fixes: [remove] })
+    } else if (token.type === 'not' && !startsTerm(tokens[index + 1])) {
+      diagnostics.push({ start: token.start, end: token.end, message: `${token.value} needs a term after it`, fixes: [remove] })
+    }
+  })
+
+  return diagnostics
+}
+
+/**
+ * Parse query string to extract filters, search text, and sort
+ * Supports OR, AND (implicit between terms), NOT or a "-" prefix, parentheses
+ * and `column:(a|b|c)` lists, e.g. `(area:marina OR area:jvc) -deal_type:rent bedroom:(1|2)`.
+ * Number and date columns also take ranges (`price:1m..2.5m`), k/m/b shorthand (`price:<750k`)
+ * and relative dates (`date:>-30d`, `date:this_quarter`, `date:2024`).
+ */
+export function parseQuery(query: string, columns: SearchColumn[]): ParsedQuery {
+  const result: ParsedQuery = {
+    textSearch: '',
+    filters: [],
+    sort: [],
+    expression: null,
+    diagnostics: [],
+    chips: [],
+  }
+
+  if (!query.trim()) return result
+
+  const tokens = tokenize(query)
+  const report = (diagnostic: QueryDiagnostic) => result.diagnostics.push(diagnostic)
+  result.chips = toChips(tokens)
+  result.diagnostics.push(...keywordDiagnostics(tokens))
+  let position = 0
+
+  const peek = () => tokens[position]
+
+  const parseOr = (): QueryNode | null => {
+    const children = [parseAnd()]
+    while (peek()?.type === 'or') {
+      position++
+      children.push(parseAnd())
+    }
+    return group('or', children)
+  }
 
-    // Check for filters: column:value, column=value, column:>value, etc.
-    // Support both ':' and '=' separators
-    const colonIndex = part.indexOf(':')
-    const equalIndex = part.indexOf('=')
-    let separatorIndex = -1
-    
-    if (colonIndex > 0 && (equalIndex === -1 || colonIndex < equalIndex)) {
-      separatorIndex = colonIndex
-    } else if (equalIndex > 0) {
-      separatorIndex = equalIndex
-    }
-    
-    if (separatorIndex > 0) {
-      const keyPart = part.substring(0, separatorIndex).toLowerCase()
-      const valuePart = part.substring(separatorIndex + 1).trim()
-
-      // Check for operator
-      let operator = '='
-      let actualValue = valuePart
-
-      if (valuePart.startsWith('>=')) {
-        operator = '>='
-        actualValue = valuePart.substring(2).trim()
-      } else if (valuePart.startsWith('<=')) {
-        operator = '<='
-        actualValue = valuePart.substring(2).trim()
-      } else if (valuePart.startsWith('>')) {
-        operator = '>'
-        actualValue = valuePart.substring(1).trim()
-      } else if (valuePart.startsWith('<')) {
-        operator = '<'
-        actualValue = valuePart.substring(1).trim()
-      } else if (valuePart.startsWith('!=')) {
-        operator = '!='
-        actualValue = valuePart.substring(2).trim()
+  const parseAnd = (): QueryNode | null => {
+    const children: Array<QueryNode | null> = []
+    while (position < tokens.length) {
+      const token = peek()
+      if (token.type === 'or' || token.type === 'rparen') break
+      if (token.type === 'and') {
+        position++
+        continue
       }
+      children.push(parseUnary())
+    }
+    return group('and', children)
+  }
 
-      // Remove quotes
-      actualValue = actualValue.replace(/^["']|["']$/g, '')
-
-      // Find matching column
-      const column = columns.find(
-        col => col.key.toLowerCase() === keyPart ||
-        col.label.toLowerCase().replace(/\s+/g, '_') === keyPart ||
-        col.key.toLowerCase().replace(/_/g, '') === keyPart.replace(/_/g, '')
-      )
-
-      if (column && actualValue) {
-        // Validate date format if it's a date column
-        if (column.type === 'date') {
-          // Check if it's a valid date format (yyyy-MM-dd)
-          const dateRegex = /^\d{4}-\d{2}-\d{2}$/
-          if (!dateRegex.test(actualValue)) {
-            // Invalid date format, skip this filter
-            continue
-          }
-          // Additional validation: check if it's a valid date
-          const date = new Date(actualValue)
-          if (isNaN(date.getTime())) {
-            // Invalid date, skip this filter
-            continue
-          }
-          // Check if the date string matches the parsed date (prevents dates like "2025-0" or "2025-13-32")
-          const [year, month, day] = actualValue.split('-').map(Number)
-          if (date.getFullYear() !== year || date.getMonth() + 1 !== month || date.getDate() !== day) {
-            // Date doesn't match (e.g., "2025-0" becomes "2024-12-31")
-            continue
-          }
-        }
-        
-        result.filters.push({
-          column: column.key,
-          operator,
-          value: actualValue,
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++]
+
+    if (token.type === 'not') {
+      // A dangling NOT/"-" negates nothing
+      const next = peek()
+      if (!next || next.type === 'or' || next.type === 'and' || next.type === 'rparen') return null
+      const child = parseUnary()
+      if (!child) return null
+      return child.type === 'not' ? child.child : { type: 'not', child }
+    }
+
+    if (token.type === 'lparen') {
+      const node = parseOr()
+      // Tolerate a missing closing parenthesis while the user is still typing
+      if (peek()?.type === 'rparen') {
+        position++
+      } else {
+        report({
+          start: token.start,
+          end: token.end,
+          message: 'Missing closing parenthesis',
+          fixes: [{ label: 'Add )', start: query.length, end: query.length, text: ')' }],
         })
-        continue
       }
+      return node
     }
 
-    // Otherwise it's text search
-    textParts.push(part.replace(/^["']|["']$/g, ''))
+    if (token.type === 'term') {
+      const context = { columns, start: token.start, report }
+      // Check for sort: sort:column, sort:column:direction or sort:a:desc,b:asc (the last valid one wins)
+      if (token.value.toLowerCase().startsWith('sort:')) {
+        const sort = parseSort(token.value, context)
+        if (sort.length > 0) result.sort = sort
+        return null
+      }
+      return parseTerm(token.value, context)
+    }
+
+    return null
+  }
+
+  const roots: Array<QueryNode | null> = []
+  while (position < tokens.length) {
+    roots.push(parseOr())
+    // Ignore unbalanced closing parentheses
+    const token = peek()
+    if (token?.type === 'rparen') {
+      report({
+        start: token.start,
+        end: token.end,
+        message: 'Unmatched closing parenthesis',
+        fixes: [{ label: 'Remove )', start: token.start, end: token.end, text: '' }],
+      })
+      position++
+    }
+  }
+  result.diagnostics.sort((a, b) => a.start - b.start)
+  result.expression = group('and', roots)
+
+  // Plain terms that are ANDed at the top level, for callers that do not handle the full expression
+  const topLevel = result.expression?.type === 'and' ? result.expression.children : [result.expression]
+  for (const node of topLevel) {
+    if (node?.type === 'filter') {
+      result.filters.push({ column: node.column, operator: node.operator, value: node.value })
+    } else if (node?.type === 'text') {
+      result.textSearch = node.value
+    }
   }
 
-  result.textSearch = textParts.join(' ')
   return result
 }
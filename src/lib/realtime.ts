@@ -0,0 +1,104 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { isMockBackend, subscribeMockChanges } from '@/lib/mock-backend'
+import { markQueriesStale } from '@/lib/query-cache'
+
+type Row = Record<string, unknown>
+
+export type RowChangeType = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface RowChange<T> {
+  type: RowChangeType
+  table: string
+  // Row after the change (null for deletes)
+  record: T | null
+  // Row before the change; Supabase only sends the primary key unless the table has REPLICA IDENTITY FULL
+  previous: Partial<T> | null
+}
+
+export interface SubscribeOptions {
+  // Realtime row filter, e.g. "id=eq.42" (the mock backend supports eq only)
+  filter?: string
+}
+
+let channelCount = 0
+
+const isEmpty = (row: Row | null | undefined) => !row || Object.keys(row).length === 0
+
+/**
+ * Normalize a raw change event
+ * Soft deletes arrive as updates that set deleted_at; they are reported as deletes
+ * (and restores as inserts) so list views can treat them like any other delete.
+ */
+function toRowChange<T>(table: string, eventType: RowChangeType, next: Row, old: Row): RowChange<T> {
+  const record = isEmpty(next) ? null : next
+  const previous = isEmpty(old) ? null : old
+  let type = eventType
+
+  if (eventType === 'UPDATE' && record?.deleted_at) {
+    type = 'DELETE'
+  } else if (eventType === 'UPDATE' && previous?.deleted_at && !record?.deleted_at) {
+    type = 'INSERT'
+  }
+
+  return {
+    type,
+    table,
+    record: type === 'DELETE' ? null : record as T | null,
+    previous: (previous ?? (type === 'DELETE' ? record : null)) as Partial<T> | null,
+  }
+}
+
+function matchesFilter(row: Row, filter?: string): boolean {
+  if (!filter) return true
+  const match = filter.match(/^([^=]+)=eq\.(.*)$/)
+  if (!match) return true
+  return String(row[match[1]]) === match[2]
+}
+
+/**
+ * Subscribe to row-level changes on a table
+ * Cached queries for the table are marked stale on every change. Returns an unsubscribe function.
+ */
+export function subscribeToTable<T = Row>(
+  table: string,
+  listener: (change: RowChange<T>) => void,
+  { filter }: SubscribeOptions = {}
+): () => void {
+  const handle = (change: RowChange<T>) => {
+    markQueriesStale(table)
+    listener(change)
+  }
+
+  if (isMockBackend) {
+    let unsubscribe: (() => void) | null = null
+    let closed = false
+    subscribeMockChanges((change) => {
+      if (change.table !== table) return
+      if (!matchesFilter(change.eventType === 'DELETE' ? change.old : change.new, filter)) return
+      handle(toRowChange<T>(table, change.eventType, change.new, change.old))
+    }).then((stop) => {
+      if (closed) stop()
+      else unsubscribe = stop
+    })
+    return () => {
+      closed = true
+      unsubscribe?.()
+    }
+  }
+
+  const channel = supabase
+    .channel(`${table}:${filter || '*'}:${++channelCount}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter },
+      (payload: RealtimePostgresChangesPayload<Row>) => {
+        handle(toRowChange<T>(table, payload.eventType, payload.new as Row, payload.old as Row))
+      }
+    )
+    .subscribe()
+
+  return () => {
+    void supabase.removeChannel(channel)
+  }
+}
@@ -0,0 +1,232 @@
+import { RECYCLE_BIN_RETENTION_DAYS } from '@/config/recycle-bin'
+import { areaRepository } from '@/lib/repositories/area'
+import { contactRepository } from '@/lib/repositories/contact'
+import { developerRepository } from '@/lib/repositories/developer'
+import { projectRepository } from '@/lib/repositories/project'
+import { projectMediaRepository } from '@/lib/repositories/project-media'
+import { projectTravelTimeRepository } from '@/lib/repositories/project-travel-time'
+import { projectPaymentPlanRepository } from '@/lib/repositories/project-payment-plan'
+import { propertyRepository } from '@/lib/repositories/property'
+import { propertyTransactionRepository } from '@/lib/repositories/property-transaction'
+import type { Filter, ListParams, ListResult, RemoveOptions, RequestOptions } from '@/lib/repositories/base'
+import type { DeletedRecord } from '@/types/recycle-bin'
+
+// The parts of a soft-delete repository the recycle bin relies on
+interface RecycleBinRepository {
+  table: string
+  list(params?: ListParams, options?: RequestOptions): Promise<ListResult<unknown>>
+  count(params?: Pick<ListParams, 'filters' | 'or' | 'deleted'>, options?: RequestOptions): Promise<number>
+  removeWhere(filters: Filter[], options?: RemoveOptions): Promise<void>
+  restoreWhere(filters: Filter[], options?: RequestOptions): Promise<unknown[]>
+  purgeWhere(filters: Filter[], options?: RequestOptions): Promise<unknown[]>
+}
+
+interface RecycleBinChild {
+  repository: RecycleBinRepository
+  foreignKey: string
+}
+
+export interface RecycleBinEntity {
+  table: string
+  label: string
+  repository: RecycleBinRepository
+  // Short human-readable name for a deleted row
+  describe: (row: DeletedRecord) => string
+  // Rows deleted, restored and purged together with the parent
+  children?: RecycleBinChild[]
+}
+
+const text = (value: unknown, fallback: string) =>
+  value === null || value === undefined || value === '' ? fallback : String(value)
+
+/**
+ * Every entity with soft delete, in the order shown on the Recycle Bin page
+ */
+export const RECYCLE_BIN_ENTITIES: RecycleBinEntity[] = [
+  {
+    table: 'project',
+    label: 'Projects',
+    repository: projectRepository,
+    describe: row => text(row.title, `Project #${row.id}`),
+    children: [
+      { repository: projectMediaRepository, foreignKey: 'project_id' },
+      { repository: projectTravelTimeRepository, foreignKey: 'project_id' },
+      { repository: projectPaymentPlanRepository, foreignKey: 'project_id' },
+    ],
+  },
+  {
+    table: 'property',
+    label: 'Properties',
+    repository: propertyRepository,
+    describe: row => `${text(row.type, 'Property')} #${row.id}${row.pf_id ? ` (${row.pf_id})` : ''}`,
+  },
+  {
+    table: 'property_transaction',
+    label: 'Database',
+    repository: propertyTransactionRepository,
+    describe: row => [row.project_name, row.unit_number && `Unit ${row.unit_number}`, row.date]
+      .filter(Boolean)
+      .join(' · ') || `Transaction #${row.id}`,
+  },
+  {
+    table: 'contact',
+    label: 'Contacts',
+    repository: contactRepository,
+    describe: row => text(row.full_name, `Contact #${row.id}`),
+  },
+  {
+    table: 'developer',
+    label: 'Developers',
+    repository: developerRepository,
+    describe: row => text(row.title, `Developer #${row.id}`),
+  },
+  {
+    table: 'area',
+    label: 'Areas',
+    repository: areaRepository,
+    describe: row => `${text(row.title, `Area #${row.id}`)}${row.city ? `, ${row.city}` : ''}`,
+  },
+  {
+    table: 'project_media',
+    label: 'Project media',
+    repository: projectMediaRepository,
+    describe: row => `${row.video ? 'Video' : 'Image'} of project #${row.project_id}`,
+  },
+  {
+    table: 'project_travel_time',
+    label: 'Project travel times',
+    repository: projectTravelTimeRepository,
+    describe: row => `${text(row.icon, 'Travel time')} (${text(row.minutes, '?')} min) of project #${row.project_id}`,
+  },
+  {
+    table: 'project_payment_plan',
+    label: 'Project payment plans',
+    repository: projectPaymentPlanRepository,
+    describe: row => `${text(row.title, 'Payment plan')} (${text(row.percentage, '?')}%) of project #${row.project_id}`,
+  },
+]
+
+export function getRecycleBinEntity(table: string): RecycleBinEntity {
+  const entity = RECYCLE_BIN_ENTITIES.find(item => item.table === table)
+  if (!entity) {
+    throw new Error(`${table} does not have a recycle bin`)
+  }
+  return entity
+}
+
+const idsFilter = (rows: DeletedRecord[]): Filter => ({
+  column: 'id',
+  operator: 'in',
+  value: rows.map(row => row.id),
+})
+
+// Records moved to the recycle bin by a single delete action
+export interface DeletedBatch {
+  table: string
+  ids: number[]
+  deletedAt: string
+}
+
+/**
+ * Move records (and their child rows) to the recycle bin
+ * Children share the parent's deleted_at so a restore brings back exactly what this delete removed.
+ */
+export async function deleteRecords(table: string, ids: number[]): Promise<DeletedBatch> {
+  const entity = getRecycleBinEntity(table)
+  const deletedAt = new Date().toISOString()
+
+  if (ids.length > 0) {
+    for (const child of entity.children || []) {
+      await child.repository.removeWhere([{ column: child.foreignKey, operator: 'in', value: ids }], { deletedAt })
+    }
+    await entity.repository.removeWhere([{ column: 'id', operator: 'in', value: ids }], { deletedAt })
+  }
+
+  return { table, ids, deletedAt }
+}
+
+export function deleteRecord(table: string, id: number): Promise<DeletedBatch> {
+  return deleteRecords(table, [id])
+}
+
+/**
+ * Reverse a delete: restore the records and the child rows removed with them
+ */
+export function undoDelete(batch: DeletedBatch): Promise<void> {
+  return restoreRecords(
+    batch.table,
+    batch.ids.map(id => ({ id, deleted_at: batch.deletedAt, deleted_by: null }))
+  )
+}
+
+/**
+ * Restore deleted records together with the child rows deleted alongside them
+ */
+export async function restoreRecords(table: string, rows: DeletedRecord[]): Promise<void> {
+  if (rows.length === 0) return
+  const entity = getRecycleBinEntity(table)
+
+  await entity.repository.restoreWhere([idsFilter(rows)])
+
+  for (const row of rows) {
+    for (const child of entity.children || []) {
+      await child.repository.restoreWhere([
+        { column: child.foreignKey, operator: 'eq', value: row.id },
+        { column: 'deleted_at', operator: 'eq', value: row.deleted_at },
+      ])
+    }
+  }
+}
+
+/**
+ * Permanently remove deleted records and their child rows that are past the retention period
+ * Children deleted with the parent share its deleted_at, so they expire with it; a child deleted
+ * on its own later keeps its own retention period, and its parent stays in the recycle bin
+ * until the child can go too. Returns the number of records purged.
+ */
+export async function purgeRecords(table: string, rows: DeletedRecord[]): Promise<number> {
+  const expired = rows.filter(isPurgeable)
+  if (expired.length === 0) return 0
+  const entity = getRecycleBinEntity(table)
+  const retention: Filter = { column: 'deleted_at', operator: 'lt', value: retentionCutoff() }
+  // Parents that still have child rows after the purge
+  const kept = new Set<number>()
+
+  // Children first so foreign keys never point at a missing parent
+  for (const child of entity.children || []) {
+    const ofExpired: Filter = { column: child.foreignKey, operator: 'in', value: expired.map(row => row.id) }
+    await child.repository.purgeWhere([ofExpired, retention])
+    const { data } = await child.repository.list({ select: child.foreignKey, filters: [ofExpired], deleted: 'include' })
+    for (const row of data as Array<Record<string, unknown>>) {
+      kept.add(Number(row[child.foreignKey]))
+    }
+  }
+
+  const purgeable = expired.filter(row => !kept.has(row.id))
+  if (purgeable.length > 0) {
+    await entity.repository.purgeWhere([idsFilter(purgeable), retention])
+  }
+  return purgeable.length
+}
+
+/**
+ * Date from which a deleted record may be purged
+ */
+export function purgeableFrom(row: Pick<DeletedRecord, 'deleted_at'>): Date {
+  const date = new Date(row.deleted_at)
+  date.setDate(date.getDate() + RECYCLE_BIN_RETENTION_DAYS)
+  return date
+}
+
+export function isPurgeable(row: Pick<DeletedRecord, 'deleted_at'>): boolean {
+  return purgeableFrom(row).getTime() <= Date.now()
+}
+
+/**
+ * deleted_at cut-off for records that are past the retention period
+ */
+export function retentionCutoff(): string {
+  const date = new Date()
+  date.setDate(date.getDate() - RECYCLE_BIN_RETENTION_DAYS)
+  return date.toISOString()
+}
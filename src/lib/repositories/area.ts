@@ -0,0 +1,4 @@
+import type { Area } from '@/types/area'
+import { createRepository } from './base'
+
+export const areaRepository = createRepository<Area>('area', 'id', { softDelete: true })
@@ -0,0 +1,5 @@
+import type { AuditLog } from '@/types/audit'
+import { createRepository } from './base'
+
+// The audit log itself is never audited
+export const auditLogRepository = createRepository<AuditLog>('audit_log', 'id', { audit: false })
@@ -0,0 +1,614 @@
+import type { AxiosRequestConfig } from 'axios'
+import { supabaseApi } from '@/lib/api'
+import { fetchQuery, invalidateQueries, peekQuery, queryKey, type FetchQueryOptions } from '@/lib/query-cache'
+import { getAuditActor, recordSavedAudit, type AuditEntry } from '@/lib/audit'
+
+/**
+ * PostgREST operators supported by the repository layer
+ */
+export type FilterOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'like'
+  | 'ilike'
+  | 'is'
+  | 'in'
+  // Full-text match against a tsvector column, with the text search configuration, e.g. fts(simple)
+  | `fts(${string})`
+
+export type FilterValue = string | number | boolean | null | Array<string | number>
+
+export interface Filter {
+  column: string
+  operator: FilterOperator
+  value: FilterValue
+  negate?: boolean
+}
+
+export interface SortOrder {
+  column: string
+  direction: 'asc' | 'desc'
+}
+
+export interface ListParams {
+  select?: string
+  filters?: Filter[]
+  // Conditions combined with OR (e.g. text search across several columns)
+  or?: Filter[]
+  // PostgREST logic trees, each ANDed with the filters (the inside of or=(...), see query-compiler)
+  logic?: string[]
+  order?: SortOrder[]
+  limit?: number
+  offset?: number
+  count?: boolean
+  // Soft-deleted rows are hidden unless asked for (soft-delete repositories only)
+  deleted?: 'exclude' | 'include' | 'only'
+}
+
+export interface ListResult<T> {
+  data: T[]
+  count: number | null
+}
+
+// A distinct value of a column and how many rows have it
+export interface ColumnValue {
+  value: string
+  count: number
+}
+
+export interface ColumnValues {
+  // Most common values first
+  values: ColumnValue[]
+  // False when not every value is listed: more rows matched than were scanned (counts are then lower bounds),
+  // or the column has more distinct values than are counted exactly
+  complete: boolean
+}
+
+// Smallest and largest value of a numeric column
+export interface ColumnRange {
+  min: number
+  max: number
+}
+
+// Conditions narrowing the rows values and ranges are collected from
+export type ScopeParams = Pick<ListParams, 'filters' | 'or' | 'logic' | 'deleted'>
+
+export interface RequestOptions {
+  accessToken?: string
+}
+
+export interface RemoveOptions extends RequestOptions {
+  // Timestamp stamped on soft-deleted rows; pass the same value to delete a record and its children together
+  deletedAt?: string
+}
+
+export interface GetOptions extends RequestOptions {
+  // A soft-deleted record is not found unless asked for (soft-delete repositories only)
+  deleted?: ListParams['deleted']
+}
+
+export interface UpdateOptions extends RequestOptions {
+  // updated_at the record was loaded with; the update only applies if nobody has changed it since
+  expectedUpdatedAt?: string | null
+}
+
+/**
+ * Thrown by a conditional update when the record changed (or was deleted) after it was loaded
+ * `current` holds the latest version of the record, or null when it no longer exists.
+ */
+export class StaleRecordError<T = unknown> extends Error {
+  table: string
+  current: T | null
+
+  constructor(table: string, current: T | null) {
+    super(current
+      ? `This ${table} record was changed by someone else`
+      : `This ${table} record was deleted by someone else`)
+    this.name = 'StaleRecordError'
+    this.table = table
+    this.current = current
+  }
+}
+
+export function isStaleRecordError<T = unknown>(error: unknown): error is StaleRecordError<T> {
+  return error instanceof StaleRecordError
+}
+
+/**
+ * Thrown by updateMany when some of the rows could not be updated
+ * `updated` holds the rows that were, `failed` the ids that were not; the first error is the cause.
+ */
+export class PartialUpdateError<T = unknown, Id = unknown> extends Error {
+  table: string
+  updated: T[]
+  failed: Id[]
+
+  constructor(table: string, updated: T[], failed: Id[], cause: unknown) {
+    super(`${failed.length} ${table} record${failed.length === 1 ? '' : 's'} could not be updated`, { cause })
+    this.name = 'PartialUpdateError'
+    this.table = table
+    this.updated = updated
+    this.failed = failed
+  }
+}
+
+// Fields managed by the database are never sent on create/update
+export type EntityInput<T> = Partial<Omit<T, 'id' | 'created_at' | 'updated_at' | 'deleted_at' | 'deleted_by'>>
+
+export interface RepositoryOptions {
+  // Record every create/update/delete in the audit log (default: true)
+  audit?: boolean
+  // Deletes set deleted_at/deleted_by instead of removing the row (default: false)
+  softDelete?: boolean
+}
+
+export interface Repository<T, K extends keyof T> {
+  table: string
+  list(params?: ListParams, options?: RequestOptions): Promise<ListResult<T>>
+  // Cached list: served from the query cache and revalidated when stale
+  query(params?: ListParams, options?: FetchQueryOptions<ListResult<T>>): Promise<ListResult<T>>
+  peek(params?: ListParams): ListResult<T> | undefined
+  get(id: T[K], select?: string, options?: GetOptions): Promise<T | null>
+  create(values: EntityInput<T>, options?: RequestOptions): Promise<T>
+  // Insert several rows in one request
+  createMany(values: Array<EntityInput<T>>, options?: RequestOptions): Promise<T[]>
+  update(id: T[K], values: EntityInput<T>, options?: UpdateOptions): Promise<T | null>
+  // Update several rows by id; rows that are gone or in the recycle bin are skipped and left out of the result.
+  // Throws a PartialUpdateError listing the rows that were and were not updated when a request fails.
+  updateMany(values: Array<EntityInput<T> & Pick<T, K>>, options?: RequestOptions): Promise<T[]>
+  remove(id: T[K], options?: RemoveOptions): Promise<void>
+  removeMany(ids: Array<T[K]>, options?: RemoveOptions): Promise<void>
+  removeWhere(filters: Filter[], options?: RemoveOptions): Promise<void>
+  // Recycle bin (soft-delete repositories only)
+  restoreWhere(filters: Filter[], options?: RequestOptions): Promise<T[]>
+  purgeWhere(filters: Filter[], options?: RequestOptions): Promise<T[]>
+  count(params?: ScopeParams, options?: RequestOptions): Promise<number>
+  // Distinct values of a column with row counts, optionally narrowed to values containing `search` (cached)
+  distinctValues(column: string, search?: string, options?: FetchQueryOptions<ColumnValues>): Promise<ColumnValues>
+  // Distinct values of a column with exact row counts among the rows matching `params` (cached)
+  valueCounts(column: string, params?: ScopeParams, options?: FetchQueryOptions<ColumnValues>): Promise<ColumnValues>
+  // Range of a numeric column among the rows matching `params`; null when no row has a value (cached)
+  valueRange(column: string, params?: ScopeParams, options?: FetchQueryOptions<ColumnRange | null>): Promise<ColumnRange | null>
+}
+
+// Rows read when collecting the distinct values of a column
+const VALUE_SCAN_LIMIT = 2000
+// Rows updateMany patches at the same time
+const UPDATE_CONCURRENCY = 10
+// Distinct values valueCounts counts exactly, and the count requests it sends at the same time
+const COUNTED_VALUES_LIMIT = 50
+const COUNT_CONCURRENCY = 6
+
+/**
+ * Convert a page number into PostgREST limit/offset
+ */
+export function pageRange(page: number, pageSize: number): { limit: number; offset: number } {
+  return {
+    limit: pageSize,
+    offset: (Math.max(page, 1) - 1) * pageSize,
+  }
+}
+
+/**
+ * Read the total row count from a Content-Range header (e.g. "0-9/120")
+ */
+export function parseContentRange(contentRange: string | undefined | null): number | null {
+  if (!contentRange) return null
+  const match = contentRange.match(/\/(\d+)/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+// Values containing PostgREST reserved characters must be double-quoted
+function quoteValue(value: string | number): string {
+  const str = String(value)
+  return /[,()"]/.test(str) ? `"${str.replace(/"/g, '\\"')}"` : str
+}
+
+/**
+ * Operand of a filter as PostgREST expects it after "operator.", e.g. "(a,b)" for in, "null" for is
+ * Set `quote` inside logic trees, where reserved characters must be quoted.
+ */
+export function filterOperand(filter: Filter, quote = false): string {
+  if (filter.operator === 'in') {
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value as string | number]
+    return `(${values.map(quoteValue).join(',')})`
+  }
+
+  if (filter.operator === 'is') {
+    return filter.value === null ? 'null' : String(filter.value)
+  }
+
+  const value = String(filter.value)
+  return quote ? quoteValue(value) : value
+}
+
+function formatFilterValue(filter: Filter, quote = false): string {
+  return `${filter.negate ? 'not.' : ''}${filter.operator}.${filterOperand(filter, quote)}`
+}
+
+/**
+ * A filter as a condition of a logic tree, e.g. price.not.gt.500000
+ */
+export function formatCondition(filter: Filter): string {
+  return `${filter.column}.${formatFilterValue(filter, true)}`
+}
+
+/**
+ * Build PostgREST query params from repository list params
+ */
+export function buildParams(params: ListParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams()
+  searchParams.set('select', params.select || '*')
+
+  for (const filter of params.filters || []) {
+    searchParams.append(filter.column, formatFilterValue(filter))
+  }
+
+  if (params.or && params.or.length > 0) {
+    searchParams.append('or', `(${params.or.map(formatCondition).join(',')})`)
+  }
+
+  for (const tree of params.logic || []) {
+    searchParams.append('or', `(${tree})`)
+  }
+
+  if (params.order && params.order.length > 0) {
+    searchParams.set('order', params.order.map(o => `${o.column}.${o.direction}`).join(','))
+  }
+
+  if (params.limit !== undefined) {
+    searchParams.set('limit', String(params.limit))
+  }
+
+  if (params.offset !== undefined) {
+    searchParams.set('offset', String(params.offset))
+  }
+
+  return searchParams
+}
+
+function requestConfig(options?: RequestOptions, headers: Record<string, string> = {}): AxiosRequestConfig {
+  return {
+    headers: {
+      ...headers,
+      ...(options?.accessToken ? { 'Authorization': `Bearer ${options.accessToken}` } : {}),
+    },
+  }
+}
+
+/**
+ * Create a typed repository for a Supabase table
+ * `idColumn` is the column used by get/update/remove (defaults to "id")
+ */
+export function createRepository<T, K extends keyof T & string = 'id' & keyof T & string>(
+  table: string,
+  idColumn: K = 'id' as K,
+  { audit = true, softDelete = false }: RepositoryOptions = {}
+): Repository<T, K> {
+  const idFilter = (id: T[K]): Filter => ({
+    column: idColumn,
+    operator: 'eq',
+    value: id as unknown as string | number,
+  })
+
+  // Filters that keep soft-deleted rows out of (or restrict to) a query
+  const deletedFilters = (deleted: ListParams['deleted'] = 'exclude'): Filter[] => {
+    if (!softDelete || deleted === 'include') return []
+    return [{ column: 'deleted_at', operator: 'is', value: null, negate: deleted === 'only' }]
+  }
+
+  const scopedParams = (params: ListParams = {}): URLSearchParams =>
+    buildParams({ ...params, filters: [...deletedFilters(params.deleted), ...(params.filters || [])] })
+
+  const listKey = (params: ListParams = {}) =>
+    queryKey(table, 'list', `${scopedParams(params).toString()}&count=${Boolean(params.count)}`)
+
+  const list = async (params: ListParams = {}, options?: RequestOptions): Promise<ListResult<T>> => {
+    const response = await supabaseApi.get<T[]>(`/${table}`, {
+      ...requestConfig(options, params.count ? { 'Prefer': 'count=exact' } : {}),
+      params: scopedParams(params),
+    })
+
+    return {
+      data: response.data || [],
+      count: parseContentRange(response.headers['content-range']),
+    }
+  }
+
+  const get = async (id: T[K], select?: string, options?: GetOptions): Promise<T | null> => {
+    const response = await supabaseApi.get<T[]>(`/${table}`, {
+      ...requestConfig(options),
+      params: buildParams({ select, filters: [...deletedFilters(options?.deleted), idFilter(id)], limit: 1 }),
+    })
+    return response.data?.[0] ?? null
+  }
+
+  // `before` is the row before an update, or the rows before a bulk update by id
+  // Awaited by every mutation; a log entry that cannot be written is only warned about
+  const auditRows = async (action: AuditEntry['action'], rows: T[], before: T | Map<T[K], T> | null = null) => {
+    if (!audit) return
+    const isAddition = action === 'create' || action === 'restore'
+    const isRemoval = action === 'delete' || action === 'purge'
+    const previous = (row: T) => before instanceof Map ? before.get(row[idColumn]) : before
+    await recordSavedAudit(table, rows.map(row => ({
+      action,
+      recordId: row[idColumn],
+      before: (isAddition ? null : previous(row) ?? row) as Record<string, unknown> | null,
+      after: (isRemoval ? null : row) as Record<string, unknown> | null,
+    })))
+  }
+
+  // Deletes return the removed rows when auditing so they can be logged
+  const deleteConfig = (options?: RequestOptions) =>
+    requestConfig(options, audit ? { 'Prefer': 'return=representation' } : {})
+
+  const hardDelete = async (filters: Filter[], options?: RequestOptions): Promise<T[]> => {
+    const response = await supabaseApi.delete<T[]>(`/${table}`, {
+      ...deleteConfig(options),
+      params: buildParams({ filters }),
+    })
+    invalidateQueries(table)
+    return response.data || []
+  }
+
+  const patchWhere = async (filters: Filter[], values: Record<string, unknown>, options?: RequestOptions): Promise<T[]> => {
+    const response = await supabaseApi.patch<T[]>(`/${table}`, values, {
+      ...requestConfig(options, { 'Prefer': 'return=representation' }),
+      params: buildParams({ filters }),
+    })
+    invalidateQueries(table)
+    return response.data || []
+  }
+
+  const destroy = async (filters: Filter[], options?: RemoveOptions): Promise<void> => {
+    if (!softDelete) {
+      await auditRows('delete', await hardDelete(filters, options))
+      return
+    }
+
+    const deleted = await patchWhere([...deletedFilters('exclude'), ...filters], {
+      deleted_at: options?.deletedAt || new Date().toISOString(),
+      deleted_by: getAuditActor()?.id ?? null,
+    }, options)
+    await auditRows('delete', deleted)
+  }
+
+  const countRows = async (params: ScopeParams = {}, options?: RequestOptions): Promise<number> => {
+    const response = await supabaseApi.head(`/${table}`, {
+      ...requestConfig(options, { 'Prefer': 'count=exact' }),
+      params: scopedParams(params),
+    })
+    return parseContentRange(response.headers['content-range']) ?? 0
+  }
+
+  // Count the values of a column in (up to VALUE_SCAN_LIMIT of) the matching rows
+  const countValues = async (column: string, params: ScopeParams = {}): Promise<ColumnValues> => {
+    const filters: Filter[] = [{ column, operator: 'is', value: null, negate: true }, ...(params.filters || [])]
+    const { data } = await list({ ...params, select: column, filters, limit: VALUE_SCAN_LIMIT })
+    const counts = new Map<string, number>()
+    for (const row of data as Record<string, unknown>[]) {
+      const value = String(row[column]).trim()
+      if (value) counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+
+    return {
+      values: Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count),
+      complete: data.length < VALUE_SCAN_LIMIT,
+    }
+  }
+
+  // Exact row count of each value of a column among the matching rows (up to COUNTED_VALUES_LIMIT values)
+  // Aggregate functions are not enabled on the API, so the distinct values are found one at a time
+  // (the smallest value after the last one found) and each is counted with Prefer: count=exact.
+  const countValuesExactly = async (column: string, params: ScopeParams = {}): Promise<ColumnValues> => {
+    const values: unknown[] = []
+    let complete = false
+    while (values.length < COUNTED_VALUES_LIMIT) {
+      const after: Filter[] = values.length > 0
+        ? [{ column, operator: 'gt', value: values[values.length - 1] as string | number }]
+        : []
+      const { data } = await list({
+        ...params,
+        select: column,
+        filters: [{ column, operator: 'is', value: null, negate: true }, ...after, ...(params.filters || [])],
+        order: [{ column, direction: 'asc' }],
+        limit: 1,
+      })
+      const next = (data[0] as Record<string, unknown> | undefined)?.[column]
+      if (next === undefined) {
+        complete = true
+        break
+      }
+      values.push(next)
+    }
+
+    const counted: ColumnValue[] = []
+    const listed = values.filter(value => String(value).trim())
+    for (let start = 0; start < listed.length; start += COUNT_CONCURRENCY) {
+      counted.push(...await Promise.all(listed.slice(start, start + COUNT_CONCURRENCY).map(async value => ({
+        value: String(value),
+        count: await countRows({
+          ...params,
+          filters: [{ column, operator: 'eq', value: value as string | number }, ...(params.filters || [])],
+        }),
+      }))))
+    }
+
+    return { values: counted.sort((a, b) => b.count - a.count), complete }
+  }
+
+  const requireSoftDelete = (filters: Filter[], action: string) => {
+    if (!softDelete) {
+      throw new Error(`${table} does not support ${action}`)
+    }
+    // Never allow an unfiltered restore/purge
+    if (filters.length === 0) {
+      throw new Error(`Refusing to ${action} ${table} without filters`)
+    }
+  }
+
+  return {
+    table,
+
+    list,
+
+    query(params = {}, options) {
+      return fetchQuery(listKey(params), () => list(params), options)
+    },
+
+    peek(params = {}) {
+      return peekQuery<ListResult<T>>(listKey(params))
+    },
+
+    get,
+
+    async create(values, options) {
+      const response = await supabaseApi.post<T[] | T>(`/${table}`, values, requestConfig(options, {
+        'Prefer': 'return=representation',
+      }))
+      invalidateQueries(table)
+      const created = (Array.isArray(response.data) ? response.data[0] : response.data) as T
+      await auditRows('create', created ? [created] : [])
+      return created
+    },
+
+    async createMany(values, options) {
+      if (values.length === 0) return []
+      const response = await supabaseApi.post<T[]>(`/${table}`, values, requestConfig(options, {
+        'Prefer': 'return=representation',
+      }))
+      invalidateQueries(table)
+      const created = response.data || []
+      await auditRows('create', created)
+      return created
+    },
+
+    async update(id, values, options) {
+      const before = audit ? await get(id, undefined, { ...options, deleted: 'include' }) : null
+      const expectedUpdatedAt = options?.expectedUpdatedAt
+      const conditional = expectedUpdatedAt != null
+      const filters: Filter[] = [idFilter(id)]
+      if (conditional) {
+        filters.push({ column: 'updated_at', operator: 'eq', value: expectedUpdatedAt })
+      }
+      // Conditional updates bump updated_at themselves so the next check sees this write
+      const body = conditional ? { ...values, updated_at: new Date().toISOString() } : values
+      const response = await supabaseApi.patch<T[]>(`/${table}`, body, {
+        ...requestConfig(options, { 'Prefer': 'return=representation' }),
+        params: buildParams({ filters }),
+      })
+      invalidateQueries(table)
+      const updated = response.data?.[0] ?? null
+      if (conditional && !updated) {
+        const current = await get(id, undefined, { ...options, deleted: 'include' })
+        const isDeleted = softDelete && Boolean((current as { deleted_at?: string | null } | null)?.deleted_at)
+        throw new StaleRecordError<T>(table, isDeleted ? null : current)
+      }
+      await auditRows('update', updated ? [updated] : [], before)
+      return updated
+    },
+
+    async updateMany(values, options) {
+      if (values.length === 0) return []
+      const ids = values.map(value => value[idColumn])
+      const idsFilter: Filter = { column: idColumn, operator: 'in', value: ids as unknown as Array<string | number> }
+      const before = audit
+        ? new Map((await list({ filters: [idsFilter] }, options)).data.map(row => [row[idColumn], row]))
+        : undefined
+      // One PATCH per row, so rows that were deleted (or soft-deleted) in the meantime are left alone
+      const updated: T[] = []
+      const failed: Array<T[K]> = []
+      let cause: unknown = null
+      for (let start = 0; start < values.length; start += UPDATE_CONCURRENCY) {
+        const batch = values.slice(start, start + UPDATE_CONCURRENCY)
+        // After a failed request the remaining rows are not attempted
+        if (cause !== null) {
+          failed.push(...batch.map(value => value[idColumn] as T[K]))
+          continue
+        }
+        const results = await Promise.allSettled(batch.map(({ [idColumn]: id, ...changes }) =>
+          patchWhere([...deletedFilters('exclude'), idFilter(id as T[K])], changes, options)
+        ))
+        results.forEach((result, index) => {
+          if (result.status === 'fulfilled') {
+            updated.push(...result.value)
+          } else {
+            failed.push(batch[index][idColumn] as T[K])
+            if (cause === null) cause = result.reason
+          }
+        })
+      }
+      await auditRows('update', updated, before)
+      if (cause !== null) throw new PartialUpdateError<T, T[K]>(table, updated, failed, cause)
+      return updated
+    },
+
+    async remove(id, options) {
+      await destroy([idFilter(id)], options)
+    },
+
+    async removeMany(ids, options) {
+      if (ids.length === 0) return
+      await destroy([{ column: idColumn, operator: 'in', value: ids as unknown as Array<string | number> }], options)
+    },
+
+    async removeWhere(filters, options) {
+      // Never allow an unfiltered DELETE
+      if (filters.length === 0) {
+        throw new Error(`Refusing to delete from ${table} without filters`)
+      }
+      await destroy(filters, options)
+    },
+
+    async restoreWhere(filters, options) {
+      requireSoftDelete(filters, 'restore')
+      const restored = await patchWhere([...deletedFilters('only'), ...filters], {
+        deleted_at: null,
+        deleted_by: null,
+      }, options)
+      await auditRows('restore', restored)
+      return restored
+    },
+
+    async purgeWhere(filters, options) {
+      requireSoftDelete(filters, 'purge')
+      // Only rows already in the recycle bin can be purged
+      const purged = await hardDelete([...deletedFilters('only'), ...filters], options)
+      await auditRows('purge', purged)
+      return purged
+    },
+
+    count(params = {}, options) {
+      return countRows(params, options)
+    },
+
+    distinctValues(column, search = '', options) {
+      // "*" is the PostgREST wildcard; the search term itself is matched literally
+      const term = search.replace(/\*/g, '').trim()
+      return fetchQuery(queryKey(table, 'values', column, term.toLowerCase()), () => countValues(column, {
+        filters: term ? [{ column, operator: 'ilike', value: `*${term}*` }] : [],
+      }), options)
+    },
+
+    valueCounts(column, params = {}, options) {
+      return fetchQuery(queryKey(table, 'value-counts', column, scopedParams(params).toString()), () => countValuesExactly(column, params), options)
+    },
+
+    valueRange(column, params = {}, options) {
+      return fetchQuery(queryKey(table, 'value-range', column, scopedParams(params).toString()), async () => {
+        const filters: Filter[] = [{ column, operator: 'is', value: null, negate: true }, ...(params.filters || [])]
+        // Lowest and highest rows by the column; aggregate functions are not enabled on the API
+        const [lowest, highest] = await Promise.all((['asc', 'desc'] as const).map(direction =>
+          list({ ...params, select: column, filters, order: [{ column, direction }], limit: 1 })
+        ))
+        const min = Number((lowest.data[0] as Record<string, unknown> | undefined)?.[column])
+        const max = Number((highest.data[0] as Record<string, unknown> | undefined)?.[column])
+        return isNaN(min) || isNaN(max) ? null : { min, max }
+      }, options)
+    },
+  }
+}
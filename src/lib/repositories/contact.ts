@@ -0,0 +1,4 @@
+import type { Contact } from '@/types/contact'
+import { createRepository } from './base'
+
+export const contactRepository = createRepository<Contact>('contact', 'id', { softDelete: true })
@@ -0,0 +1,4 @@
+import type { Developer } from '@/types/developer'
+import { createRepository } from './base'
+
+export const developerRepository = createRepository<Developer>('developer', 'id', { softDelete: true })
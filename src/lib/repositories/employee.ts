@@ -0,0 +1,7 @@
+import type { Employee } from '@/types/auth'
+import { createRepository } from './base'
+
+// Employees live in the "account" table and are addressed by their auth user id
+export const EMPLOYEE_COLUMNS = 'id,user_id,email,phone,full_name,avatar,role'
+
+export const employeeRepository = createRepository<Employee, 'user_id'>('account', 'user_id')
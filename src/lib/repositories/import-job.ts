@@ -0,0 +1,5 @@
+import type { ImportJob } from '@/types/import'
+import { createRepository } from './base'
+
+// Jobs are themselves a log of imports; the rows they write are audited by their own repository
+export const importJobRepository = createRepository<ImportJob>('import_job', 'id', { audit: false })
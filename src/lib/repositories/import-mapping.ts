@@ -0,0 +1,5 @@
+import type { ImportMapping } from '@/types/import'
+import { createRepository } from './base'
+
+// Remembered column mappings are import settings, not business records; they are not audited
+export const importMappingRepository = createRepository<ImportMapping>('import_mapping', 'id', { audit: false })
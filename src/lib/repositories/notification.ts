@@ -0,0 +1,4 @@
+import type { AppNotification } from '@/types/notification'
+import { createRepository } from './base'
+
+export const notificationRepository = createRepository<AppNotification>('notification', 'id', { audit: false })
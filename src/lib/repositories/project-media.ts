@@ -0,0 +1,4 @@
+import type { ProjectMedia } from '@/types/project'
+import { createRepository } from './base'
+
+export const projectMediaRepository = createRepository<ProjectMedia>('project_media', 'id', { softDelete: true })
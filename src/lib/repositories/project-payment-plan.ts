@@ -0,0 +1,4 @@
+import type { ProjectPaymentPlan } from '@/types/project'
+import { createRepository } from './base'
+
+export const projectPaymentPlanRepository = createRepository<ProjectPaymentPlan>('project_payment_plan', 'id', { softDelete: true })
@@ -0,0 +1,4 @@
+import type { ProjectTravelTime } from '@/types/project'
+import { createRepository } from './base'
+
+export const projectTravelTimeRepository = createRepository<ProjectTravelTime>('project_travel_time', 'id', { softDelete: true })
@@ -0,0 +1,4 @@
+import type { Project } from '@/types/project'
+import { createRepository } from './base'
+
+export const projectRepository = createRepository<Project>('project', 'id', { softDelete: true })
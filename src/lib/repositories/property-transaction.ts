@@ -0,0 +1,4 @@
+import type { PropertyTransaction } from '@/types/archive'
+import { createRepository } from './base'
+
+export const propertyTransactionRepository = createRepository<PropertyTransaction>('property_transaction', 'id', { softDelete: true })
@@ -0,0 +1,4 @@
+import type { Property } from '@/types/property'
+import { createRepository } from './base'
+
+export const propertyRepository = createRepository<Property>('property', 'id', { softDelete: true })
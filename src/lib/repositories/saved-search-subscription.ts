@@ -0,0 +1,4 @@
+import type { SavedSearchSubscription } from '@/types/saved-search'
+import { createRepository } from './base'
+
+export const savedSearchSubscriptionRepository = createRepository<SavedSearchSubscription>('saved_search_subscription', 'id', { audit: false })
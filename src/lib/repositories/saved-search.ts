@@ -0,0 +1,5 @@
+import type { SavedSearch } from '@/types/saved-search'
+import { createRepository } from './base'
+
+// Saved searches are user preferences, not business records; they are not audited
+export const savedSearchRepository = createRepository<SavedSearch>('saved_search', 'id', { audit: false })
@@ -0,0 +1,168 @@
+import { startOfDay } from 'date-fns'
+import { TRANSACTION_FILTER_CONFIG, TRANSACTION_SEARCH_COLUMNS } from '@/config/transaction-search'
+import { buildTableQuery } from '@/hooks/useTableFilters'
+import { isStaleRecordError } from '@/lib/repositories/base'
+import { notificationRepository } from '@/lib/repositories/notification'
+import { propertyTransactionRepository } from '@/lib/repositories/property-transaction'
+import { savedSearchRepository } from '@/lib/repositories/saved-search'
+import { savedSearchSubscriptionRepository } from '@/lib/repositories/saved-search-subscription'
+import { parseQuery } from '@/lib/query-parser'
+import type { Employee } from '@/types/auth'
+import type { SavedSearch, SavedSearchAlertFrequency, SavedSearchSubscription } from '@/types/saved-search'
+
+type Subscriber = Pick<Employee, 'id'>
+
+// Only Database (property transaction) searches can alert: new rows arrive there through Excel imports
+export const ALERT_TABLE = 'property_transaction'
+
+export const SAVED_SEARCH_ALERT_LABELS: Record<SavedSearchAlertFrequency, string> = {
+  instant: 'After each import',
+  daily: 'Daily digest',
+}
+
+// Database view filtered by a saved search
+export function savedSearchLink(search: Pick<SavedSearch, 'query'>): string {
+  return `/database?${new URLSearchParams({ q: search.query })}`
+}
+
+// Highest property transaction id; rows up to it have been imported already
+async function latestTransactionId(): Promise<number> {
+  const { data } = await propertyTransactionRepository.list({
+    select: 'id',
+    order: [{ column: 'id', direction: 'desc' }],
+    limit: 1,
+    deleted: 'include',
+  })
+  return data[0]?.id ?? 0
+}
+
+/**
+ * Number of transactions with an id in (afterId, upToId] that match a saved search
+ */
+async function countNewMatches(search: SavedSearch, afterId: number, upToId: number): Promise<number> {
+  const parsed = parseQuery(search.query, TRANSACTION_SEARCH_COLUMNS)
+  const query = buildTableQuery({
+    ...TRANSACTION_FILTER_CONFIG,
+    additionalFilters: (query) => query.gt('id', afterId).lte('id', upToId),
+  }, parsed, 1, 1)
+
+  const { error, count } = await query
+  if (error) {
+    throw new Error(`Failed to check saved search "${search.name}": ${error.message}`)
+  }
+  return count ?? 0
+}
+
+async function loadSearches(subscriptions: SavedSearchSubscription[]): Promise<Map<number, SavedSearch>> {
+  const ids = [...new Set(subscriptions.map(subscription => subscription.saved_search_id))]
+  if (ids.length === 0) return new Map()
+
+  const { data } = await savedSearchRepository.list({
+    filters: [{ column: 'id', operator: 'in', value: ids }],
+  })
+  return new Map(data.map(search => [search.id, search]))
+}
+
+/**
+ * Mark a subscription as checked up to `upToId`
+ * The update is conditional, so when two imports (or two open tabs) check at once only one of
+ * them sends the alert. Returns false when someone else got there first.
+ */
+async function claim(subscription: SavedSearchSubscription, upToId: number): Promise<boolean> {
+  try {
+    const updated = await savedSearchSubscriptionRepository.update(subscription.id, {
+      last_checked_id: upToId,
+      last_checked_at: new Date().toISOString(),
+    }, { expectedUpdatedAt: subscription.updated_at })
+    return updated !== null
+  } catch (err) {
+    if (isStaleRecordError(err)) return false
+    throw err
+  }
+}
+
+function notify(subscription: SavedSearchSubscription, search: SavedSearch, count: number, title: string) {
+  return notificationRepository.create({
+    employee_id: subscription.employee_id,
+    title,
+    body: `${count} new transaction${count === 1 ? '' : 's'} match "${search.name}"`,
+    link: savedSearchLink(search),
+    read_at: null,
+  })
+}
+
+/**
+ * Subscribe an employee to alerts on a saved search, or change how often an existing subscription alerts
+ * Only rows imported after subscribing can alert.
+ */
+export async function subscribeToSavedSearch(
+  search: SavedSearch,
+  employee: Subscriber,
+  frequency: SavedSearchAlertFrequency
+): Promise<SavedSearchSubscription> {
+  const latestId = await latestTransactionId()
+  const { data: [existing] } = await savedSearchSubscriptionRepository.list({
+    filters: [
+      { column: 'saved_search_id', operator: 'eq', value: search.id },
+      { column: 'employee_id', operator: 'eq', value: employee.id },
+    ],
+    limit: 1,
+  })
+
+  if (existing) {
+    const updated = await savedSearchSubscriptionRepository.update(existing.id, { frequency })
+    return updated ?? existing
+  }
+  return savedSearchSubscriptionRepository.create({
+    saved_search_id: search.id,
+    employee_id: employee.id,
+    frequency,
+    last_checked_id: latestId,
+    last_checked_at: new Date().toISOString(),
+  })
+}
+
+export async function listSavedSearchSubscriptions(employee: Subscriber): Promise<SavedSearchSubscription[]> {
+  const { data } = await savedSearchSubscriptionRepository.list({
+    filters: [{ column: 'employee_id', operator: 'eq', value: employee.id }],
+  })
+  return data
+}
+
+/**
+ * Check the employee's own alert subscriptions for transactions added since each was last checked
+ * Runs in the subscriber's session, so only their subscriptions, the saved searches they can still
+ * see and the rows they may read are evaluated, and only their own notifications are written.
+ * "After each import" subscriptions are checked on every call, daily ones once a day.
+ * Returns the number of notifications sent.
+ */
+export async function checkSavedSearchAlerts(employee: Subscriber): Promise<number> {
+  const subscriptions = await listSavedSearchSubscriptions(employee)
+  if (subscriptions.length === 0) return 0
+
+  const [searches, latestId] = await Promise.all([loadSearches(subscriptions), latestTransactionId()])
+  const today = startOfDay(new Date()).getTime()
+  let sent = 0
+
+  for (const subscription of subscriptions) {
+    const search = searches.get(subscription.saved_search_id)
+    if (!search || search.table_name !== ALERT_TABLE) continue
+    const isDaily = subscription.frequency === 'daily'
+    const checked = isDaily
+      ? new Date(subscription.last_checked_at).getTime() >= today
+      : subscription.last_checked_id >= latestId
+    if (checked) continue
+
+    // Count before claiming: if the count fails the subscription keeps its marker and the rows are checked again next time
+    const count = subscription.last_checked_id < latestId
+      ? await countNewMatches(search, subscription.last_checked_id, latestId)
+      : 0
+    // Daily subscriptions are claimed even without new rows so the digest is not checked again today
+    if (!await claim(subscription, latestId)) continue
+    if (count > 0) {
+      await notify(subscription, search, count, isDaily ? `Daily digest: "${search.name}"` : `New matches for "${search.name}"`)
+      sent++
+    }
+  }
+  return sent
+}
@@ -0,0 +1,93 @@
+import { savedSearchRepository } from '@/lib/repositories/saved-search'
+import type { Employee } from '@/types/auth'
+import type { SavedSearch, SavedSearchVisibility } from '@/types/saved-search'
+
+type SearchOwner = Pick<Employee, 'id' | 'full_name' | 'role'>
+
+export const SAVED_SEARCH_VISIBILITY_LABELS: Record<SavedSearchVisibility, string> = {
+  private: 'Only me',
+  role: 'My role',
+  everyone: 'Everyone',
+}
+
+// Searches saved in the browser before they were stored server-side, by table
+const LEGACY_STORAGE_KEYS: Record<string, string> = {
+  property_transaction: 'database_saved_searches',
+}
+
+interface LegacySavedSearch {
+  name: string
+  query: string
+}
+
+/**
+ * Saved searches of a table the employee can see: their own, their role's and the team's
+ * Pinned searches come first.
+ */
+export async function listSavedSearches(table: string, employee: SearchOwner): Promise<SavedSearch[]> {
+  const { data } = await savedSearchRepository.list({
+    filters: [{ column: 'table_name', operator: 'eq', value: table }],
+    or: [
+      { column: 'owner_id', operator: 'eq', value: employee.id },
+      { column: 'visibility', operator: 'eq', value: 'everyone' },
+      // shared_role is only set on searches shared with a role
+      ...(employee.role ? [{ column: 'shared_role', operator: 'eq' as const, value: employee.role }] : []),
+    ],
+    order: [
+      { column: 'pinned', direction: 'desc' },
+      { column: 'name', direction: 'asc' },
+    ],
+  })
+  return data
+}
+
+export async function createSavedSearch(
+  table: string,
+  employee: SearchOwner,
+  values: { name: string; query: string; visibility: SavedSearchVisibility }
+): Promise<SavedSearch> {
+  return savedSearchRepository.create({
+    owner_id: employee.id,
+    owner_name: employee.full_name || null,
+    table_name: table,
+    name: values.name,
+    query: values.query,
+    visibility: values.visibility,
+    shared_role: values.visibility === 'role' ? employee.role : null,
+    pinned: false,
+  })
+}
+
+let migration: Promise<void> | null = null
+
+/**
+ * Move searches saved in this browser to the server as the employee's private searches
+ * Runs once per page load; the browser copy is removed as the searches are saved.
+ */
+export function migrateLegacySavedSearches(employee: SearchOwner): Promise<void> {
+  migration ??= (async () => {
+    for (const [table, key] of Object.entries(LEGACY_STORAGE_KEYS)) {
+      const stored = localStorage.getItem(key)
+      if (!stored) continue
+
+      try {
+        const parsed: unknown = JSON.parse(stored)
+        const remaining = Array.isArray(parsed) ? parsed as LegacySavedSearch[] : []
+        while (remaining.length > 0) {
+          const search = remaining[0]
+          if (search?.name && typeof search.query === 'string') {
+            await createSavedSearch(table, employee, { name: search.name, query: search.query, visibility: 'private' })
+          }
+          // Drop each search as soon as it is saved so a failed migration never saves it twice
+          remaining.shift()
+          localStorage.setItem(key, JSON.stringify(remaining))
+        }
+        localStorage.removeItem(key)
+      } catch (err) {
+        // Keep the browser copy and try again on the next page load
+        console.error(`Failed to migrate saved searches from ${key}:`, err)
+      }
+    }
+  })()
+  return migration
+}
@@ -0,0 +1,125 @@
+import * as XLSX from 'xlsx'
+import { recordAudit } from '@/lib/audit'
+import { downloadFile } from '@/lib/download'
+import type { ListParams, ListResult, ScopeParams, SortOrder } from '@/lib/repositories/base'
+import type { ExportColumn, ExportFormat } from '@/types/export'
+
+// Rows read per request (the API returns at most 1000)
+const PAGE_SIZE = 1000
+// Rows one export may hold; every row is kept in memory until the file is written
+export const EXPORT_MAX_ROWS = 100_000
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+type Row = Record<string, unknown>
+
+interface ExportSource<T> {
+  table: string
+  list(params?: ListParams): Promise<ListResult<T>>
+  count(params?: ScopeParams): Promise<number>
+}
+
+export interface ExportInput<T> {
+  repository: ExportSource<T>
+  // Conditions of the search being exported
+  scope: ScopeParams
+  // Sort of the search; rows with the same values keep their id order
+  order?: SortOrder[]
+  columns: ExportColumn<T>[]
+  format: ExportFormat
+  // Start of the file name, e.g. "transactions" for "transactions-2024-05-01.csv"
+  name: string
+  // The search as the user typed it, for the log
+  query?: string
+  // Whether columns marked `personal` may be exported (see canExportPersonalData)
+  allowPersonalData: boolean
+  onProgress?: (exported: number, total: number) => void
+  // Stops the export before the next page is read; nothing is logged or downloaded
+  signal?: AbortSignal
+}
+
+const toCsv = (rows: unknown[][]) => XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows))
+
+/**
+ * Export every row matching a search to a CSV or XLSX download
+ * Rows are read a page at a time, with only the exported columns requested. CSV is written page
+ * by page; an XLSX sheet can only be written whole, so its rows are collected first. Searches over
+ * EXPORT_MAX_ROWS rows are refused. The export is logged before the file is handed over, and no
+ * file is produced when the log cannot be written.
+ * Returns the number of rows exported.
+ */
+export async function exportRows<T>({
+  repository,
+  scope,
+  order = [],
+  columns,
+  format,
+  name,
+  query,
+  allowPersonalData,
+  onProgress,
+  signal,
+}: ExportInput<T>): Promise<number> {
+  if (columns.length === 0) {
+    throw new Error('Choose at least one column to export')
+  }
+  if (!allowPersonalData && columns.some(column => column.personal)) {
+    throw new Error('Your role cannot export phone, ID or passport columns')
+  }
+
+  const total = await repository.count(scope)
+  if (total > EXPORT_MAX_ROWS) {
+    throw new Error(`At most ${EXPORT_MAX_ROWS.toLocaleString()} rows can be exported at once; narrow the search`)
+  }
+
+  const header = columns.map(column => column.label)
+  // Pages are read by offset, so the order has to be total
+  const rowOrder: SortOrder[] = [...order.filter(sort => sort.column !== 'id'), { column: 'id', direction: 'asc' }]
+  const csvChunks: string[] = []
+  const sheetRows: unknown[][] = [header]
+  let exported = 0
+  onProgress?.(0, total)
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    signal?.throwIfAborted()
+    const { data } = await repository.list({
+      ...scope,
+      select: columns.map(column => column.key).join(','),
+      order: rowOrder,
+      limit: PAGE_SIZE,
+      offset,
+    })
+    const rows = data.map(row => columns.map(column => (row as Row)[column.key] ?? null))
+    if (format === 'csv') {
+      csvChunks.push(toCsv(offset === 0 ? [header, ...rows] : rows))
+    } else {
+      sheetRows.push(...rows)
+    }
+    exported += data.length
+    onProgress?.(exported, total)
+    // Rows added while exporting can only be read up to the limit
+    if (data.length < PAGE_SIZE || exported >= EXPORT_MAX_ROWS) break
+  }
+  signal?.throwIfAborted()
+
+  const fileName = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`
+  await recordAudit(repository.table, [{
+    action: 'export',
+    recordId: fileName,
+    before: null,
+    after: { format, rows: exported, columns: columns.map(column => column.key), query: query || null },
+  }])
+
+  if (format === 'csv') {
+    // The byte order mark makes Excel read the file as UTF-8 (Arabic names)
+    downloadFile(fileName, `\uFEFF${csvChunks.filter(Boolean).join('\n')}`, MIME_TYPES.csv)
+  } else {
+    const book = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(sheetRows), name.slice(0, 31))
+    downloadFile(fileName, XLSX.write(book, { bookType: 'xlsx', type: 'array' }), MIME_TYPES.xlsx)
+  }
+  return exported
+}
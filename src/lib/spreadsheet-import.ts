@@ -0,0 +1,262 @@
+import * as XLSX from 'xlsx'
+import { format, isValid, parse } from 'date-fns'
+import { parseNumber } from '@/lib/query-parser'
+import { importMappingRepository } from '@/lib/repositories/import-mapping'
+import type { ColumnMapping, ImportField, ImportFieldType } from '@/types/import'
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.csv']
+
+export interface SpreadsheetRow {
+  // Row number in the file (1 is the first row), for error messages
+  number: number
+  // Cell values in header order; empty cells are null
+  cells: unknown[]
+}
+
+export interface Spreadsheet {
+  fileName: string
+  headers: string[]
+  rows: SpreadsheetRow[]
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === ''
+
+/**
+ * Read the first sheet of an .xlsx, .xls or .csv file
+ * The first non-empty row holds the headers. Dates in Excel files stay serial numbers
+ * (converted by parseCell), and CSV values are kept as text.
+ */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const isCsv = file.name.toLowerCase().endsWith('.csv')
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' })
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) throw new Error(`${file.name} has no sheets`)
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true })
+  const headerIndex = table.findIndex(row => row.some(cell => !isBlank(cell)))
+  if (headerIndex === -1) throw new Error(`${file.name} is empty`)
+
+  // Blank headers get a placeholder and repeated ones a number, so every column can be mapped
+  const seen = new Map<string, number>()
+  const headers = table[headerIndex].map((cell, index) => {
+    const header = isBlank(cell) ? `Column ${index + 1}` : String(cell).trim()
+    const count = (seen.get(header.toLowerCase()) ?? 0) + 1
+    seen.set(header.toLowerCase(), count)
+    return count > 1 ? `${header} (${count})` : header
+  })
+
+  const rows = table.slice(headerIndex + 1)
+    .map((cells, index) => ({
+      number: headerIndex + index + 2,
+      cells: headers.map((_, column) => isBlank(cells[column]) ? null : cells[column]),
+    }))
+    .filter(row => row.cells.some(cell => cell !== null))
+
+  return { fileName: file.name, headers, rows }
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Identifies spreadsheets exported from the same template: their headers, in any order
+ */
+export function templateSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).sort().join('|')
+}
+
+/**
+ * Map headers to the fields with the same name, label or alias; every field is used once
+ */
+export function suggestMapping<T>(headers: string[], fields: ImportField<T>[]): ColumnMapping {
+  const used = new Set<string>()
+  const mapping: ColumnMapping = {}
+
+  for (const header of headers) {
+    const name = normalizeHeader(header)
+    const field = fields.find(candidate => !used.has(candidate.key) &&
+      [candidate.key, candidate.label, ...(candidate.aliases ?? [])].some(alias => normalizeHeader(alias) === name))
+    mapping[header] = field?.key ?? null
+    if (field) used.add(field.key)
+  }
+
+  return mapping
+}
+
+/**
+ * Required fields no header is mapped to
+ */
+export function missingFields<T>(mapping: ColumnMapping, fields: ImportField<T>[]): ImportField<T>[] {
+  const mapped = new Set(Object.values(mapping))
+  return fields.filter(field => field.required && !mapped.has(field.key))
+}
+
+// Day first, as in UAE exports; ISO dates and Excel's own formats are also accepted
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'd-M-yyyy', 'dd.MM.yyyy', 'dd-MMM-yyyy', 'd-MMM-yy', 'd MMM yyyy', 'MMM d, yyyy', 'yyyy/MM/dd']
+
+function parseDate(value: unknown): string | null {
+  // Excel stores dates as days since 1900
+  if (typeof value === 'number') {
+    const date = value > 0 && value < 100_000 ? XLSX.SSF.parse_date_code(value) : null
+    return date ? format(new Date(date.y, date.m - 1, date.d), 'yyyy-MM-dd') : null
+  }
+
+  // Drop the time of date-time values such as 2024-03-15T10:00:00 or 15/03/2024 10:00
+  const text = String(value).trim().replace(/[T\s]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|\s?[AP]M)?$/i, '')
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date())
+    if (isValid(date) && date.getFullYear() >= 1900 && date.getFullYear() <= 2100) {
+      return format(date, 'yyyy-MM-dd')
+    }
+  }
+  return null
+}
+
+function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null
+  // "AED 1,250,000", "1.2m", "85.5 sqm"
+  const text = String(value).replace(/aed|dhs?|sq\.?\s*(ft|m)|sqm|m2/gi, '').replace(/\s/g, '')
+  return parseNumber(text)
+}
+
+export type ParsedCell =
+  | { value: string | number | null; error?: undefined }
+  | { value?: undefined; error: string }
+
+/**
+ * Convert a cell to the value stored for a field of the given type
+ */
+export function parseCell(value: unknown, type: ImportFieldType): ParsedCell {
+  if (isBlank(value)) return { value: null }
+
+  switch (type) {
+    case 'number': {
+      const number = parseAmount(value)
+      return number === null ? { error: `"${value}" is not a number` } : { value: number }
+    }
+    case 'date': {
+      const date = parseDate(value)
+      return date === null ? { error: `"${value}" is not a date` } : { value: date }
+    }
+    default:
+      return { value: String(value).trim() }
+  }
+}
+
+export interface ColumnCheck {
+  // Non-empty cells in the column
+  filled: number
+  invalid: number
+  // A few of the values that could not be converted
+  examples: string[]
+}
+
+/**
+ * Check that a column's values convert to the field type it is mapped to
+ */
+export function checkColumn(sheet: Spreadsheet, header: string, type: ImportFieldType): ColumnCheck {
+  const column = sheet.headers.indexOf(header)
+  const check: ColumnCheck = { filled: 0, invalid: 0, examples: [] }
+
+  for (const row of sheet.rows) {
+    const cell = row.cells[column]
+    if (cell === null) continue
+    check.filled++
+    if (parseCell(cell, type).error) {
+      check.invalid++
+      if (check.examples.length < 3) check.examples.push(String(cell))
+    }
+  }
+
+  return check
+}
+
+export interface RejectedRow {
+  number: number
+  reasons: string[]
+}
+
+export interface MappedRecord<T> {
+  // Row number in the file
+  number: number
+  values: Partial<T>
+}
+
+export interface MappedRows<T> {
+  records: MappedRecord<T>[]
+  rejected: RejectedRow[]
+}
+
+/**
+ * Convert spreadsheet rows into records; rows with invalid values or missing required fields are rejected
+ */
+export function mapRows<T>(sheet: Spreadsheet, mapping: ColumnMapping, fields: ImportField<T>[]): MappedRows<T> {
+  const columns = sheet.headers
+    .map((header, index) => ({ index, header, field: fields.find(field => field.key === mapping[header]) }))
+    .filter((column): column is { index: number; header: string; field: ImportField<T> } => column.field !== undefined)
+  const result: MappedRows<T> = { records: [], rejected: [] }
+
+  for (const row of sheet.rows) {
+    const record: Record<string, unknown> = {}
+    const reasons: string[] = []
+    const invalid = new Set<string>()
+
+    for (const { index, header, field } of columns) {
+      const cell = parseCell(row.cells[index], field.type)
+      if (cell.error) {
+        reasons.push(`${header}: ${cell.error}`)
+        invalid.add(field.key)
+      } else {
+        record[field.key] = cell.value
+      }
+    }
+    for (const field of fields) {
+      if (field.required && !invalid.has(field.key) && (record[field.key] ?? null) === null) {
+        reasons.push(`${field.label} is missing`)
+      }
+    }
+
+    if (reasons.length > 0) result.rejected.push({ number: row.number, reasons })
+    else result.records.push({ number: row.number, values: record as Partial<T> })
+  }
+
+  return result
+}
+
+/**
+ * Mapping remembered for spreadsheets with these headers, if any
+ */
+export async function findSavedMapping(table: string, headers: string[]): Promise<ColumnMapping | null> {
+  const { data } = await importMappingRepository.list({
+    filters: [
+      { column: 'table_name', operator: 'eq', value: table },
+      { column: 'signature', operator: 'eq', value: templateSignature(headers) },
+    ],
+    limit: 1,
+  })
+  const saved = data[0]?.mapping
+  // Headers the saved mapping does not know are mapped like a new file
+  return saved ? Object.fromEntries(headers.map(header => [header, saved[header] ?? null])) : null
+}
+
+/**
+ * Remember the mapping for spreadsheets with these headers
+ */
+export async function saveMapping(table: string, headers: string[], mapping: ColumnMapping, employeeId: number | null): Promise<void> {
+  const signature = templateSignature(headers)
+  const { data } = await importMappingRepository.list({
+    filters: [
+      { column: 'table_name', operator: 'eq', value: table },
+      { column: 'signature', operator: 'eq', value: signature },
+    ],
+    limit: 1,
+  })
+
+  if (data[0]) {
+    await importMappingRepository.update(data[0].id, { mapping })
+  } else {
+    await importMappingRepository.create({ table_name: table, signature, mapping, created_by: employeeId })
+  }
+}
@@ -1,37 +1,77 @@
-import axios from 'axios'
+import { supabaseStorageApi } from '@/lib/api'
+
+// Generate a unique object name that keeps the original file extension
+function uniqueFileName(file: File): string {
+  const fileExt = file.name.split('.').pop()
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`
+}
+
+/**
+ * Upload a file to a storage bucket at the given object path
+ */
+export async function uploadToBucket(
+  bucket: string,
+  path: string,
+  file: File,
+  accessToken?: string
+): Promise<void> {
+  const headers: Record<string, string> = {
+    'Content-Type': file.type || 'application/octet-stream',
+  }
+
+  if (accessToken) {
+    headers['Authorization'] = `Bearer ${accessToken}`
+  }
+
+  await supabaseStorageApi.post(`/object/${bucket}/${path}`, file, { headers })
+}
 
 /**
  * Upload avatar image to Supabase storage
  * Returns the public URL: https://{{supabase_project_id}}.supabase.co/storage/v1/object/public/avatars/{{avatar_name}}
  */
-export async function uploadAvatar(
-  file: File,
-  accessToken: string
-): Promise<string> {
+export async function uploadAvatar(file: File): Promise<string> {
   const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  
+
   if (!supabaseUrl) {
     throw new Error('Supabase URL is not configured')
   }
 
-  // Generate unique filename
-  const fileExt = file.name.split('.').pop()
-  const fileName = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`
+  const fileName = uniqueFileName(file)
 
   // Upload file to storage bucket "avatars"
   // Path format: storage/v1/object/avatars/{{avatar_name}}
-  // Use binary body upload with bearer token only (no Content-Type header)
-  await axios.post(
-    `${supabaseUrl}/storage/v1/object/avatars/${fileName}`,
-    file,
-    {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-    }
-  )
+  await uploadToBucket('avatars', fileName, file)
 
   // Return the URL format as specified: https://{{supabase_project_id}}.supabase.co/storage/v1/object/public/avatars/{{avatar_name}}
   return `${supabaseUrl}/storage/v1/object/public/avatars/${fileName}`
 }
 
+/**
+ * Upload developer logo to Supabase storage
+ * Returns the URL: https://{{supabase_project_id}}.supabase.co/storage/v1/object/developers_logos/{{logo_name}}
+ */
+export async function uploadDeveloperLogo(file: File): Promise<string> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+  const fileName = uniqueFileName(file)
+
+  await uploadToBucket('developers_logos', fileName, file)
+
+  return `${supabaseUrl}/storage/v1/object/developers_logos/${fileName}`
+}
+
+/**
+ * Upload a project file to the "projects" bucket
+ * Returns the relative path as per API spec: projects/<id>/<folder>/<filename>
+ */
+export async function uploadProjectFile(
+  file: File,
+  projectId: number,
+  folder: 'images' | 'videos' | 'files'
+): Promise<string> {
+  const storagePath = `${projectId}/${folder}/${uniqueFileName(file)}`
+
+  await uploadToBucket('projects', storagePath, file)
+
+  return `projects/${storagePath}`
+}
@@ -1,15 +1,18 @@
 import { createClient } from '@supabase/supabase-js'
+import { isMockBackend, mockFetch } from '@/lib/mock-backend'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (!isMockBackend && (!supabaseUrl || !supabaseAnonKey)) {
   console.error('Missing Supabase environment variables. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file')
 }
 
 // Create client even if env vars are missing (will fail gracefully at runtime)
 export const supabase = createClient(
   supabaseUrl || 'https://placeholder.supabase.co',
-  supabaseAnonKey || 'placeholder-key'
+  supabaseAnonKey || 'placeholder-key',
+  // Route every supabase-js request to the in-memory backend in mock mode
+  isMockBackend ? { global: { fetch: mockFetch } } : undefined
 )
 
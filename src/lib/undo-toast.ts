@@ -0,0 +1,33 @@
+import { toast } from 'sonner'
+import { formatError } from '@/lib/error-formatter'
+import { undoDelete, type DeletedBatch } from '@/lib/recycle-bin'
+
+// How long the "Undo" action stays on screen (ms)
+export const UNDO_TOAST_DURATION = 8000
+
+/**
+ * Success toast for a delete with an "Undo" action that restores the batch
+ * `onUndone` runs after a successful restore, e.g. to refetch the list.
+ */
+export function toastDeletedWithUndo(
+  message: string,
+  batch: DeletedBatch,
+  onUndone?: () => void | Promise<void>
+): void {
+  toast.success(message, {
+    duration: UNDO_TOAST_DURATION,
+    action: {
+      label: 'Undo',
+      onClick: async () => {
+        try {
+          await undoDelete(batch)
+          await onUndone?.()
+          toast.success(batch.ids.length === 1 ? 'Delete undone' : `Restored ${batch.ids.length} records`)
+        } catch (err) {
+          console.error('Error undoing delete:', err)
+          toast.error(formatError(err) || 'Failed to undo delete')
+        }
+      },
+    },
+  })
+}
@@ -0,0 +1,348 @@
+import { useEffect, useState, useCallback, useRef } from "react"
+import { RoleBasedLayout } from "@/components/RoleBasedLayout"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import { SidebarTrigger } from "@/components/ui/sidebar"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Field, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useAuth } from "@/contexts/AuthContext"
+import { canViewActivity } from "@/config/roles"
+import { TableSkeleton } from "@/components/shared/TableSkeleton"
+import { Pagination } from "@/components/shared/Pagination"
+import { AuditChangeList } from "@/components/shared/RecordHistory"
+import { formatError } from "@/lib/error-formatter"
+import { AUDIT_ACTION_LABELS } from "@/lib/audit"
+import { auditLogRepository } from "@/lib/repositories/audit-log"
+import { employeeRepository } from "@/lib/repositories/employee"
+import { pageRange, type Filter, type ListParams, type ListResult } from "@/lib/repositories/base"
+import type { AuditLog } from "@/types/audit"
+import type { Employee } from "@/types/auth"
+import { toast } from "sonner"
+
+// Tables written through the repository layer, keyed by table name
+const ENTITY_LABELS: Record<string, string> = {
+  account: "Employees",
+  area: "Areas",
+  contact: "Contacts",
+  developer: "Developers",
+  import_job: "Imports",
+  project: "Projects",
+  project_media: "Project media",
+  project_travel_time: "Project travel times",
+  project_payment_plan: "Project payment plans",
+  property: "Properties",
+  property_transaction: "Database",
+}
+
+// Select value meaning "no filter" (Radix Select does not allow empty values)
+const ALL = "all"
+
+export default function ActivityPage() {
+  const { employee } = useAuth()
+  const [entries, setEntries] = useState<AuditLog[]>([])
+  const [employees, setEmployees] = useState<Employee[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actorId, setActorId] = useState(ALL)
+  const [entity, setEntity] = useState(ALL)
+  const [dateFrom, setDateFrom] = useState("")
+  const [dateTo, setDateTo] = useState("")
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const itemsPerPage = 20
+
+  const canView = canViewActivity(employee?.role)
+
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
+
+  const fetchActivity = useCallback(async (page: number = 1) => {
+    try {
+      const filters: Filter[] = []
+      if (actorId !== ALL) {
+        filters.push({ column: "actor_id", operator: "eq", value: Number(actorId) })
+      }
+      if (entity !== ALL) {
+        filters.push({ column: "entity", operator: "eq", value: entity })
+      }
+      if (dateFrom) {
+        filters.push({ column: "created_at", operator: "gte", value: new Date(`${dateFrom}T00:00:00`).toISOString() })
+      }
+      if (dateTo) {
+        // The "to" date is inclusive, so compare against the start of the next day
+        const end = new Date(`${dateTo}T00:00:00`)
+        end.setDate(end.getDate() + 1)
+        filters.push({ column: "created_at", operator: "lt", value: end.toISOString() })
+      }
+
+      const params: ListParams = {
+        filters,
+        order: [{ column: "created_at", direction: "desc" }],
+        ...pageRange(page, itemsPerPage),
+        count: true,
+      }
+      const fetchId = ++fetchIdRef.current
+
+      const applyResult = ({ data, count }: ListResult<AuditLog>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
+
+        if (count !== null) {
+          setTotalCount(count)
+        }
+
+        setEntries(data)
+      }
+
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!auditLogRepository.peek(params))
+      applyResult(await auditLogRepository.query(params, { onRevalidate: applyResult }))
+    } catch (err) {
+      console.error("Error fetching activity:", err)
+      toast.error(formatError(err) || "Failed to fetch activity")
+    } finally {
+      setLoading(false)
+    }
+  }, [actorId, entity, dateFrom, dateTo, itemsPerPage])
+
+  // Employees for the user filter
+  useEffect(() => {
+    if (!canView) return
+
+    employeeRepository
+      .query({ select: "id,full_name,role", order: [{ column: "full_name", direction: "asc" }] }, {
+        onRevalidate: ({ data }) => setEmployees(data),
+      })
+      .then(({ data }) => setEmployees(data))
+      .catch((err) => console.error("Error fetching employees:", err))
+  }, [canView])
+
+  // One fetch per change of the filters (fetchActivity) or the page
+  useEffect(() => {
+    if (!canView) {
+      setLoading(false)
+      return
+    }
+    fetchActivity(currentPage)
+  }, [canView, currentPage, fetchActivity])
+
+  // Changing a filter goes back to the first page
+  const changeFilter = <V,>(setFilter: (value: V) => void) => (value: V) => {
+    setFilter(value)
+    setCurrentPage(1)
+  }
+
+  const handleClearFilters = () => {
+    setActorId(ALL)
+    setEntity(ALL)
+    setDateFrom("")
+    setDateTo("")
+    setCurrentPage(1)
+  }
+
+  const hasFilters = actorId !== ALL || entity !== ALL || dateFrom !== "" || dateTo !== ""
+  const totalPages = Math.ceil(totalCount / itemsPerPage)
+
+  const breadcrumb = (
+    <Breadcrumb>
+      <BreadcrumbList>
+        <BreadcrumbItem className="hidden md:block">
+          <BreadcrumbLink href="/dashboard">Dashboard</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbSeparator className="hidden md:block" />
+        <BreadcrumbItem>
+          <BreadcrumbPage>Activity</BreadcrumbPage>
+        </BreadcrumbItem>
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+
+  if (!canView) {
+    return (
+      <RoleBasedLayout>
+        <div className="flex flex-col gap-4 p-4 pt-0">
+          <div className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
+            <SidebarTrigger />
+            <Separator orientation="vertical" className="mr-2 h-4" />
+            {breadcrumb}
+          </div>
+          <div className="flex flex-1 items-center justify-center">
+            <div className="text-center">
+              <h1 className="text-2xl font-bold">Access Denied</h1>
+              <p className="text-muted-foreground mt-2">
+                You don't have permission to view the activity log.
+              </p>
+            </div>
+          </div>
+        </div>
+      </RoleBasedLayout>
+    )
+  }
+
+  return (
+    <RoleBasedLayout>
+      <header className="flex h-16 shrink-0 items-center gap-2">
+        <div className="flex items-center gap-2 px-4">
+          <SidebarTrigger className="-ml-1" />
+          <Separator
+            orientation="vertical"
+            className="mr-2 data-[orientation=vertical]:h-4"
+          />
+          {breadcrumb}
+        </div>
+      </header>
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+        <div className="rounded-lg border bg-card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h1 className="text-2xl font-bold">Activity</h1>
+            {hasFilters && (
+              <Button variant="outline" onClick={handleClearFilters} className="cursor-pointer">
+                Clear filters
+              </Button>
+            )}
+          </div>
+
+          {/* Filters */}
+          <div className="mb-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Field>
+              <FieldLabel htmlFor="activity-user">User</FieldLabel>
+              <Select value={actorId} onValueChange={changeFilter(setActorId)}>
+                <SelectTrigger id="activity-user" className="w-full">
+                  <SelectValue placeholder="All users" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  {employees.map((emp) => (
+                    <SelectItem key={emp.id} value={String(emp.id)}>
+                      {emp.full_name || `Employee #${emp.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="activity-entity">Entity</FieldLabel>
+              <Select value={entity} onValueChange={changeFilter(setEntity)}>
+                <SelectTrigger id="activity-entity" className="w-full">
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All entities</SelectItem>
+                  {Object.entries(ENTITY_LABELS).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="activity-from">From</FieldLabel>
+              <Input
+                id="activity-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => changeFilter(setDateFrom)(e.target.value)}
+              />
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="activity-to">To</FieldLabel>
+              <Input
+                id="activity-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => changeFilter(setDateTo)(e.target.value)}
+              />
+            </Field>
+          </div>
+
+          {loading ? (
+            <TableSkeleton
+              columns={6}
+              rows={10}
+              columnHeaders={["Date", "User", "Action", "Entity", "Record", "Changes"]}
+            />
+          ) : (
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        {hasFilters ? "No activity matches these filters." : "No activity recorded yet."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => (
+                      <TableRow key={entry.id} className="align-top">
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <div>{entry.actor_name || "Unknown user"}</div>
+                          {entry.actor_role && (
+                            <div className="text-xs text-muted-foreground">{entry.actor_role}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{AUDIT_ACTION_LABELS[entry.action]}</TableCell>
+                        <TableCell>{ENTITY_LABELS[entry.entity] || entry.entity}</TableCell>
+                        <TableCell className="font-mono text-xs">{entry.record_id}</TableCell>
+                        <TableCell className="max-w-md whitespace-normal">
+                          <AuditChangeList action={entry.action} changes={entry.changes} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {!loading && (
+            <div className="mt-4">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </RoleBasedLayout>
+  )
+}
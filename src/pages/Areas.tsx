@@ -1,6 +1,5 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo, useRef } from "react"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -53,35 +52,58 @@ import {
 } from "@/components/ui/pagination"
 import { Pencil, Trash2, Plus } from "lucide-react"
 import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { SortableTableHead } from "@/components/shared/SortableTableHead"
 import { parseQuery } from "@/lib/query-parser"
+import { compileQuery, toListParams, type TableSchema } from "@/lib/query-compiler"
 import { canViewAreas, canEditAreas } from "@/config/roles"
 import { CITIES } from "@/config/cities"
 
 import type { Area } from "@/types/area"
 import { TableSkeleton } from "@/components/shared/TableSkeleton"
+import { RecordHistoryTabs } from "@/components/shared/RecordHistory"
+import { RecordConflictAlert } from "@/components/shared/RecordConflictAlert"
+import { SaveConflictDialog } from "@/components/shared/SaveConflictDialog"
+import { useListSearchParams, useRecordFromUrl } from "@/hooks/useListSearchParams"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { useRecordConflict } from "@/hooks/useRecordConflict"
+import { useSaveConflict, type SaveResolution } from "@/hooks/useSaveConflict"
+import { useQuerySort } from "@/hooks/useQuerySort"
 import { formatError } from "@/lib/error-formatter"
+import { areaRepository } from "@/lib/repositories/area"
+import { deleteRecord } from "@/lib/recycle-bin"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { pageRange, type ListParams, type ListResult } from "@/lib/repositories/base"
 import { toast } from "sonner"
 
+const toFormData = (area: Area) => ({
+  title: area.title,
+  city: area.city,
+})
+
 export default function AreasPage() {
   const { employee } = useAuth()
   const [areas, setAreas] = useState<Area[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [editingArea, setEditingArea] = useState<Area | null>(null)
-  const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [deletingAreaId, setDeletingAreaId] = useState<number | null>(null)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [currentPage, setCurrentPage] = useState(1)
+  const { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord } = useListSearchParams()
+  // The edit dialog shows the record named in the URL
+  const isDialogOpen = recordId !== null && editingArea?.id === recordId
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 10
   
   // Column configuration for search bar
-  const searchColumns: SearchColumn[] = [
+  const searchColumns = useMemo<SearchColumn[]>(() => [
     { key: 'title', label: 'Title', type: 'text' },
-    { key: 'city', label: 'City', type: 'text' },
-  ]
+    { key: 'city', label: 'City', type: 'text', suggestValues: true, facet: true },
+  ], [])
+  const searchSchema = useMemo<TableSchema>(() => ({
+    columns: searchColumns,
+    textSearchFields: ['title', 'city'],
+  }), [searchColumns])
   const [formData, setFormData] = useState({
     title: "",
     city: "",
@@ -90,78 +112,43 @@ export default function AreasPage() {
   const canView = canViewAreas(employee?.role)
   const canEdit = canEditAreas(employee?.role)
 
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
 
   const fetchAreas = useCallback(async (page: number = 1) => {
     try {
-      setLoading(true)
       setError(null)
 
-      const offset = (page - 1) * itemsPerPage
-      const parsed = parseQuery(searchQuery, searchColumns)
-      
-      // Skip incomplete filters
-      const completeFilters = parsed.filters.filter(f => f.value && f.value.trim())
-      const effectiveParsed = {
-        ...parsed,
-        filters: completeFilters
-      }
-      
-      let url = `${supabaseUrl}/rest/v1/area?select=*`
-      
-      // Add text search
-      if (effectiveParsed.textSearch && effectiveParsed.textSearch.trim()) {
-        const searchPattern = `*${effectiveParsed.textSearch.trim()}*`
-        url += `&or=(title.ilike.${encodeURIComponent(searchPattern)},city.ilike.${encodeURIComponent(searchPattern)})`
-      }
-      
-      // Add filters
-      for (const filter of effectiveParsed.filters) {
-        const column = searchColumns.find(col => col.key === filter.column)
-        if (!column) continue
-        
-        switch (filter.operator) {
-          case '=':
-          default:
-            url += `&${filter.column}=ilike.${encodeURIComponent(`%${filter.value}%`)}`
-            break
-        }
-      }
-      
-      // Add sorting
-      if (effectiveParsed.sort) {
-        url += `&order=${effectiveParsed.sort.column}.${effectiveParsed.sort.direction}`
+      const compiled = compileQuery(parseQuery(searchQuery, searchColumns), searchSchema)
+
+      const params: ListParams = {
+        ...toListParams(compiled),
+        ...pageRange(page, itemsPerPage),
+        count: true,
       }
-      
-      url += `&limit=${itemsPerPage}&offset=${offset}`
-
-      const response = await axios.get(url, {
-        headers: {
-          "apikey": supabaseAnonKey,
-          "Authorization": `Bearer ${supabaseAnonKey}`,
-          "Content-Type": "application/json",
-          "Prefer": "count=exact",
-        },
-      })
-
-      // Get total count from Content-Range header
-      const contentRange = response.headers["content-range"]
-      if (contentRange) {
-        const match = contentRange.match(/\/(\d+)/)
-        if (match) {
-          setTotalCount(parseInt(match[1], 10))
+      const fetchId = ++fetchIdRef.current
+
+      const applyResult = ({ data, count }: ListResult<Area>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
+
+        if (count !== null) {
+          setTotalCount(count)
         }
+
+        setAreas(data)
       }
 
-      setAreas(response.data || [])
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!areaRepository.peek(params))
+      applyResult(await areaRepository.query(params, { onRevalidate: applyResult }))
     } catch (err: any) {
       console.error("Error fetching areas:", err)
       toast.error(formatError(err) || "Failed to fetch areas")
     } finally {
       setLoading(false)
     }
-  }, [supabaseUrl, supabaseAnonKey, itemsPerPage, searchQuery, searchColumns])
+  }, [itemsPerPage, searchQuery, searchColumns, searchSchema])
 
   useEffect(() => {
     if (!canView) {
@@ -169,40 +156,57 @@ export default function AreasPage() {
       setLoading(false)
       return
     }
-    
-    // Debounced search
-    const timeoutId = setTimeout(() => {
-      setCurrentPage(1)
-      fetchAreas(1)
-    }, searchQuery.trim() ? 1500 : 0)
-
-    return () => clearTimeout(timeoutId)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [canView, searchQuery])
 
-  // Fetch when page changes
-  useEffect(() => {
-    if (!canView) return
+    // Fetch when the search or page changes
     fetchAreas(currentPage)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [canView, currentPage])
+  }, [canView, searchQuery, currentPage])
 
-  const handleSearchApply = useCallback((query: string) => {
-    setSearchQuery(query)
-    setCurrentPage(1)
-  }, [])
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
   const totalPages = Math.ceil(totalCount / itemsPerPage)
 
+  // Live updates from other users
+  const { highlightedIds } = useRealtimeList({
+    table: "area",
+    enabled: canView,
+    rows: areas,
+    setRows: setAreas,
+    refetch: () => fetchAreas(currentPage),
+  })
+
+  const recordConflict = useRecordConflict({
+    table: "area",
+    record: editingArea,
+    enabled: isDialogOpen,
+    formData,
+    toFormData,
+    onResolve: (area, data) => {
+      setEditingArea(area)
+      setFormData(data)
+    },
+  })
+
+  const saveConflict = useSaveConflict(toFormData)
+
   const handleEdit = (area: Area) => {
     setEditingArea(area)
-    setFormData({
-      title: area.title,
-      city: area.city,
-    })
-    setIsDialogOpen(true)
+    setFormData(toFormData(area))
+    openRecord(area.id)
   }
 
+  // Open the area linked in the URL (shared links, back/forward)
+  useRecordFromUrl({
+    recordId,
+    record: editingArea,
+    load: (id) => areaRepository.get(id),
+    onLoad: handleEdit,
+    onMissing: () => {
+      toast.error("Area not found")
+      closeRecord()
+    },
+  })
+
   const handleAdd = () => {
     setEditingArea(null)
     setFormData({
@@ -220,19 +224,10 @@ export default function AreasPage() {
     try {
       setDeletingAreaId(areaId)
 
-      await axios.delete(
-        `${supabaseUrl}/rest/v1/area?id=eq.${areaId}`,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      )
+      const batch = await deleteRecord('area', areaId)
 
       await fetchAreas(currentPage)
-      toast.success("Area deleted successfully")
+      toastDeletedWithUndo("Area deleted successfully", batch, () => fetchAreas(currentPage))
     } catch (err: any) {
       console.error("Error deleting area:", err)
       const message = formatError(err) || "Failed to delete area. Please try again."
@@ -242,8 +237,11 @@ export default function AreasPage() {
     }
   }
 
-  const handleSave = async () => {
-    if (!formData.title.trim() || !formData.city.trim()) {
+  // `resolved` re-saves with the record and values chosen after a save conflict
+  const handleSave = async (resolved?: SaveResolution<Area, typeof formData>) => {
+    const data = resolved?.formData ?? formData
+    const area = resolved?.record ?? editingArea
+    if (!data.title.trim() || !data.city.trim()) {
       toast.error("Please fill in all required fields")
       return
     }
@@ -251,47 +249,25 @@ export default function AreasPage() {
     try {
       setIsSaving(true)
 
-      if (editingArea) {
-        // Update existing area
-        await axios.patch(
-          `${supabaseUrl}/rest/v1/area?id=eq.${editingArea.id}`,
-          {
-            title: formData.title.trim(),
-            city: formData.city.trim(),
-          },
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+      const areaData = {
+        title: data.title.trim(),
+        city: data.city.trim(),
+      }
+
+      if (area) {
+        // Update existing area, unless someone else changed it since it was loaded
+        await areaRepository.update(area.id, areaData, { expectedUpdatedAt: area.updated_at })
       } else {
         // Create new area
-        await axios.post(
-          `${supabaseUrl}/rest/v1/area`,
-          {
-            title: formData.title.trim(),
-            city: formData.city.trim(),
-          },
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+        await areaRepository.create(areaData)
       }
 
-      setIsDialogOpen(false)
+      closeRecord()
       setIsAddDialogOpen(false)
       await fetchAreas(currentPage)
-      toast.success(editingArea ? "Area updated successfully" : "Area created successfully")
+      toast.success(area ? "Area updated successfully" : "Area created successfully")
     } catch (err: any) {
+      if (area && saveConflict.detect(err, area, data)) return
       console.error("Error saving area:", err)
       const message = formatError(err) || "Failed to save area"
       toast.error(message)
@@ -379,8 +355,10 @@ export default function AreasPage() {
             <AdvancedSearchBar
               columns={searchColumns}
               value={searchQuery}
-              onChange={setSearchQuery}
-              onApply={handleSearchApply}
+              onApply={setSearchQuery}
+              savedSearchTable="area"
+              valueSource={areaRepository}
+              facets={{ source: areaRepository, schema: searchSchema }}
             />
           </div>
 
@@ -397,8 +375,8 @@ export default function AreasPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>ID</TableHead>
-                    <TableHead>Title</TableHead>
-                    <TableHead>City</TableHead>
+                    <SortableTableHead column="title" sort={sort} onSort={onSort}>Title</SortableTableHead>
+                    <SortableTableHead column="city" sort={sort} onSort={onSort}>City</SortableTableHead>
                     <TableHead>Created At</TableHead>
                     {canEdit && <TableHead className="text-right">Actions</TableHead>}
                   </TableRow>
@@ -415,7 +393,7 @@ export default function AreasPage() {
                     </TableRow>
                   ) : (
                     areas.map((area) => (
-                      <TableRow key={area.id}>
+                      <TableRow key={area.id} className={highlightedIds.has(area.id) ? "bg-primary/5 transition-colors" : "transition-colors"}>
                         <TableCell className="font-medium">{area.id}</TableCell>
                         <TableCell>{area.title}</TableCell>
                         <TableCell>{area.city}</TableCell>
@@ -528,7 +506,7 @@ export default function AreasPage() {
         </div>
 
       {/* Edit Dialog */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeRecord()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Edit Area</DialogTitle>
@@ -536,60 +514,79 @@ export default function AreasPage() {
               Update the area information below.
             </DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-title">Title *</FieldLabel>
-                <Input
-                  id="edit-title"
-                  value={formData.title}
-                  onChange={(e) =>
-                    setFormData({ ...formData, title: e.target.value })
-                  }
-                  placeholder="Enter area title"
-                  disabled={isSaving}
-                />
-              </Field>
-            </FieldGroup>
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-city">City *</FieldLabel>
-                <Select
-                  value={formData.city}
-                  onValueChange={(value) =>
-                    setFormData({ ...formData, city: value })
-                  }
-                  disabled={isSaving}
-                >
-                  <SelectTrigger id="edit-city">
-                    <SelectValue placeholder="Select a city" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {CITIES.map((city) => (
-                      <SelectItem key={city} value={city}>
-                        {city}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </Field>
-            </FieldGroup>
-          </div>
+          <RecordConflictAlert
+            conflict={recordConflict.conflict}
+            onMerge={recordConflict.merge}
+            onReload={recordConflict.reload}
+            onDismiss={recordConflict.dismiss}
+          />
+          <RecordHistoryTabs entity="area" recordId={editingArea?.id}>
+            <div className="grid gap-4 py-4">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-title">Title *</FieldLabel>
+                  <Input
+                    id="edit-title"
+                    value={formData.title}
+                    onChange={(e) =>
+                      setFormData({ ...formData, title: e.target.value })
+                    }
+                    placeholder="Enter area title"
+                    disabled={isSaving}
+                  />
+                </Field>
+              </FieldGroup>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-city">City *</FieldLabel>
+                  <Select
+                    value={formData.city}
+                    onValueChange={(value) =>
+                      setFormData({ ...formData, city: value })
+                    }
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger id="edit-city">
+                      <SelectValue placeholder="Select a city" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CITIES.map((city) => (
+                        <SelectItem key={city} value={city}>
+                          {city}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+              </FieldGroup>
+            </div>
+          </RecordHistoryTabs>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => setIsDialogOpen(false)}
+              onClick={closeRecord}
               disabled={isSaving}
             >
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={isSaving}>
+            <Button onClick={() => handleSave()} disabled={isSaving}>
               {isSaving ? "Saving..." : "Save Changes"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      <SaveConflictDialog
+        conflict={saveConflict.conflict}
+        onCancel={saveConflict.dismiss}
+        onResolve={(area, data, save) => {
+          saveConflict.dismiss()
+          setEditingArea(area)
+          setFormData(data)
+          if (save) void handleSave({ record: area, formData: data })
+        }}
+      />
+
       {/* Add Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent>
@@ -646,7 +643,7 @@ export default function AreasPage() {
             >
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={isSaving}>
+            <Button onClick={() => handleSave()} disabled={isSaving}>
               {isSaving ? "Creating..." : "Create Area"}
             </Button>
           </DialogFooter>
@@ -1,6 +1,5 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useRef } from "react"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -45,24 +44,44 @@ import {
 } from "@/components/ui/pagination"
 import { Pencil, Trash2, Plus } from "lucide-react"
 import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { SortableTableHead } from "@/components/shared/SortableTableHead"
 import { parseQuery } from "@/lib/query-parser"
+import { compileQuery, toListParams } from "@/lib/query-compiler"
 
 import type { Contact } from "@/types/contact"
 import { TableSkeleton } from "@/components/shared/TableSkeleton"
+import { RecordHistoryTabs } from "@/components/shared/RecordHistory"
+import { RecordConflictAlert } from "@/components/shared/RecordConflictAlert"
+import { SaveConflictDialog } from "@/components/shared/SaveConflictDialog"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { useRecordConflict } from "@/hooks/useRecordConflict"
+import { useSaveConflict, type SaveResolution } from "@/hooks/useSaveConflict"
+import { useListSearchParams, useRecordFromUrl } from "@/hooks/useListSearchParams"
+import { useQuerySort } from "@/hooks/useQuerySort"
 import { formatError } from "@/lib/error-formatter"
+import { contactRepository } from "@/lib/repositories/contact"
+import { deleteRecord } from "@/lib/recycle-bin"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { pageRange, type ListParams, type ListResult } from "@/lib/repositories/base"
 import { toast } from "sonner"
 
+const toFormData = (contact: Contact) => ({
+  full_name: contact.full_name,
+  email: contact.email,
+  phone: contact.phone,
+})
+
 export default function ContactsPage() {
   const [contacts, setContacts] = useState<Contact[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [editingContact, setEditingContact] = useState<Contact | null>(null)
-  const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [deletingContactId, setDeletingContactId] = useState<number | null>(null)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [currentPage, setCurrentPage] = useState(1)
+  const { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord } = useListSearchParams()
+  // The edit dialog shows the record named in the URL
+  const isDialogOpen = recordId !== null && editingContact?.id === recordId
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 10
   
@@ -78,74 +97,39 @@ export default function ContactsPage() {
     phone: "",
   })
 
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
   const validateEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
   const validatePhone = (phone: string) => /^\+?[0-9\-\s()]{7,20}$/.test(phone)
 
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
+
   const fetchContacts = useCallback(async (page: number = 1) => {
     try {
-      setLoading(true)
       setError(null)
 
-      const offset = (page - 1) * itemsPerPage
-      const parsed = parseQuery(searchQuery, searchColumns)
-      
-      // Skip incomplete filters
-      const completeFilters = parsed.filters.filter(f => f.value && f.value.trim())
-      const effectiveParsed = {
-        ...parsed,
-        filters: completeFilters
-      }
-      
-      let url = `${supabaseUrl}/rest/v1/contact?select=*`
-      
-      // Add text search
-      if (effectiveParsed.textSearch && effectiveParsed.textSearch.trim()) {
-        const searchPattern = `*${effectiveParsed.textSearch.trim()}*`
-        url += `&or=(full_name.ilike.${encodeURIComponent(searchPattern)},email.ilike.${encodeURIComponent(searchPattern)},phone.ilike.${encodeURIComponent(searchPattern)})`
-      }
-      
-      // Add filters
-      for (const filter of effectiveParsed.filters) {
-        const column = searchColumns.find(col => col.key === filter.column)
-        if (!column) continue
-        
-        switch (filter.operator) {
-          case '=':
-          default:
-            url += `&${filter.column}=ilike.${encodeURIComponent(`%${filter.value}%`)}`
-            break
-        }
-      }
-      
-      // Add sorting
-      if (effectiveParsed.sort) {
-        url += `&order=${effectiveParsed.sort.column}.${effectiveParsed.sort.direction}`
+      const compiled = compileQuery(parseQuery(searchQuery, searchColumns), { columns: searchColumns, textSearchFields: ['full_name', 'email', 'phone'] })
+
+      const params: ListParams = {
+        ...toListParams(compiled),
+        ...pageRange(page, itemsPerPage),
+        count: true,
       }
-      
-      url += `&limit=${itemsPerPage}&offset=${offset}`
-
-      const response = await axios.get(url, {
-        headers: {
-          "apikey": supabaseAnonKey,
-          "Authorization": `Bearer ${supabaseAnonKey}`,
-          "Content-Type": "application/json",
-          "Prefer": "count=exact",
-        },
-      })
-
-      // Get total count from Content-Range header
-      const contentRange = response.headers["content-range"]
-      if (contentRange) {
-        const match = contentRange.match(/\/(\d+)/)
-        if (match) {
-          setTotalCount(parseInt(match[1], 10))
+      const fetchId = ++fetchIdRef.current
+
+      const applyResult = ({ data, count }: ListResult<Contact>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
+
+        if (count !== null) {
+          setTotalCount(count)
         }
+
+        setContacts(data)
       }
 
-      setContacts(response.data || [])
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!contactRepository.peek(params))
+      applyResult(await contactRepository.query(params, { onRevalidate: applyResult }))
     } catch (err: unknown) {
       console.error("Error fetching contacts:", err)
       const message = formatError(err) || "Failed to fetch contacts"
@@ -153,43 +137,58 @@ export default function ContactsPage() {
     } finally {
       setLoading(false)
     }
-  }, [supabaseUrl, supabaseAnonKey, itemsPerPage, searchQuery, searchColumns])
-
-  // Main effect: fetch when page changes or search query changes (debounced)
-  useEffect(() => {
-    // Debounced search
-    const timeoutId = setTimeout(() => {
-      setCurrentPage(1)
-      fetchContacts(1)
-    }, searchQuery.trim() ? 1500 : 0)
-
-    return () => clearTimeout(timeoutId)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchQuery])
+  }, [itemsPerPage, searchQuery, searchColumns])
 
-  // Fetch when page changes
+  // Fetch when the search or page changes
   useEffect(() => {
     fetchContacts(currentPage)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage])
+  }, [searchQuery, currentPage])
 
-  const handleSearchApply = useCallback((query: string) => {
-    setSearchQuery(query)
-    setCurrentPage(1)
-  }, [])
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
   const totalPages = Math.ceil(totalCount / itemsPerPage)
 
+  // Live updates from other users
+  const { highlightedIds } = useRealtimeList({
+    table: "contact",
+    rows: contacts,
+    setRows: setContacts,
+    refetch: () => fetchContacts(currentPage),
+  })
+
+  const recordConflict = useRecordConflict({
+    table: "contact",
+    record: editingContact,
+    enabled: isDialogOpen,
+    formData,
+    toFormData,
+    onResolve: (contact, data) => {
+      setEditingContact(contact)
+      setFormData(data)
+    },
+  })
+
+  const saveConflict = useSaveConflict(toFormData)
+
   const handleEdit = (contact: Contact) => {
     setEditingContact(contact)
-    setFormData({
-      full_name: contact.full_name,
-      email: contact.email,
-      phone: contact.phone,
-    })
-    setIsDialogOpen(true)
+    setFormData(toFormData(contact))
+    openRecord(contact.id)
   }
 
+  // Open the contact linked in the URL (shared links, back/forward)
+  useRecordFromUrl({
+    recordId,
+    record: editingContact,
+    load: (id) => contactRepository.get(id),
+    onLoad: handleEdit,
+    onMissing: () => {
+      toast.error("Contact not found")
+      closeRecord()
+    },
+  })
+
   const handleAdd = () => {
     setEditingContact(null)
     setFormData({ full_name: "", email: "", phone: "" })
@@ -202,19 +201,10 @@ export default function ContactsPage() {
     try {
       setDeletingContactId(contactId)
 
-      await axios.delete(
-        `${supabaseUrl}/rest/v1/contact?id=eq.${contactId}`,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      )
+      const batch = await deleteRecord('contact', contactId)
 
       await fetchContacts(currentPage)
-      toast.success("Contact deleted successfully")
+      toastDeletedWithUndo("Contact deleted successfully", batch, () => fetchContacts(currentPage))
     } catch (err: unknown) {
       console.error("Error deleting contact:", err)
       const message = formatError(err) || "Failed to delete contact"
@@ -224,16 +214,19 @@ export default function ContactsPage() {
     }
   }
 
-  const handleSave = async () => {
-    if (!formData.full_name.trim() || !formData.email.trim() || !formData.phone.trim()) {
+  // `resolved` re-saves with the record and values chosen after a save conflict
+  const handleSave = async (resolved?: SaveResolution<Contact, typeof formData>) => {
+    const data = resolved?.formData ?? formData
+    const contact = resolved?.record ?? editingContact
+    if (!data.full_name.trim() || !data.email.trim() || !data.phone.trim()) {
       toast.error("Please fill in all required fields")
       return
     }
-    if (!validateEmail(formData.email)) {
+    if (!validateEmail(data.email)) {
       toast.error("Please enter a valid email address")
       return
     }
-    if (!validatePhone(formData.phone)) {
+    if (!validatePhone(data.phone)) {
       toast.error("Please enter a valid phone number")
       return
     }
@@ -241,49 +234,26 @@ export default function ContactsPage() {
     try {
       setIsSaving(true)
 
-      if (editingContact) {
-        // Update existing contact
-        await axios.patch(
-          `${supabaseUrl}/rest/v1/contact?id=eq.${editingContact.id}`,
-          {
-            full_name: formData.full_name.trim(),
-            email: formData.email.trim(),
-            phone: formData.phone.trim(),
-          },
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+      const contactData = {
+        full_name: data.full_name.trim(),
+        email: data.email.trim(),
+        phone: data.phone.trim(),
+      }
+
+      if (contact) {
+        // Update existing contact, unless someone else changed it since it was loaded
+        await contactRepository.update(contact.id, contactData, { expectedUpdatedAt: contact.updated_at })
       } else {
         // Create new contact
-        await axios.post(
-          `${supabaseUrl}/rest/v1/contact`,
-          {
-            full_name: formData.full_name.trim(),
-            email: formData.email.trim(),
-            phone: formData.phone.trim(),
-          },
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+        await contactRepository.create(contactData)
       }
 
-      setIsDialogOpen(false)
+      closeRecord()
       setIsAddDialogOpen(false)
       await fetchContacts(currentPage)
-      toast.success(editingContact ? "Contact updated successfully" : "Contact created successfully")
+      toast.success(contact ? "Contact updated successfully" : "Contact created successfully")
     } catch (err: unknown) {
+      if (contact && saveConflict.detect(err, contact, data)) return
       console.error("Error saving contact:", err)
       const message = formatError(err) || "Failed to save contact"
       toast.error(message)
@@ -329,8 +299,8 @@ export default function ContactsPage() {
             <AdvancedSearchBar
               columns={searchColumns}
               value={searchQuery}
-              onChange={setSearchQuery}
-              onApply={handleSearchApply}
+              onApply={setSearchQuery}
+              savedSearchTable="contact"
             />
           </div>
 
@@ -352,9 +322,9 @@ export default function ContactsPage() {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Full Name</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Phone</TableHead>
+                    <SortableTableHead column="full_name" sort={sort} onSort={onSort}>Full Name</SortableTableHead>
+                    <SortableTableHead column="email" sort={sort} onSort={onSort}>Email</SortableTableHead>
+                    <SortableTableHead column="phone" sort={sort} onSort={onSort}>Phone</SortableTableHead>
                     <TableHead>Created At</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -368,7 +338,7 @@ export default function ContactsPage() {
                     </TableRow>
                   ) : (
                     contacts.map((c) => (
-                      <TableRow key={c.id}>
+                      <TableRow key={c.id} className={highlightedIds.has(c.id) ? "bg-primary/5 transition-colors" : "transition-colors"}>
                         <TableCell className="font-medium">{c.full_name}</TableCell>
                         <TableCell>{c.email}</TableCell>
                         <TableCell>{c.phone}</TableCell>
@@ -478,58 +448,77 @@ export default function ContactsPage() {
         </div>
 
       {/* Edit Dialog */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeRecord()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Edit Contact</DialogTitle>
             <DialogDescription>Update the contact information below.</DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-fullname">Full Name *</FieldLabel>
-                <Input
-                  id="edit-fullname"
-                  value={formData.full_name}
-                  onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
-                  placeholder="Enter full name"
-                  disabled={isSaving}
-                />
-              </Field>
-            </FieldGroup>
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-email">Email *</FieldLabel>
-                <Input
-                  id="edit-email"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                  placeholder="Enter email address"
-                  disabled={isSaving}
-                />
-              </Field>
-            </FieldGroup>
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-phone">Phone *</FieldLabel>
-                <Input
-                  id="edit-phone"
-                  value={formData.phone}
-                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                  placeholder="Enter phone number"
-                  disabled={isSaving}
-                />
-              </Field>
-            </FieldGroup>
-          </div>
+          <RecordConflictAlert
+            conflict={recordConflict.conflict}
+            onMerge={recordConflict.merge}
+            onReload={recordConflict.reload}
+            onDismiss={recordConflict.dismiss}
+          />
+          <RecordHistoryTabs entity="contact" recordId={editingContact?.id}>
+            <div className="grid gap-4 py-4">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-fullname">Full Name *</FieldLabel>
+                  <Input
+                    id="edit-fullname"
+                    value={formData.full_name}
+                    onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                    placeholder="Enter full name"
+                    disabled={isSaving}
+                  />
+                </Field>
+              </FieldGroup>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-email">Email *</FieldLabel>
+                  <Input
+                    id="edit-email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    placeholder="Enter email address"
+                    disabled={isSaving}
+                  />
+                </Field>
+              </FieldGroup>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-phone">Phone *</FieldLabel>
+                  <Input
+                    id="edit-phone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    placeholder="Enter phone number"
+                    disabled={isSaving}
+                  />
+                </Field>
+              </FieldGroup>
+            </div>
+          </RecordHistoryTabs>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>Cancel</Button>
-            <Button onClick={handleSave} disabled={isSaving}>{isSaving ? "Saving..." : "Save Changes"}</Button>
+            <Button variant="outline" onClick={closeRecord} disabled={isSaving}>Cancel</Button>
+            <Button onClick={() => handleSave()} disabled={isSaving}>{isSaving ? "Saving..." : "Save Changes"}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      <SaveConflictDialog
+        conflict={saveConflict.conflict}
+        onCancel={saveConflict.dismiss}
+        onResolve={(contact, data, save) => {
+          saveConflict.dismiss()
+          setEditingContact(contact)
+          setFormData(data)
+          if (save) void handleSave({ record: contact, formData: data })
+        }}
+      />
+
       {/* Add Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent>
@@ -578,7 +567,7 @@ export default function ContactsPage() {
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)} disabled={isSaving}>Cancel</Button>
-            <Button onClick={handleSave} disabled={isSaving}>{isSaving ? "Creating..." : "Create Contact"}</Button>
+            <Button onClick={() => handleSave()} disabled={isSaving}>{isSaving ? "Creating..." : "Create Contact"}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -1,6 +1,5 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useMemo, useState, useCallback } from "react"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -10,6 +9,7 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb"
 import { Separator } from "@/components/ui/separator"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { SidebarTrigger } from "@/components/ui/sidebar"
 import {
   Table,
@@ -48,10 +48,14 @@ import {
   FileText,
   Calendar,
   Trash2,
+  CopyCheck,
+  Download,
 } from "lucide-react"
 import { useAuth } from "@/contexts/AuthContext"
-import { supabase } from "@/lib/supabase"
-import { canEditProperties } from "@/config/roles"
+import { deleteRecords } from "@/lib/recycle-bin"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { canEditProperties, canExportPersonalData, canRollbackImports } from "@/config/roles"
+import { TRANSACTION_FILTER_CONFIG, TRANSACTION_SEARCH_COLUMNS } from "@/config/transaction-search"
 import {
   Sheet,
   SheetContent,
@@ -59,87 +63,68 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet"
-import { LoadingSpinner } from "@/components/shared/LoadingSpinner"
 import { TableSkeleton } from "@/components/shared/TableSkeleton"
-import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { AdvancedSearchBar } from "@/components/shared/AdvancedSearchBar"
+import { SortableTableHead } from "@/components/shared/SortableTableHead"
+import { HighlightedText } from "@/components/shared/HighlightedText"
+import { FindDuplicatesDialog } from "@/components/database/FindDuplicatesDialog"
+import { ImportHistory } from "@/components/database/ImportHistory"
+import { RollbackImportDialog } from "@/components/database/RollbackImportDialog"
+import { TransactionExportDialog } from "@/components/database/TransactionExportDialog"
+import { TransactionImportDialog } from "@/components/database/TransactionImportDialog"
 import { formatError } from "@/lib/error-formatter"
 import { toast } from "sonner"
 import { useTableFilters } from "@/hooks/useTableFilters"
+import { useListSearchParams, useRecordFromUrl } from "@/hooks/useListSearchParams"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { useQuerySort } from "@/hooks/useQuerySort"
 import { parseQuery } from "@/lib/query-parser"
+import { compileQuery } from "@/lib/query-compiler"
+import { highlightTerms } from "@/lib/full-text-search"
+import { SPREADSHEET_EXTENSIONS } from "@/lib/spreadsheet-import"
+import { propertyTransactionRepository } from "@/lib/repositories/property-transaction"
 
 import type { PropertyTransaction } from "@/types/archive"
+import type { ImportJob } from "@/types/import"
 
 export default function DatabasePage() {
   const { employee } = useAuth()
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
   
-  // RBAC: Only IT, CEO, Admin (roles 0, 1, 2) can upload Excel files
+  // RBAC: Only IT, CEO, Admin (roles 0, 1, 2) can import spreadsheets
   const canUpload = canEditProperties(employee?.role)
+  const canRollback = canRollbackImports(employee?.role)
   
   const [properties, setProperties] = useState<PropertyTransaction[]>([])
   const [loading, setLoading] = useState(true)
-  const [uploading, setUploading] = useState(false)
+  // Spreadsheet being previewed in the import dialog
+  const [importFile, setImportFile] = useState<File | null>(null)
+  const [isFindDuplicatesOpen, setIsFindDuplicatesOpen] = useState(false)
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  // Import whose rollback is being previewed
+  const [rollbackJob, setRollbackJob] = useState<ImportJob | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [searchQuery, setSearchQuery] = useState("")
+  const { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord } = useListSearchParams()
   const [selectedProperty, setSelectedProperty] = useState<PropertyTransaction | null>(null)
-  const [isDetailSheetOpen, setIsDetailSheetOpen] = useState(false)
+  // The detail sheet shows the record named in the URL
+  const isDetailSheetOpen = recordId !== null && selectedProperty?.id === recordId
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
   const [isDeleting, setIsDeleting] = useState(false)
-  const [savedSearches, setSavedSearches] = useState<Array<{ id: string; name: string; query: string; timestamp: number }>>([])
   
   // Column configuration for search bar
-  const searchColumns: SearchColumn[] = [
-    { key: 'date', label: 'Date', type: 'date' },
-    { key: 'price', label: 'Price', type: 'number' },
-    { key: 'area_and_community', label: 'Area', type: 'text' },
-    { key: 'project_name', label: 'Project', type: 'text' },
-    { key: 'building', label: 'Building', type: 'text' },
-    { key: 'unit_number', label: 'Unit Number', type: 'text' },
-    { key: 'property_type', label: 'Property Type', type: 'text' },
-    { key: 'bedroom', label: 'Bedrooms', type: 'text' },
-    { key: 'owner_name', label: 'Owner Name', type: 'text' },
-    { key: 'mobile1', label: 'Mobile', type: 'text' },
-    { key: 'deal_type', label: 'Deal Type', type: 'text' },
-    { key: 'size', label: 'Size', type: 'number' },
-  ]
+  const searchColumns = TRANSACTION_SEARCH_COLUMNS
   
-  const [currentPage, setCurrentPage] = useState(1)
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 50
   
-  const { buildQuery } = useTableFilters({
-    tableName: "property_transaction",
-    columns: searchColumns,
-    textSearchFields: [
-      'owner_name',
-      'area_and_community',
-      'project_name',
-      'building',
-      'unit_number',
-      'mobile1',
-      'deal_type',
-      'property_type'
-    ],
-    defaultSort: { column: "date", direction: "desc" }
-  })
+  const { buildQuery } = useTableFilters(TRANSACTION_FILTER_CONFIG)
 
-  const fetchProperties = useCallback(async (page: number = 1) => {
+  const fetchProperties = useCallback(async (page: number = 1, background: boolean = false) => {
     try {
-      setLoading(true)
+      // Background refreshes (realtime updates) keep the current rows on screen
+      if (!background) setLoading(true)
       setError(null)
       
-      const parsed = parseQuery(searchQuery, searchColumns)
-      
-      // Skip incomplete filters - don't apply filters without values
-      const completeFilters = parsed.filters.filter(f => f.value && f.value.trim())
-      const effectiveParsed = {
-        ...parsed,
-        filters: completeFilters
-      }
-      
-      // Build query using the hook
-      const query = buildQuery(effectiveParsed, page, itemsPerPage)
+      const query = buildQuery(parseQuery(searchQuery, searchColumns), page, itemsPerPage)
       
       const { data, error, count } = await query
       
@@ -161,114 +146,71 @@ export default function DatabasePage() {
     }
   }, [searchQuery, itemsPerPage, buildQuery, searchColumns])
   
-  // Load saved searches from localStorage
-  useEffect(() => {
-    try {
-      const saved = localStorage.getItem('database_saved_searches')
-      if (saved) {
-        setSavedSearches(JSON.parse(saved))
-      }
-    } catch (err) {
-      console.error('Failed to load saved searches:', err)
-    }
-  }, [])
-
-  // Handle search apply
-  const handleSearchApply = useCallback((query: string) => {
-    setSearchQuery(query)
-    setCurrentPage(1)
-  }, [])
-
-  // Save search
-  const handleSaveSearch = useCallback((name: string, query: string) => {
-    const newSaved = {
-      id: Date.now().toString(),
-      name,
-      query,
-      timestamp: Date.now(),
-    }
-    const updated = [...savedSearches, newSaved]
-    setSavedSearches(updated)
-    localStorage.setItem('database_saved_searches', JSON.stringify(updated))
-  }, [savedSearches])
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
-  // Load search
-  const handleLoadSearch = useCallback((query: string) => {
-    setSearchQuery(query)
-  }, [])
+  // Conditions and sort of the current search, for the duplicates scan and exports
+  const compiledSearch = useMemo(
+    () => compileQuery(parseQuery(searchQuery, searchColumns), TRANSACTION_FILTER_CONFIG),
+    [searchQuery, searchColumns]
+  )
+  const searchScope = useMemo(
+    () => ({ filters: compiledSearch.filters, logic: compiledSearch.logic }),
+    [compiledSearch]
+  )
 
-  // Delete search
-  const handleDeleteSearch = useCallback((id: string) => {
-    const updated = savedSearches.filter(s => s.id !== id)
-    setSavedSearches(updated)
-    localStorage.setItem('database_saved_searches', JSON.stringify(updated))
-    toast.success("Search deleted")
-  }, [savedSearches])
+  // Words of the free-text search, highlighted in the searched columns
+  const matchedTerms = useMemo(
+    () => highlightTerms(parseQuery(searchQuery, searchColumns).expression),
+    [searchQuery, searchColumns]
+  )
 
   useEffect(() => {
     fetchProperties(currentPage)
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPage, searchQuery]) // Refetch when page or search query changes
+
+  const openProperty = (property: PropertyTransaction) => {
+    setSelectedProperty(property)
+    openRecord(property.id)
+  }
+
+  // Open the transaction linked in the URL (shared links, back/forward)
+  useRecordFromUrl({
+    recordId,
+    record: selectedProperty,
+    load: (id) => propertyTransactionRepository.get(id),
+    onLoad: setSelectedProperty,
+    onMissing: () => {
+      toast.error("Property transaction not found")
+      closeRecord()
+    },
+  })
   
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
+    // Reset file input so the same file can be picked again
+    event.target.value = ""
     if (!file) return
     
     // Validate file type
-    if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls')) {
-      toast.error("Please upload an Excel file (.xlsx or .xls)")
+    if (!SPREADSHEET_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      toast.error("Please upload an Excel or CSV file (.xlsx, .xls or .csv)")
       return
     }
     
-    try {
-      setUploading(true)
-      setError(null)
-      
-      // Get access token from current session
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
-      if (sessionError || !session?.access_token) {
-        console.error("Session error:", sessionError)
-        throw new Error("No active session. Please log in again.")
-      }
-      
-      const formData = new FormData()
-      formData.append('file', file)
-      
-      console.log("Uploading file:", file.name, "Size:", file.size, "Type:", file.type)
-      console.log("Using token:", session.access_token.substring(0, 20) + "...")
-      
-      const response = await axios.post(
-        `${supabaseUrl}/functions/v1/upload-property-excel`,
-        formData,
-        {
-          headers: {
-            "Authorization": `Bearer ${session.access_token}`,
-            // Do NOT set Content-Type - axios will set it automatically with boundary for FormData
-          },
-        }
-      )
-      
-      console.log("Upload response status:", response.status, response.statusText)
-      console.log("Upload successful:", response.data)
-      
-      // Refresh properties after successful upload
-      await fetchProperties(currentPage)
-    } catch (err: unknown) {
-      console.error("Error uploading file:", err)
-      const message = formatError(err) || "Failed to upload file"
-      toast.error(message)
-    } finally {
-      setUploading(false)
-      // Reset file input
-      event.target.value = ""
-    }
+    setImportFile(file)
+  }
+  
+  const handleImported = async () => {
+    // Refresh properties after the import
+    await fetchProperties(currentPage)
   }
   
   
   const handleDeleteSelected = async () => {
     if (selectedIds.size === 0) return
     
-    if (!confirm(`Are you sure you want to delete ${selectedIds.size} propert(ies)? This action cannot be undone.`)) {
+    if (!confirm(`Are you sure you want to delete ${selectedIds.size} propert(ies)? They will be moved to the recycle bin.`)) {
       return
     }
     
@@ -276,32 +218,17 @@ export default function DatabasePage() {
       setIsDeleting(true)
       setError(null)
       
-      // Get access token from current session
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession()
-      if (sessionError || !session?.access_token) {
-        throw new Error("No active session. Please log in again.")
-      }
-      
-      // Delete transactions one by one (Supabase doesn't support bulk delete easily)
-      const idsArray = Array.from(selectedIds)
-      const deletePromises = idsArray.map(async (id) => {
-        await axios.delete(
-          `${supabaseUrl}/rest/v1/property_transaction?id=eq.${id}`,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${session.access_token}`,
-              "Content-Type": "application/json",
-            },
-          }
-        )
-      })
-      
-      await Promise.all(deletePromises)
+      // Delete all selected transactions in a single request
+      const batch = await deleteRecords('property_transaction', Array.from(selectedIds))
       
       // Clear selection and refresh properties
       setSelectedIds(new Set())
       await fetchProperties(currentPage)
+      toastDeletedWithUndo(
+        `${batch.ids.length} propert${batch.ids.length === 1 ? "y" : "ies"} deleted`,
+        batch,
+        () => fetchProperties(currentPage)
+      )
     } catch (err: unknown) {
       console.error("Error deleting properties:", err)
       const message = formatError(err) || "Failed to delete properties"
@@ -312,6 +239,14 @@ export default function DatabasePage() {
   }
   
   const totalPages = Math.ceil(totalCount / itemsPerPage)
+
+  // Live updates from other users
+  const { highlightedIds } = useRealtimeList({
+    table: "property_transaction",
+    rows: properties,
+    setRows: setProperties,
+    refetch: () => fetchProperties(currentPage, true),
+  })
   
   const formatPrice = (price: number | null) => {
     if (price === null || price === undefined) return "-"
@@ -357,338 +292,323 @@ export default function DatabasePage() {
             <h1 className="text-2xl font-bold">Database</h1>
           </div>
           
-          {/* Upload Section - Only for IT, CEO, Admin */}
-          {canUpload && (
-            <div className="flex items-center gap-4 flex-wrap mb-4">
-              <div className="relative">
-                <input
-                  type="file"
-                  id="excel-upload"
-                  accept=".xlsx,.xls"
-                  onChange={handleFileUpload}
-                  className="hidden"
-                  disabled={uploading}
-                />
-                <label htmlFor="excel-upload">
-                  <Button
-                    variant="outline"
-                    className="cursor-pointer"
-                    disabled={uploading}
-                    asChild
-                  >
-                    <span>
-                      <Upload className="h-4 w-4 mr-2" />
-                      {uploading ? "Uploading..." : "Upload Excel File"}
-                    </span>
+          <Tabs defaultValue="transactions">
+            {/* Upload Section - Only for IT, CEO, Admin */}
+            {canUpload && (
+              <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+                <TabsList>
+                  <TabsTrigger value="transactions">Transactions</TabsTrigger>
+                  <TabsTrigger value="imports">Import History</TabsTrigger>
+                </TabsList>
+                <div className="relative">
+                  <input
+                    type="file"
+                    id="excel-upload"
+                    accept={SPREADSHEET_EXTENSIONS.join(",")}
+                    onChange={handleFileUpload}
+                    className="hidden"
+                  />
+                  <label htmlFor="excel-upload">
+                    <Button
+                      variant="outline"
+                      className="cursor-pointer"
+                      asChild
+                    >
+                      <span>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Import Spreadsheet
+                      </span>
+                    </Button>
+                  </label>
+                  <Button variant="outline" className="ml-2" onClick={() => setIsFindDuplicatesOpen(true)}>
+                    <CopyCheck className="h-4 w-4 mr-2" />
+                    Find Duplicates
                   </Button>
-                </label>
+                </div>
+              </div>
+            )}
+
+            <TabsContent value="transactions">
+              {/* Unified Search/Filter/Sort Bar */}
+              <div className="mb-4 flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <AdvancedSearchBar
+                    columns={searchColumns}
+                    value={searchQuery}
+                    onApply={setSearchQuery}
+                    savedSearchTable="property_transaction"
+                    valueSource={propertyTransactionRepository}
+                    facets={{ source: propertyTransactionRepository, schema: TRANSACTION_FILTER_CONFIG }}
+                  />
+                </div>
+                <Button variant="outline" onClick={() => setIsExportOpen(true)} disabled={loading || totalCount === 0}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </Button>
               </div>
-            </div>
-          )}
-          
-          {/* Unified Search/Filter/Sort Bar */}
-          <div className="mb-4">
-            <AdvancedSearchBar
-              columns={searchColumns}
-              value={searchQuery}
-              onChange={setSearchQuery}
-              onApply={handleSearchApply}
-              savedSearches={savedSearches}
-              onSaveSearch={handleSaveSearch}
-              onLoadSearch={handleLoadSearch}
-              onDeleteSearch={handleDeleteSearch}
-            />
-          </div>
-          
           
-          {error && (
-            <div className="mb-4 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
-              {error}
-            </div>
-          )}
           
-          {uploading ? (
-            <LoadingSpinner message="Uploading Excel file..." />
-          ) : loading ? (
-            <TableSkeleton
-              columns={12}
-              rows={10}
-              hasCheckbox={canUpload}
-              columnHeaders={[
-                "Date",
-                "Price (AED)",
-                "Area & Community",
-                "Project Name",
-                "Building",
-                "Unit Number",
-                "Size",
-                "Property Type",
-                "Bedroom",
-                "Owner Name",
-                "Mobile",
-                "Deal Type"
-              ]}
-            />
-          ) : properties.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground">
-              No properties found. Upload an Excel file to get started.
-            </div>
-          ) : (
-            <>
-              {canUpload && selectedIds.size > 0 && (
-                <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
-                  <span className="text-sm font-medium">
-                    {selectedIds.size} {selectedIds.size > 1 ? 'properties' : 'property'} selected
-                  </span>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={handleDeleteSelected}
-                    disabled={isDeleting}
-                    className="ml-auto cursor-pointer"
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    {isDeleting ? "Deleting..." : "Delete Selected"}
-                  </Button>
+              {error && (
+                <div className="mb-4 rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
                 </div>
               )}
+          
+              {loading ? (
+                <TableSkeleton
+                  columns={12}
+                  rows={10}
+                  hasCheckbox={canUpload}
+                  columnHeaders={[
+                    "Date",
+                    "Price (AED)",
+                    "Area & Community",
+                    "Project Name",
+                    "Building",
+                    "Unit Number",
+                    "Size",
+                    "Property Type",
+                    "Bedroom",
+                    "Owner Name",
+                    "Mobile",
+                    "Deal Type"
+                  ]}
+                />
+              ) : properties.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  No properties found. Import a spreadsheet to get started.
+                </div>
+              ) : (
+                <>
+                  {canUpload && selectedIds.size > 0 && (
+                    <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                      <span className="text-sm font-medium">
+                        {selectedIds.size} {selectedIds.size > 1 ? 'properties' : 'property'} selected
+                      </span>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={handleDeleteSelected}
+                        disabled={isDeleting}
+                        className="ml-auto cursor-pointer"
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        {isDeleting ? "Deleting..." : "Delete Selected"}
+                      </Button>
+                    </div>
+                  )}
               
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      {canUpload && (
-                        <TableHead className="w-12">
-                          <Checkbox
-                            checked={selectedIds.size === properties.length && properties.length > 0}
-                            onCheckedChange={(checked) => {
-                              if (checked) {
-                                setSelectedIds(new Set(properties.map(t => t.id)))
-                              } else {
-                                setSelectedIds(new Set())
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {canUpload && (
+                            <TableHead className="w-12">
+                              <Checkbox
+                                checked={selectedIds.size === properties.length && properties.length > 0}
+                                onCheckedChange={(checked) => {
+                                  if (checked) {
+                                    setSelectedIds(new Set(properties.map(t => t.id)))
+                                  } else {
+                                    setSelectedIds(new Set())
+                                  }
+                                }}
+                                className="cursor-pointer"
+                              />
+                            </TableHead>
+                          )}
+                          <SortableTableHead column="date" sort={sort} onSort={onSort}>Date</SortableTableHead>
+                          <SortableTableHead column="price" sort={sort} onSort={onSort}>Price (AED)</SortableTableHead>
+                          <SortableTableHead column="area_and_community" sort={sort} onSort={onSort}>Area & Community</SortableTableHead>
+                          <SortableTableHead column="project_name" sort={sort} onSort={onSort}>Project Name</SortableTableHead>
+                          <SortableTableHead column="building" sort={sort} onSort={onSort}>Building</SortableTableHead>
+                          <SortableTableHead column="unit_number" sort={sort} onSort={onSort}>Unit Number</SortableTableHead>
+                          <SortableTableHead column="size" sort={sort} onSort={onSort}>Size</SortableTableHead>
+                          <SortableTableHead column="property_type" sort={sort} onSort={onSort}>Property Type</SortableTableHead>
+                          <SortableTableHead column="bedroom" sort={sort} onSort={onSort}>Bedroom</SortableTableHead>
+                          <SortableTableHead column="owner_name" sort={sort} onSort={onSort}>Owner Name</SortableTableHead>
+                          <SortableTableHead column="mobile1" sort={sort} onSort={onSort}>Mobile</SortableTableHead>
+                          <SortableTableHead column="deal_type" sort={sort} onSort={onSort}>Deal Type</SortableTableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {properties.map((property) => (
+                          <TableRow 
+                            key={property.id}
+                            className={`hover:bg-muted/50 transition-colors ${highlightedIds.has(property.id) ? "bg-primary/5" : ""}`}
+                          >
+                            {canUpload && (
+                              <TableCell onClick={(e) => e.stopPropagation()}>
+                                <Checkbox
+                                  checked={selectedIds.has(property.id)}
+                                  onCheckedChange={(checked: boolean) => {
+                                    const newSelected = new Set(selectedIds)
+                                    if (checked) {
+                                      newSelected.add(property.id)
+                                    } else {
+                                      newSelected.delete(property.id)
+                                    }
+                                    setSelectedIds(newSelected)
+                                  }}
+                                  className="cursor-pointer"
+                                />
+                              </TableCell>
+                            )}
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              {formatDate(property.date)}
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              {formatPrice(property.price)}
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.area_and_community || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.project_name || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.building || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.unit_number || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              {property.size || "-"}
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.property_type || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              {property.bedroom || "-"}
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.owner_name || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.mobile1 || "-"} terms={matchedTerms} />
+                            </TableCell>
+                            <TableCell 
+                              className="cursor-pointer"
+                              onClick={() => openProperty(property)}
+                            >
+                              <HighlightedText text={property.deal_type || "-"} terms={matchedTerms} />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+              
+                  {totalPages > 1 && (
+                    <Pagination>
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href="#"
+                            onClick={(e) => {
+                              e.preventDefault()
+                              if (currentPage > 1) {
+                                setCurrentPage(currentPage - 1)
                               }
                             }}
-                            className="cursor-pointer"
+                            className={currentPage === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
                           />
-                        </TableHead>
-                      )}
-                      <TableHead>Date</TableHead>
-                      <TableHead>Price (AED)</TableHead>
-                      <TableHead>Area & Community</TableHead>
-                      <TableHead>Project Name</TableHead>
-                      <TableHead>Building</TableHead>
-                      <TableHead>Unit Number</TableHead>
-                      <TableHead>Size</TableHead>
-                      <TableHead>Property Type</TableHead>
-                      <TableHead>Bedroom</TableHead>
-                      <TableHead>Owner Name</TableHead>
-                      <TableHead>Mobile</TableHead>
-                      <TableHead>Deal Type</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {properties.map((property) => (
-                      <TableRow 
-                        key={property.id}
-                        className="hover:bg-muted/50"
-                      >
-                        {canUpload && (
-                          <TableCell onClick={(e) => e.stopPropagation()}>
-                            <Checkbox
-                              checked={selectedIds.has(property.id)}
-                              onCheckedChange={(checked: boolean) => {
-                                const newSelected = new Set(selectedIds)
-                                if (checked) {
-                                  newSelected.add(property.id)
-                                } else {
-                                  newSelected.delete(property.id)
-                                }
-                                setSelectedIds(newSelected)
-                              }}
-                              className="cursor-pointer"
-                            />
-                          </TableCell>
-                        )}
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {formatDate(property.date)}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {formatPrice(property.price)}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.area_and_community || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.project_name || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.building || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.unit_number || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.size || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.property_type || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.bedroom || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.owner_name || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.mobile1 || "-"}
-                        </TableCell>
-                        <TableCell 
-                          className="cursor-pointer"
-                          onClick={() => {
-                            setSelectedProperty(property)
-                            setIsDetailSheetOpen(true)
-                          }}
-                        >
-                          {property.deal_type || "-"}
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-              
-              {totalPages > 1 && (
-                <Pagination>
-                  <PaginationContent>
-                    <PaginationItem>
-                      <PaginationPrevious
-                        href="#"
-                        onClick={(e) => {
-                          e.preventDefault()
-                          if (currentPage > 1) {
-                            setCurrentPage(currentPage - 1)
-                          }
-                        }}
-                        className={currentPage === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
-                      />
-                    </PaginationItem>
+                        </PaginationItem>
                     
-                    {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                      let pageNum: number
-                      if (totalPages <= 5) {
-                        pageNum = i + 1
-                      } else if (currentPage <= 3) {
-                        pageNum = i + 1
-                      } else if (currentPage >= totalPages - 2) {
-                        pageNum = totalPages - 4 + i
-                      } else {
-                        pageNum = currentPage - 2 + i
-                      }
+                        {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                          let pageNum: number
+                          if (totalPages <= 5) {
+                            pageNum = i + 1
+                          } else if (currentPage <= 3) {
+                            pageNum = i + 1
+                          } else if (currentPage >= totalPages - 2) {
+                            pageNum = totalPages - 4 + i
+                          } else {
+                            pageNum = currentPage - 2 + i
+                          }
                       
-                      return (
-                        <PaginationItem key={pageNum}>
-                          <PaginationLink
+                          return (
+                            <PaginationItem key={pageNum}>
+                              <PaginationLink
+                                href="#"
+                                onClick={(e) => {
+                                  e.preventDefault()
+                                  setCurrentPage(pageNum)
+                                }}
+                                isActive={currentPage === pageNum}
+                                className="cursor-pointer"
+                              >
+                                {pageNum}
+                              </PaginationLink>
+                            </PaginationItem>
+                          )
+                        })}
+                    
+                        <PaginationItem>
+                          <PaginationNext
                             href="#"
                             onClick={(e) => {
                               e.preventDefault()
-                              setCurrentPage(pageNum)
+                              if (currentPage < totalPages) {
+                                setCurrentPage(currentPage + 1)
+                              }
                             }}
-                            isActive={currentPage === pageNum}
-                            className="cursor-pointer"
-                          >
-                            {pageNum}
-                          </PaginationLink>
+                            className={currentPage === totalPages ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                          />
                         </PaginationItem>
-                      )
-                    })}
-                    
-                    <PaginationItem>
-                      <PaginationNext
-                        href="#"
-                        onClick={(e) => {
-                          e.preventDefault()
-                          if (currentPage < totalPages) {
-                            setCurrentPage(currentPage + 1)
-                          }
-                        }}
-                        className={currentPage === totalPages ? "pointer-events-none opacity-50" : "cursor-pointer"}
-                      />
-                    </PaginationItem>
-                  </PaginationContent>
-                </Pagination>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </>
               )}
-            </>
-          )}
+            </TabsContent>
+
+            {canUpload && (
+              <TabsContent value="imports">
+                <ImportHistory
+                  table={propertyTransactionRepository.table}
+                  onRollback={canRollback ? setRollbackJob : undefined}
+                />
+              </TabsContent>
+            )}
+          </Tabs>
         </div>
           
           {/* Detail Sheet - Opens from right side */}
-          <Sheet open={isDetailSheetOpen} onOpenChange={setIsDetailSheetOpen}>
+          <Sheet open={isDetailSheetOpen} onOpenChange={(open) => !open && closeRecord()}>
             <SheetContent side="right" className="w-full sm:max-w-2xl overflow-y-auto p-4 sm:p-6">
               <SheetHeader className="mb-4">
                 <SheetTitle>Property Details</SheetTitle>
@@ -901,6 +821,42 @@ export default function DatabasePage() {
               )}
             </SheetContent>
           </Sheet>
+
+          {canUpload && (
+            <FindDuplicatesDialog
+              open={isFindDuplicatesOpen}
+              onOpenChange={setIsFindDuplicatesOpen}
+              scope={searchScope}
+              onMerged={() => fetchProperties(currentPage)}
+            />
+          )}
+
+          <TransactionExportDialog
+            open={isExportOpen}
+            onOpenChange={setIsExportOpen}
+            scope={searchScope}
+            order={compiledSearch.order}
+            query={searchQuery}
+            total={totalCount}
+            canExportPersonalData={canExportPersonalData(employee?.role)}
+          />
+
+          {canRollback && (
+            <RollbackImportDialog
+              job={rollbackJob}
+              onClose={() => setRollbackJob(null)}
+              onRolledBack={() => fetchProperties(currentPage)}
+            />
+          )}
+
+          {importFile && (
+            <TransactionImportDialog
+              key={`${importFile.name}-${importFile.lastModified}`}
+              file={importFile}
+              onClose={() => setImportFile(null)}
+              onImported={handleImported}
+            />
+          )}
         </div>
     </RoleBasedLayout>
   )
@@ -1,6 +1,5 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo, useRef } from "react"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -43,7 +42,6 @@ import {
 } from "@/components/ui/pagination"
 import { Pencil, Trash2, Plus, CalendarIcon } from "lucide-react"
 import { canViewDevelopers, canEditDevelopers } from "@/config/roles"
-import { supabase } from "@/lib/supabase"
 import { Calendar } from "@/components/ui/calendar"
 import {
   Popover,
@@ -53,10 +51,34 @@ import {
 import { format } from "date-fns"
 
 import type { Developer } from "@/types/developer"
+import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
 import { CardSkeleton } from "@/components/shared/CardSkeleton"
+import { RecordHistoryTabs } from "@/components/shared/RecordHistory"
+import { RecordConflictAlert } from "@/components/shared/RecordConflictAlert"
+import { SaveConflictDialog } from "@/components/shared/SaveConflictDialog"
+import { SortButtons } from "@/components/shared/SortButtons"
+import { useListSearchParams } from "@/hooks/useListSearchParams"
+import { useQuerySort } from "@/hooks/useQuerySort"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { useRecordConflict } from "@/hooks/useRecordConflict"
+import { useSaveConflict, type SaveResolution } from "@/hooks/useSaveConflict"
 import { formatError } from "@/lib/error-formatter"
+import { parseQuery } from "@/lib/query-parser"
+import { compileQuery, toListParams, type TableSchema } from "@/lib/query-compiler"
+import { uploadDeveloperLogo } from "@/lib/storage"
+import { developerRepository } from "@/lib/repositories/developer"
+import { deleteRecord } from "@/lib/recycle-bin"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { pageRange, type EntityInput, type ListParams, type ListResult } from "@/lib/repositories/base"
 import { toast } from "sonner"
 
+// Form values compared when merging concurrent edits (the foundation date lives in its own state)
+const toConflictForm = (developer: Developer) => ({
+  title: developer.title,
+  logo: developer.logo || "",
+  foundation_date: developer.foundation_date || "",
+})
+
 export default function DevelopersPage() {
   const { employee } = useAuth()
   const [developers, setDevelopers] = useState<Developer[]>([])
@@ -69,7 +91,7 @@ export default function DevelopersPage() {
   const [deletingDeveloperId, setDeletingDeveloperId] = useState<number | null>(null)
   const [logoFile, setLogoFile] = useState<File | null>(null)
   const [logoPreview, setLogoPreview] = useState<string | null>(null)
-  const [currentPage, setCurrentPage] = useState(1)
+  const { searchQuery, currentPage, setSearchQuery, setCurrentPage } = useListSearchParams()
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 12
   const [foundationDate, setFoundationDate] = useState<Date | undefined>(undefined)
@@ -78,73 +100,58 @@ export default function DevelopersPage() {
     logo: "",
   })
 
+  // Column configuration for search bar
+  const searchColumns = useMemo<SearchColumn[]>(() => [
+    { key: 'title', label: 'Title', type: 'text' },
+    { key: 'foundation_date', label: 'Founded', type: 'date' },
+    { key: 'created_at', label: 'Created At', type: 'date' },
+  ], [])
+  const searchSchema = useMemo<TableSchema>(() => ({
+    columns: searchColumns,
+    textSearchFields: ['title'],
+    defaultSort: { column: 'id', direction: 'asc' },
+  }), [searchColumns])
+
   const canView = canViewDevelopers(employee?.role)
   const canEdit = canEditDevelopers(employee?.role)
 
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
 
-  const uploadLogo = async (file: File): Promise<string> => {
-    // Generate unique filename
-    const fileExt = file.name.split('.').pop()
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`
+  const fetchDevelopers = useCallback(async (page: number = 1) => {
+    try {
+      setError(null)
 
-    // Get access token from current session
-    const { data: { session } } = await supabase.auth.getSession()
-    if (!session?.access_token) {
-      throw new Error("No active session found")
-    }
+      const compiled = compileQuery(parseQuery(searchQuery, searchColumns), searchSchema)
 
-    // Upload file to storage bucket "developers_logos"
-    await axios.post(
-      `${supabaseUrl}/storage/v1/object/developers_logos/${fileName}`,
-      file,
-      {
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-        },
+      const params: ListParams = {
+        ...toListParams(compiled),
+        ...pageRange(page, itemsPerPage),
+        count: true,
       }
-    )
+      const fetchId = ++fetchIdRef.current
 
-    // Return the URL format: https://{{supabase_project_id}}.supabase.co/storage/v1/object/developers_logos/{{logo_name}}
-    return `${supabaseUrl}/storage/v1/object/developers_logos/${fileName}`
-  }
-
-  const fetchDevelopers = useCallback(async (page: number = 1) => {
-    try {
-      setLoading(true)
-      setError(null)
+      const applyResult = ({ data, count }: ListResult<Developer>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
 
-      const offset = (page - 1) * itemsPerPage
-      const response = await axios.get(
-        `${supabaseUrl}/rest/v1/developer?select=*&limit=${itemsPerPage}&offset=${offset}`,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-            "Prefer": "count=exact",
-          },
-        }
-      )
-
-      // Get total count from Content-Range header
-      const contentRange = response.headers["content-range"]
-      if (contentRange) {
-        const match = contentRange.match(/\/(\d+)/)
-        if (match) {
-          setTotalCount(parseInt(match[1], 10))
+        if (count !== null) {
+          setTotalCount(count)
         }
+
+        setDevelopers(data)
       }
 
-      setDevelopers(response.data || [])
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!developerRepository.peek(params))
+      applyResult(await developerRepository.query(params, { onRevalidate: applyResult }))
     } catch (err: any) {
       console.error("Error fetching developers:", err)
       toast.error(formatError(err) || "Failed to fetch developers")
     } finally {
       setLoading(false)
     }
-  }, [supabaseUrl, supabaseAnonKey, itemsPerPage])
+  }, [itemsPerPage, searchQuery, searchColumns, searchSchema])
 
   useEffect(() => {
     if (!canView) {
@@ -153,11 +160,50 @@ export default function DevelopersPage() {
       return
     }
     
+    // Fetch when the search or page changes
     fetchDevelopers(currentPage)
-  }, [canView, currentPage]) // Removed fetchDevelopers from dependencies
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canView, searchQuery, currentPage])
+
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
   const totalPages = Math.ceil(totalCount / itemsPerPage)
 
+  // Live updates from other users
+  const { highlightedIds } = useRealtimeList({
+    table: "developer",
+    enabled: canView,
+    rows: developers,
+    setRows: setDevelopers,
+    refetch: () => fetchDevelopers(currentPage),
+  })
+
+  const conflictForm = {
+    ...formData,
+    foundation_date: foundationDate ? format(foundationDate, "yyyy-MM-dd") : "",
+  }
+
+  // Load a resolved conflict into the form
+  const applyConflictForm = (developer: Developer, { foundation_date, ...data }: typeof conflictForm) => {
+    setEditingDeveloper(developer)
+    setFormData(data)
+    setFoundationDate(foundation_date ? new Date(foundation_date) : undefined)
+    if (!logoFile) {
+      setLogoPreview(data.logo || null)
+    }
+  }
+
+  const recordConflict = useRecordConflict({
+    table: "developer",
+    record: editingDeveloper,
+    enabled: isDialogOpen,
+    formData: conflictForm,
+    toFormData: toConflictForm,
+    onResolve: applyConflictForm,
+  })
+
+  const saveConflict = useSaveConflict(toConflictForm)
+
   const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -206,19 +252,10 @@ export default function DevelopersPage() {
     try {
       setDeletingDeveloperId(developerId)
 
-      await axios.delete(
-        `${supabaseUrl}/rest/v1/developer?id=eq.${developerId}`,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      )
+      const batch = await deleteRecord('developer', developerId)
 
       await fetchDevelopers(currentPage)
-      toast.success("Developer deleted successfully")
+      toastDeletedWithUndo("Developer deleted successfully", batch, () => fetchDevelopers(currentPage))
     } catch (err: any) {
       console.error("Error deleting developer:", err)
       const message = formatError(err) || "Failed to delete developer. Please try again."
@@ -228,8 +265,11 @@ export default function DevelopersPage() {
     }
   }
 
-  const handleSave = async () => {
-    if (!formData.title.trim() || !foundationDate) {
+  // `resolved` re-saves with the record and values chosen after a save conflict
+  const handleSave = async (resolved?: SaveResolution<Developer, typeof conflictForm>) => {
+    const { foundation_date, ...data } = resolved?.formData ?? conflictForm
+    const developer = resolved?.record ?? editingDeveloper
+    if (!data.title.trim() || !foundation_date) {
       toast.error("Please fill in all required fields")
       return
     }
@@ -237,19 +277,17 @@ export default function DevelopersPage() {
     try {
       setIsSaving(true)
 
-      let logoUrl = formData.logo
+      let logoUrl = data.logo
 
       // Upload logo if a new file was selected
       if (logoFile) {
-        logoUrl = await uploadLogo(logoFile)
+        logoUrl = await uploadDeveloperLogo(logoFile)
       }
 
-      // Format date as YYYY-MM-DD
-      const formattedDate = format(foundationDate, 'yyyy-MM-dd')
-
-      const requestBody: any = {
-        title: formData.title.trim(),
-        foundation_date: formattedDate,
+      const requestBody: EntityInput<Developer> = {
+        title: data.title.trim(),
+        // Already formatted as YYYY-MM-DD
+        foundation_date,
       }
 
       // Only include logo if it has a value
@@ -260,41 +298,20 @@ export default function DevelopersPage() {
         requestBody.logo = null
       }
 
-      if (editingDeveloper) {
-        // Update existing developer
-        await axios.patch(
-          `${supabaseUrl}/rest/v1/developer?id=eq.${editingDeveloper.id}`,
-          requestBody,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+      if (developer) {
+        // Update existing developer, unless someone else changed it since it was loaded
+        await developerRepository.update(developer.id, requestBody, { expectedUpdatedAt: developer.updated_at })
       } else {
         // Create new developer
-        await axios.post(
-          `${supabaseUrl}/rest/v1/developer`,
-          requestBody,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+        await developerRepository.create(requestBody)
       }
 
       setIsDialogOpen(false)
       setIsAddDialogOpen(false)
       await fetchDevelopers(currentPage)
-      toast.success(editingDeveloper ? "Developer updated successfully" : "Developer created successfully")
+      toast.success(developer ? "Developer updated successfully" : "Developer created successfully")
     } catch (err: any) {
+      if (developer && saveConflict.detect(err, developer, { ...data, foundation_date })) return
       console.error("Error saving developer:", err)
       const message = formatError(err) || "Failed to save developer"
       toast.error(message)
@@ -375,6 +392,25 @@ export default function DevelopersPage() {
             </div>
           )}
 
+          <div className="mb-4 space-y-2">
+            <AdvancedSearchBar
+              columns={searchColumns}
+              value={searchQuery}
+              onApply={setSearchQuery}
+              savedSearchTable="developer"
+              valueSource={developerRepository}
+            />
+            <SortButtons
+              columns={[
+                { key: "title", label: "Title" },
+                { key: "foundation_date", label: "Founded" },
+                { key: "created_at", label: "Created" },
+              ]}
+              sort={sort}
+              onSort={onSort}
+            />
+          </div>
+
           {loading ? (
             <CardSkeleton count={8} showActions={canEdit} />
           ) : developers.length === 0 ? (
@@ -384,7 +420,7 @@ export default function DevelopersPage() {
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {developers.map((developer) => (
-                <Card key={developer.id} className="flex flex-col hover:shadow-lg transition-shadow">
+                <Card key={developer.id} className={`flex flex-col hover:shadow-lg transition-shadow ${highlightedIds.has(developer.id) ? "ring-2 ring-primary/30" : ""}`}>
                   <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                     <div className="flex-1 min-w-0">
                       <h3 className="text-lg font-semibold truncate">{developer.title}</h3>
@@ -532,75 +568,83 @@ export default function DevelopersPage() {
               Update the developer information below.
             </DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-logo">Logo</FieldLabel>
-                <Input
-                  id="edit-logo"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleLogoChange}
-                  disabled={isSaving}
-                  className="cursor-pointer"
-                />
-              </Field>
-              {logoPreview && (
-                <div className="mt-2">
-                  <img 
-                    src={logoPreview} 
-                    alt="Logo preview" 
-                    className="h-20 w-20 object-contain border rounded"
+          <RecordConflictAlert
+            conflict={recordConflict.conflict}
+            onMerge={recordConflict.merge}
+            onReload={recordConflict.reload}
+            onDismiss={recordConflict.dismiss}
+          />
+          <RecordHistoryTabs entity="developer" recordId={editingDeveloper?.id}>
+            <div className="grid gap-4 py-4">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-logo">Logo</FieldLabel>
+                  <Input
+                    id="edit-logo"
+                    type="file"
+                    accept="image/*"
+                    onChange={handleLogoChange}
+                    disabled={isSaving}
+                    className="cursor-pointer"
                   />
-                  <p className="text-sm text-muted-foreground mt-1">
-                    {logoFile ? `Selected: ${logoFile.name}` : "Current logo"}
-                  </p>
-                </div>
-              )}
-            </FieldGroup>
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-title">Title *</FieldLabel>
-                <Input
-                  id="edit-title"
-                  value={formData.title}
-                  onChange={(e) =>
-                    setFormData({ ...formData, title: e.target.value })
-                  }
-                  placeholder="Enter developer title"
-                  disabled={isSaving}
-                />
-              </Field>
-            </FieldGroup>
-            <FieldGroup>
-              <Field>
-                <FieldLabel>Foundation Date *</FieldLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className="w-full justify-start text-left font-normal cursor-pointer"
-                      disabled={isSaving}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {foundationDate ? format(foundationDate, "PPP") : <span className="text-muted-foreground">Pick a date</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={foundationDate}
-                      onSelect={setFoundationDate}
-                      initialFocus
-                      captionLayout="dropdown"
-                      fromYear={1900}
-                      toYear={new Date().getFullYear()}
+                </Field>
+                {logoPreview && (
+                  <div className="mt-2">
+                    <img 
+                      src={logoPreview} 
+                      alt="Logo preview" 
+                      className="h-20 w-20 object-contain border rounded"
                     />
-                  </PopoverContent>
-                </Popover>
-              </Field>
-            </FieldGroup>
-          </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {logoFile ? `Selected: ${logoFile.name}` : "Current logo"}
+                    </p>
+                  </div>
+                )}
+              </FieldGroup>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="edit-title">Title *</FieldLabel>
+                  <Input
+                    id="edit-title"
+                    value={formData.title}
+                    onChange={(e) =>
+                      setFormData({ ...formData, title: e.target.value })
+                    }
+                    placeholder="Enter developer title"
+                    disabled={isSaving}
+                  />
+                </Field>
+              </FieldGroup>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel>Foundation Date *</FieldLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start text-left font-normal cursor-pointer"
+                        disabled={isSaving}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {foundationDate ? format(foundationDate, "PPP") : <span className="text-muted-foreground">Pick a date</span>}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={foundationDate}
+                        onSelect={setFoundationDate}
+                        initialFocus
+                        captionLayout="dropdown"
+                        fromYear={1900}
+                        toYear={new Date().getFullYear()}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </Field>
+              </FieldGroup>
+            </div>
+          </RecordHistoryTabs>
           <DialogFooter>
             <Button
               variant="outline"
@@ -609,13 +653,23 @@ export default function DevelopersPage() {
             >
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={isSaving}>
+            <Button onClick={() => handleSave()} disabled={isSaving}>
               {isSaving ? "Saving..." : "Save Changes"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      <SaveConflictDialog
+        conflict={saveConflict.conflict}
+        onCancel={saveConflict.dismiss}
+        onResolve={(developer, data, save) => {
+          saveConflict.dismiss()
+          applyConflictForm(developer, data)
+          if (save) void handleSave({ record: developer, formData: data })
+        }}
+      />
+
       {/* Add Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent>
@@ -702,7 +756,7 @@ export default function DevelopersPage() {
             >
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={isSaving}>
+            <Button onClick={() => handleSave()} disabled={isSaving}>
               {isSaving ? "Creating..." : "Create Developer"}
             </Button>
           </DialogFooter>
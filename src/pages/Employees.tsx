@@ -1,6 +1,5 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo, useRef } from "react"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -37,9 +36,11 @@ import { Input } from "@/components/ui/input"
 import { useAuth } from "@/contexts/AuthContext"
 import type { Employee } from "@/types/auth"
 import { uploadAvatar } from "@/lib/storage"
-import { supabase } from "@/lib/supabase"
 import { TableSkeleton } from "@/components/shared/TableSkeleton"
 import { formatError } from "@/lib/error-formatter"
+import { apiRequest } from "@/lib/api"
+import { employeeRepository, EMPLOYEE_COLUMNS } from "@/lib/repositories/employee"
+import { pageRange, type EntityInput, type ListParams, type ListResult } from "@/lib/repositories/base"
 import { toast } from "sonner"
 import { 
   canEditEmployees, 
@@ -63,7 +64,12 @@ import {
 } from "@/components/ui/pagination"
 import { Pencil, Trash2 } from "lucide-react"
 import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { SortableTableHead } from "@/components/shared/SortableTableHead"
+import { useListSearchParams, useRecordFromUrl } from "@/hooks/useListSearchParams"
+import { useQuerySort } from "@/hooks/useQuerySort"
+import { RecordHistoryTabs } from "@/components/shared/RecordHistory"
 import { parseQuery } from "@/lib/query-parser"
+import { compileQuery, toListParams, type TableSchema } from "@/lib/query-compiler"
 import {
   Avatar,
   AvatarFallback,
@@ -83,24 +89,29 @@ export default function EmployeesPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null)
-  const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [deletingEmployeeId, setDeletingEmployeeId] = useState<string | null>(null)
   const [avatarFile, setAvatarFile] = useState<File | null>(null)
   const [avatarPreview, setAvatarPreview] = useState<string | null>(null)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [currentPage, setCurrentPage] = useState(1)
+  const { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord } = useListSearchParams()
+  // The edit dialog shows the record named in the URL
+  const isDialogOpen = recordId !== null && editingEmployee?.id === recordId
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 10
   
   // Column configuration for search bar
-  const searchColumns: SearchColumn[] = [
+  const searchColumns = useMemo<SearchColumn[]>(() => [
     { key: 'full_name', label: 'Full Name', type: 'text' },
     { key: 'email', label: 'Email', type: 'text' },
     { key: 'phone', label: 'Phone', type: 'text' },
-    { key: 'role', label: 'Role', type: 'text' },
-  ]
+    { key: 'role', label: 'Role', type: 'text', facet: true },
+  ], [])
+  const searchSchema = useMemo<TableSchema>(() => ({
+    columns: searchColumns,
+    textSearchFields: ['full_name', 'email', 'phone'],
+    defaultSort: { column: 'id', direction: 'asc' },
+  }), [searchColumns])
   const [formData, setFormData] = useState({
     full_name: "",
     email: "",
@@ -114,98 +125,61 @@ export default function EmployeesPage() {
   const canEditRole = canEditEmployeeRole(employee?.role)
   const editableRoles = getEditableRoles(employee?.role)
 
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
+
   const fetchEmployees = useCallback(async (page: number = 1) => {
     try {
-      setLoading(true)
       setError(null)
 
-      // Use REST API directly
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+      const compiled = compileQuery(parseQuery(searchQuery, searchColumns), searchSchema)
 
-      const offset = (page - 1) * itemsPerPage
-      const parsed = parseQuery(searchQuery, searchColumns)
-      
-      // Skip incomplete filters
-      const completeFilters = parsed.filters.filter(f => f.value && f.value.trim())
-      const effectiveParsed = {
-        ...parsed,
-        filters: completeFilters
-      }
-      
-      let url = `${supabaseUrl}/rest/v1/account?select=id,user_id,email,phone,full_name,avatar,role`
-      
-      // Add text search
-      if (effectiveParsed.textSearch && effectiveParsed.textSearch.trim()) {
-        const searchPattern = `*${effectiveParsed.textSearch.trim()}*`
-        url += `&or=(full_name.ilike.${encodeURIComponent(searchPattern)},email.ilike.${encodeURIComponent(searchPattern)},phone.ilike.${encodeURIComponent(searchPattern)})`
-      }
-      
-      // Add filters
-      for (const filter of effectiveParsed.filters) {
-        const column = searchColumns.find(col => col.key === filter.column)
-        if (!column) continue
-        
-        switch (filter.operator) {
-          case '=':
-          default:
-            url += `&${filter.column}=ilike.${encodeURIComponent(`%${filter.value}%`)}`
-            break
-        }
-      }
-      
-      // Add sorting
-      if (effectiveParsed.sort) {
-        url += `&order=${effectiveParsed.sort.column}.${effectiveParsed.sort.direction}`
-      } else {
-        url += `&order=id.asc`
+      const params: ListParams = {
+        select: EMPLOYEE_COLUMNS,
+        ...toListParams(compiled),
+        ...pageRange(page, itemsPerPage),
+        count: true,
       }
-      
-      url += `&limit=${itemsPerPage}&offset=${offset}`
-      
-      const response = await axios.get(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': supabaseAnonKey,
-          'Authorization': `Bearer ${supabaseAnonKey}`,
-          'Prefer': 'count=exact',
-        },
-      })
+      const fetchId = ++fetchIdRef.current
 
-      // Get total count from Content-Range header
-      const contentRange = response.headers["content-range"]
-      if (contentRange) {
-        const match = contentRange.match(/\/(\d+)/)
-        if (match) {
-          setTotalCount(parseInt(match[1], 10))
+      const applyResult = ({ data, count }: ListResult<Employee>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
+
+        if (count !== null) {
+          setTotalCount(count)
         }
-      }
 
-      const allEmployees = response.data as Employee[]
+        const allEmployees = data
 
-      // Filter employees with roles based on role hierarchy
-      // Only show employees with roles (exclude null roles - they go to Users page)
-      const filteredEmployees = allEmployees.filter(emp => {
-        // Skip employees with null roles (they go to Users page)
-        if (emp.role === null || emp.role === undefined) {
-          return false
-        }
-        
-        // Exclude logged-in user itself
-        if (employee?.user_id && emp.user_id === employee.user_id) {
-          return false
-        }
-        
-        // Must be able to see the employee based on hierarchy
-        // User cannot see employees with same or lower level (higher authority)
-        if (!canSeeEmployee(employee?.role, emp.role as UserRole)) {
-          return false
-        }
-        
-        return true
-      })
-      
-      setEmployees(filteredEmployees)
+        // Filter employees with roles based on role hierarchy
+        // Only show employees with roles (exclude null roles - they go to Users page)
+        const filteredEmployees = allEmployees.filter(emp => {
+          // Skip employees with null roles (they go to Users page)
+          if (emp.role === null || emp.role === undefined) {
+            return false
+          }
+
+          // Exclude logged-in user itself
+          if (employee?.user_id && emp.user_id === employee.user_id) {
+            return false
+          }
+
+          // Must be able to see the employee based on hierarchy
+          // User cannot see employees with same or lower level (higher authority)
+          if (!canSeeEmployee(employee?.role, emp.role as UserRole)) {
+            return false
+          }
+
+          return true
+        })
+
+        setEmployees(filteredEmployees)
+      }
+
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!employeeRepository.peek(params))
+      applyResult(await employeeRepository.query(params, { onRevalidate: applyResult }))
     } catch (err) {
       const errorMessage = formatError(err) || "Failed to fetch employees"
       toast.error(errorMessage)
@@ -213,7 +187,7 @@ export default function EmployeesPage() {
     } finally {
       setLoading(false)
     }
-  }, [employee?.role, employee?.user_id, itemsPerPage, searchQuery, searchColumns])
+  }, [employee?.role, employee?.user_id, itemsPerPage, searchQuery, searchColumns, searchSchema])
 
   // Main effect: fetch employees when dependencies change
   useEffect(() => {
@@ -229,27 +203,12 @@ export default function EmployeesPage() {
       return
     }
 
-    // Debounced search
-    const timeoutId = setTimeout(() => {
-      setCurrentPage(1)
-      fetchEmployees(1)
-    }, searchQuery.trim() ? 1500 : 0)
-
-    return () => clearTimeout(timeoutId)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authLoading, canView, searchQuery])
-
-  // Fetch when page changes
-  useEffect(() => {
-    if (authLoading || !canView) return
+    // Fetch when the search or page changes
     fetchEmployees(currentPage)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authLoading, canView, currentPage])
+  }, [authLoading, canView, searchQuery, currentPage])
 
-  const handleSearchApply = useCallback((query: string) => {
-    setSearchQuery(query)
-    setCurrentPage(1)
-  }, [])
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
   const totalPages = Math.ceil(totalCount / itemsPerPage)
 
@@ -265,9 +224,29 @@ export default function EmployeesPage() {
     })
     setAvatarFile(null)
     setAvatarPreview(emp.avatar || null)
-    setIsDialogOpen(true)
+    openRecord(emp.id)
   }
 
+  // Open the employee linked in the URL (shared links, back/forward)
+  useRecordFromUrl({
+    recordId,
+    record: editingEmployee,
+    load: async (id) => {
+      // Links use the numeric account id; the repository is keyed by user_id
+      const { data } = await employeeRepository.list({
+        select: EMPLOYEE_COLUMNS,
+        filters: [{ column: 'id', operator: 'eq', value: id }],
+        limit: 1,
+      })
+      return data[0] ?? null
+    },
+    onLoad: handleEdit,
+    onMissing: () => {
+      toast.error("Employee not found")
+      closeRecord()
+    },
+  })
+
   const handleAvatarChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -303,38 +282,20 @@ export default function EmployeesPage() {
       setDeletingEmployeeId(emp.user_id)
       setError(null)
       
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
       const supabaseServiceKey = import.meta.env.VITE_SUPABASE_SERVICE_KEY
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
       if (!supabaseServiceKey) {
         throw new Error("Service key is not configured")
       }
 
       // Step 1: Delete auth user using admin API
-      await axios.delete(
-        `${supabaseUrl}/auth/v1/admin/users/${emp.user_id}`,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'apikey': supabaseServiceKey,
-            'Authorization': `Bearer ${supabaseServiceKey}`,
-          },
-        }
-      )
+      await apiRequest('DELETE', `/auth/v1/admin/users/${emp.user_id}`, undefined, {
+        accessToken: supabaseServiceKey,
+        headers: { 'apikey': supabaseServiceKey },
+      })
 
       // Step 2: Delete account record from database
-      await axios.delete(
-        `${supabaseUrl}/rest/v1/account?user_id=eq.${emp.user_id}`,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'apikey': supabaseAnonKey,
-            'Authorization': `Bearer ${supabaseAnonKey}`,
-            'Prefer': 'return=minimal',
-          },
-        }
-      )
+      await employeeRepository.remove(emp.user_id)
 
       await fetchEmployees(currentPage)
     } catch (err) {
@@ -368,20 +329,14 @@ export default function EmployeesPage() {
         }
       }
 
-      // Get access token from Supabase auth
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session?.access_token) {
-        throw new Error('No active session found')
-      }
-
       let avatarUrl = formData.avatar
 
       // Upload avatar if a new file was selected
       if (avatarFile) {
-        avatarUrl = await uploadAvatar(avatarFile, session.access_token)
+        avatarUrl = await uploadAvatar(avatarFile)
       }
 
-      const updateData: Record<string, unknown> = {}
+      const updateData: EntityInput<Employee> = {}
 
       // Only update fields that have changed
       if (formData.full_name !== (editingEmployee.full_name || "")) {
@@ -430,32 +385,13 @@ export default function EmployeesPage() {
       
       // Don't send empty update
       if (Object.keys(updateData).length === 0) {
-        setIsDialogOpen(false)
+        closeRecord()
         return
       }
 
-      // Use REST API directly with anon key
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-      try {
-        await axios.patch(
-          `${supabaseUrl}/rest/v1/account?user_id=eq.${editingEmployee.user_id}`,
-          updateData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'apikey': supabaseAnonKey,
-              'Authorization': `Bearer ${supabaseAnonKey}`,
-              'Prefer': 'return=minimal',
-            },
-          }
-        )
-      } catch (error: any) {
-        throw error
-      }
+      await employeeRepository.update(editingEmployee.user_id, updateData)
 
-      setIsDialogOpen(false)
+      closeRecord()
       setEditingEmployee(null)
       setAvatarFile(null)
       setAvatarPreview(null)
@@ -499,20 +435,14 @@ export default function EmployeesPage() {
         }
       }
 
-      // Get access token from Supabase auth for avatar upload
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session?.access_token) {
-        throw new Error('No active session found')
-      }
-
       let avatarUrl = formData.avatar
 
       // Upload avatar if a new file was selected
       if (avatarFile) {
-        avatarUrl = await uploadAvatar(avatarFile, session.access_token)
+        avatarUrl = await uploadAvatar(avatarFile)
       }
 
-      const newEmployeeData: Record<string, unknown> = {
+      const newEmployeeData: EntityInput<Employee> = {
         full_name: formData.full_name,
         email: formData.email,
         phone: formData.phone,
@@ -527,26 +457,7 @@ export default function EmployeesPage() {
         newEmployeeData.role = formData.role === 'Null' ? null : formData.role
       }
 
-      // TODO: Replace with actual add endpoint when provided
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-      try {
-        await axios.post(
-          `${supabaseUrl}/rest/v1/account`,
-          newEmployeeData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'apikey': supabaseAnonKey,
-              'Authorization': `Bearer ${supabaseAnonKey}`,
-              'Prefer': 'return=representation',
-            },
-          }
-        )
-      } catch (error: any) {
-        throw error
-      }
+      await employeeRepository.create(newEmployeeData)
 
       setIsAddDialogOpen(false)
       setAvatarFile(null)
@@ -632,8 +543,9 @@ export default function EmployeesPage() {
             <AdvancedSearchBar
               columns={searchColumns}
               value={searchQuery}
-              onChange={setSearchQuery}
-              onApply={handleSearchApply}
+              onApply={setSearchQuery}
+              savedSearchTable="account"
+              facets={{ source: employeeRepository, schema: searchSchema }}
             />
           </div>
 
@@ -656,10 +568,10 @@ export default function EmployeesPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Avatar</TableHead>
-                    <TableHead>Full Name</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Phone</TableHead>
-                    <TableHead>Role</TableHead>
+                    <SortableTableHead column="full_name" sort={sort} onSort={onSort}>Full Name</SortableTableHead>
+                    <SortableTableHead column="email" sort={sort} onSort={onSort}>Email</SortableTableHead>
+                    <SortableTableHead column="phone" sort={sort} onSort={onSort}>Phone</SortableTableHead>
+                    <SortableTableHead column="role" sort={sort} onSort={onSort}>Role</SortableTableHead>
                     {canEdit && <TableHead className="text-right">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
@@ -800,7 +712,7 @@ export default function EmployeesPage() {
         </div>
       </div>
 
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeRecord()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Edit Employee</DialogTitle>
@@ -808,132 +720,134 @@ export default function EmployeesPage() {
               Update employee information. Click save when you're done.
             </DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            <FieldGroup>
-              <Field>
-                <FieldLabel>Avatar</FieldLabel>
-                <div className="flex items-center gap-4">
-                  <Avatar className="h-16 w-16 cursor-pointer" onClick={() => document.getElementById('avatar_file_input')?.click()}>
-                    <AvatarImage src={avatarPreview || editingEmployee?.avatar || undefined} alt={editingEmployee?.full_name || ""} />
-                    <AvatarFallback>
-                      {editingEmployee?.full_name
-                        ?.split(" ")
-                        .map((n) => n[0])
-                        .join("")
-                        .toUpperCase()
-                        .slice(0, 2) || "N"}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1">
-                    <Input
-                      id="avatar_file_input"
-                      type="file"
-                      accept="image/*"
-                      onChange={handleAvatarChange}
-                      className="cursor-pointer"
-                      style={{ display: 'none' }}
-                    />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => document.getElementById('avatar_file_input')?.click()}
-                      disabled={isSaving}
-                    >
-                      Choose Image
-                    </Button>
-                    {avatarFile && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Selected: {avatarFile.name}
-                      </p>
-                    )}
-                    {!avatarFile && (
-                      <p className="text-xs text-muted-foreground mt-1">
-                        Click to choose an image from your device
-                      </p>
-                    )}
+          <RecordHistoryTabs entity="account" recordId={editingEmployee?.user_id}>
+            <div className="grid gap-4 py-4">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel>Avatar</FieldLabel>
+                  <div className="flex items-center gap-4">
+                    <Avatar className="h-16 w-16 cursor-pointer" onClick={() => document.getElementById('avatar_file_input')?.click()}>
+                      <AvatarImage src={avatarPreview || editingEmployee?.avatar || undefined} alt={editingEmployee?.full_name || ""} />
+                      <AvatarFallback>
+                        {editingEmployee?.full_name
+                          ?.split(" ")
+                          .map((n) => n[0])
+                          .join("")
+                          .toUpperCase()
+                          .slice(0, 2) || "N"}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1">
+                      <Input
+                        id="avatar_file_input"
+                        type="file"
+                        accept="image/*"
+                        onChange={handleAvatarChange}
+                        className="cursor-pointer"
+                        style={{ display: 'none' }}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => document.getElementById('avatar_file_input')?.click()}
+                        disabled={isSaving}
+                      >
+                        Choose Image
+                      </Button>
+                      {avatarFile && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Selected: {avatarFile.name}
+                        </p>
+                      )}
+                      {!avatarFile && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Click to choose an image from your device
+                        </p>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="full_name">Full Name</FieldLabel>
-                <Input
-                  id="full_name"
-                  value={formData.full_name}
-                  onChange={(e) =>
-                    setFormData({ ...formData, full_name: e.target.value })
-                  }
-                  disabled={isSaving}
-                />
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="email">Email</FieldLabel>
-                <Input
-                  id="email"
-                  type="email"
-                  value={formData.email}
-                  readOnly
-                  className="bg-muted cursor-not-allowed"
-                  disabled
-                />
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="phone">Phone</FieldLabel>
-                <Input
-                  id="phone"
-                  value={formData.phone}
-                  onChange={(e) =>
-                    setFormData({ ...formData, phone: e.target.value })
-                  }
-                  disabled={isSaving}
-                />
-              </Field>
-              {canEditRole && editableRoles.length > 0 ? (
+                </Field>
                 <Field>
-                  <FieldLabel htmlFor="role">Role</FieldLabel>
-                  <Select
-                    value={formData.role}
-                    onValueChange={(value) =>
-                      setFormData({ ...formData, role: value as UserRole })
+                  <FieldLabel htmlFor="full_name">Full Name</FieldLabel>
+                  <Input
+                    id="full_name"
+                    value={formData.full_name}
+                    onChange={(e) =>
+                      setFormData({ ...formData, full_name: e.target.value })
                     }
                     disabled={isSaving}
-                  >
-                    <SelectTrigger id="role">
-                      <SelectValue placeholder="Select a role" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {editableRoles
-                        .sort((a, b) => {
-                          const indexA = ROLE_ORDER.indexOf(a)
-                          const indexB = ROLE_ORDER.indexOf(b)
-                          // If role not in order list, put it at the end
-                          if (indexA === -1 && indexB === -1) return 0
-                          if (indexA === -1) return 1
-                          if (indexB === -1) return -1
-                          return indexA - indexB
-                        })
-                        .map((role) => (
-                          <SelectItem key={role} value={role}>
-                            {ROLE_DISPLAY_NAMES[role]}
-                          </SelectItem>
-                        ))}
-                    </SelectContent>
-                  </Select>
+                  />
                 </Field>
-              ) : editingEmployee ? (
                 <Field>
-                  <FieldLabel>Role</FieldLabel>
-                  <div className="px-3 py-2 rounded-md border bg-muted text-sm">
-                    {editingEmployee.role || "No Role"}
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Role cannot be changed from this interface. Contact administrator to change role.
-                  </p>
+                  <FieldLabel htmlFor="email">Email</FieldLabel>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    readOnly
+                    className="bg-muted cursor-not-allowed"
+                    disabled
+                  />
                 </Field>
-              ) : null}
-            </FieldGroup>
-          </div>
+                <Field>
+                  <FieldLabel htmlFor="phone">Phone</FieldLabel>
+                  <Input
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) =>
+                      setFormData({ ...formData, phone: e.target.value })
+                    }
+                    disabled={isSaving}
+                  />
+                </Field>
+                {canEditRole && editableRoles.length > 0 ? (
+                  <Field>
+                    <FieldLabel htmlFor="role">Role</FieldLabel>
+                    <Select
+                      value={formData.role}
+                      onValueChange={(value) =>
+                        setFormData({ ...formData, role: value as UserRole })
+                      }
+                      disabled={isSaving}
+                    >
+                      <SelectTrigger id="role">
+                        <SelectValue placeholder="Select a role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {editableRoles
+                          .sort((a, b) => {
+                            const indexA = ROLE_ORDER.indexOf(a)
+                            const indexB = ROLE_ORDER.indexOf(b)
+                            // If role not in order list, put it at the end
+                            if (indexA === -1 && indexB === -1) return 0
+                            if (indexA === -1) return 1
+                            if (indexB === -1) return -1
+                            return indexA - indexB
+                          })
+                          .map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_DISPLAY_NAMES[role]}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </Field>
+                ) : editingEmployee ? (
+                  <Field>
+                    <FieldLabel>Role</FieldLabel>
+                    <div className="px-3 py-2 rounded-md border bg-muted text-sm">
+                      {editingEmployee.role || "No Role"}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Role cannot be changed from this interface. Contact administrator to change role.
+                    </p>
+                  </Field>
+                ) : null}
+              </FieldGroup>
+            </div>
+          </RecordHistoryTabs>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+            <Button variant="outline" onClick={closeRecord} disabled={isSaving}>
               Cancel
             </Button>
             <Button onClick={handleSave} disabled={isSaving}>
@@ -1,7 +1,6 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo, useRef } from "react"
 import { useParams } from "react-router-dom"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -18,9 +17,27 @@ import { ProjectFormDialog } from "@/components/projects/ProjectFormDialog"
 import { ProjectsTable } from "@/components/projects/ProjectsTable"
 import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
 import { parseQuery } from "@/lib/query-parser"
+import { compileQuery, toListParams, type TableSchema } from "@/lib/query-compiler"
 import { TableSkeleton } from "@/components/shared/TableSkeleton"
 import { Pagination } from "@/components/shared/Pagination"
+import { RecordConflictAlert } from "@/components/shared/RecordConflictAlert"
+import { SaveConflictDialog } from "@/components/shared/SaveConflictDialog"
+import { useListSearchParams, useRecordFromUrl } from "@/hooks/useListSearchParams"
+import { useQuerySort } from "@/hooks/useQuerySort"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { useRecordConflict } from "@/hooks/useRecordConflict"
+import { useSaveConflict, type SaveResolution } from "@/hooks/useSaveConflict"
 import { formatError } from "@/lib/error-formatter"
+import { uploadProjectFile } from "@/lib/storage"
+import { projectRepository } from "@/lib/repositories/project"
+import { projectMediaRepository } from "@/lib/repositories/project-media"
+import { projectTravelTimeRepository } from "@/lib/repositories/project-travel-time"
+import { projectPaymentPlanRepository } from "@/lib/repositories/project-payment-plan"
+import { developerRepository } from "@/lib/repositories/developer"
+import { areaRepository } from "@/lib/repositories/area"
+import { deleteRecord } from "@/lib/recycle-bin"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { pageRange, type EntityInput, type Filter, type ListParams, type ListResult } from "@/lib/repositories/base"
 import { toast } from "sonner"
 import { useAuth } from "@/contexts/AuthContext"
 import { canEditProjects } from "@/config/roles"
@@ -33,6 +50,19 @@ import type { Project, ProjectMedia, ProjectTravelTime, ProjectPaymentPlan } fro
 import type { Developer } from "@/types/developer"
 import type { Area } from "@/types/area"
 
+const toFormData = (project: Project) => ({
+  title: project.title || "",
+  slug: project.slug || "",
+  developer_id: project.developer_id?.toString() || "",
+  area_id: project.area_id?.toString() || "",
+  price: project.price?.toString() || "",
+  latitude: project.latitude?.toString() || "",
+  longitude: project.longitude?.toString() || "",
+  file_brochure: project.file_brochure || "",
+  file_floor_plan: project.file_floor_plan || "",
+  type: project.type || "Off Plan",
+})
+
 export default function ProjectsPage() {
   const { type: typeSlug } = useParams<{ type: string }>()
   const projectType = typeSlug ? SLUG_TO_PROJECT_TYPE[typeSlug] : undefined
@@ -44,20 +74,31 @@ export default function ProjectsPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
-  const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [deletingProjectId, setDeletingProjectId] = useState<number | null>(null)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [currentPage, setCurrentPage] = useState(1)
+  const { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord } = useListSearchParams()
+  // The edit dialog shows the record named in the URL
+  const isDialogOpen = recordId !== null && editingProject?.id === recordId
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 10
   
   // Column configuration for search bar
-  const searchColumns: SearchColumn[] = [
+  const searchColumns = useMemo<SearchColumn[]>(() => [
     { key: 'title', label: 'Title', type: 'text' },
-    { key: 'price', label: 'Price', type: 'number' },
-  ]
+    { key: 'price', label: 'Price', type: 'number', facet: true },
+    { key: 'created_at', label: 'Created At', type: 'date' },
+  ], [])
+  const searchSchema = useMemo<TableSchema>(() => ({
+    columns: searchColumns,
+    textSearchFields: ['title', 'slug'],
+    defaultSort: { column: 'id', direction: 'asc' },
+  }), [searchColumns])
+  // Each route lists the projects of one type
+  const typeFilters = useMemo<Filter[]>(
+    () => projectType ? [{ column: 'type', operator: 'eq', value: projectType }] : [],
+    [projectType]
+  )
   const [formData, setFormData] = useState({
     title: "",
     slug: "",
@@ -86,104 +127,39 @@ export default function ProjectsPage() {
   // RBAC: IT, CEO, Admin (roles 0, 1, 2) can CRUD; other roles can view only
   const canEdit = canEditProjects(employee?.role)
 
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
 
   const fetchProjects = useCallback(async (page: number = 1) => {
     if (!projectType) return
     
     try {
-      setLoading(true)
       setError(null)
 
-      const offset = (page - 1) * itemsPerPage
-      const parsed = parseQuery(searchQuery, searchColumns)
-      
-      // Skip incomplete filters
-      const completeFilters = parsed.filters.filter(f => f.value && f.value.trim())
-      const effectiveParsed = {
-        ...parsed,
-        filters: completeFilters
-      }
-      
-      let url = `${supabaseUrl}/rest/v1/project?select=*&type=eq.${encodeURIComponent(projectType)}`
-      
-      // Add text search
-      if (effectiveParsed.textSearch && effectiveParsed.textSearch.trim()) {
-        const searchPattern = `*${effectiveParsed.textSearch.trim()}*`
-        url += `&or=(title.ilike.${encodeURIComponent(searchPattern)},slug.ilike.${encodeURIComponent(searchPattern)})`
-      }
-      
-      // Add filters
-      for (const filter of effectiveParsed.filters) {
-        const column = searchColumns.find(col => col.key === filter.column)
-        if (!column) continue
-        
-        let filterValue: string | number = filter.value
-        if (column.type === 'number') {
-          const numValue = parseFloat(filter.value)
-          if (!isNaN(numValue)) {
-            filterValue = numValue
-          } else {
-            continue
-          }
-        }
-        
-        switch (filter.operator) {
-          case '>':
-            url += `&${filter.column}=gt.${encodeURIComponent(filterValue)}`
-            break
-          case '>=':
-            url += `&${filter.column}=gte.${encodeURIComponent(filterValue)}`
-            break
-          case '<':
-            url += `&${filter.column}=lt.${encodeURIComponent(filterValue)}`
-            break
-          case '<=':
-            url += `&${filter.column}=lte.${encodeURIComponent(filterValue)}`
-            break
-          case '!=':
-            url += `&${filter.column}=neq.${encodeURIComponent(filterValue)}`
-            break
-          case '=':
-          default:
-            if (column.type === 'number') {
-              url += `&${filter.column}=eq.${encodeURIComponent(filterValue)}`
-            } else {
-              url += `&${filter.column}=ilike.${encodeURIComponent(`%${filter.value}%`)}`
-            }
-            break
-        }
-      }
-      
-      // Add sorting
-      if (effectiveParsed.sort) {
-        url += `&order=${effectiveParsed.sort.column}.${effectiveParsed.sort.direction}`
-      } else {
-        url += `&order=id.asc`
+      const compiled = compileQuery(parseQuery(searchQuery, searchColumns), searchSchema)
+
+      const params: ListParams = {
+        ...toListParams(compiled),
+        filters: [...typeFilters, ...compiled.filters],
+        ...pageRange(page, itemsPerPage),
+        count: true,
       }
-      
-      url += `&limit=${itemsPerPage}&offset=${offset}`
-
-      const response = await axios.get(url, {
-        headers: {
-          "apikey": supabaseAnonKey,
-          "Authorization": `Bearer ${supabaseAnonKey}`,
-          "Content-Type": "application/json",
-          "Prefer": "count=exact",
-        },
-      })
+      const fetchId = ++fetchIdRef.current
 
-      // Get total count from Content-Range header
-      const contentRange = response.headers["content-range"]
-      if (contentRange) {
-        const match = contentRange.match(/\/(\d+)/)
-        if (match) {
-          setTotalCount(parseInt(match[1], 10))
+      const applyResult = ({ data, count }: ListResult<Project>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
+
+        if (count !== null) {
+          setTotalCount(count)
         }
+
+        setProjects(data)
       }
 
-      setProjects(response.data || [])
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!projectRepository.peek(params))
+      applyResult(await projectRepository.query(params, { onRevalidate: applyResult }))
     } catch (err: unknown) {
       console.error("Error fetching projects:", err)
       const message = formatError(err) || "Failed to fetch projects"
@@ -191,45 +167,39 @@ export default function ProjectsPage() {
     } finally {
       setLoading(false)
     }
-  }, [supabaseUrl, supabaseAnonKey, itemsPerPage, projectType, searchQuery, searchColumns])
+  }, [itemsPerPage, projectType, searchQuery, searchColumns, searchSchema, typeFilters])
 
   const fetchDevelopers = useCallback(async () => {
     try {
-      const response = await axios.get(
-        `${supabaseUrl}/rest/v1/developer?select=id,title&order=title.asc`,
+      const { data } = await developerRepository.query(
         {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
+          select: 'id,title',
+          order: [{ column: 'title', direction: 'asc' }],
+        },
+        { onRevalidate: (result) => setDevelopers(result.data) }
       )
 
-      setDevelopers(response.data || [])
+      setDevelopers(data)
     } catch (err) {
       console.error("Error fetching developers:", err)
     }
-  }, [supabaseUrl, supabaseAnonKey])
+  }, [])
 
   const fetchAreas = useCallback(async () => {
     try {
-      const response = await axios.get(
-        `${supabaseUrl}/rest/v1/area?select=id,title,city&order=title.asc`,
+      const { data } = await areaRepository.query(
         {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
+          select: 'id,title,city',
+          order: [{ column: 'title', direction: 'asc' }],
+        },
+        { onRevalidate: (result) => setAreas(result.data) }
       )
 
-      setAreas(response.data || [])
+      setAreas(data)
     } catch (err) {
       console.error("Error fetching areas:", err)
     }
-  }, [supabaseUrl, supabaseAnonKey])
+  }, [])
 
   useEffect(() => {
     if (projectType) {
@@ -238,97 +208,73 @@ export default function ProjectsPage() {
     }
   }, [projectType, fetchDevelopers, fetchAreas])
 
-  // Reset page when project type changes
-  useEffect(() => {
-    if (projectType) {
-      setCurrentPage(1)
-      setSearchQuery("")
-    }
-  }, [projectType])
-
-  // Main effect: fetch projects when dependencies change
-  useEffect(() => {
-    if (!projectType) return
-    
-    // Debounced search
-    const timeoutId = setTimeout(() => {
-      setCurrentPage(1)
-      fetchProjects(1)
-    }, searchQuery.trim() ? 1500 : 0)
-
-    return () => clearTimeout(timeoutId)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [projectType, searchQuery])
-
-  // Fetch when page changes
+  // Main effect: fetch projects when the project type, search or page changes
+  // (switching project types starts with a fresh URL, so there is no search or page to reset)
   useEffect(() => {
     if (!projectType) return
     fetchProjects(currentPage)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage])
+  }, [projectType, searchQuery, currentPage])
 
-  const handleSearchApply = useCallback((query: string) => {
-    setSearchQuery(query)
-    setCurrentPage(1)
-  }, [])
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
   const totalPages = Math.ceil(totalCount / itemsPerPage)
 
+  // Live updates from other users
+  const { highlightedIds } = useRealtimeList({
+    table: "project",
+    enabled: Boolean(projectType),
+    rows: projects,
+    setRows: setProjects,
+    refetch: () => fetchProjects(currentPage),
+  })
+
+  const recordConflict = useRecordConflict({
+    table: "project",
+    record: editingProject,
+    enabled: isDialogOpen,
+    formData,
+    toFormData,
+    onResolve: (project, data) => {
+      setEditingProject(project)
+      setFormData(data)
+    },
+  })
+
+  const saveConflict = useSaveConflict(toFormData)
+
   const handleEdit = async (project: Project) => {
     setEditingProject(project)
-    setFormData({
-      title: project.title || "",
-      slug: project.slug || "",
-      developer_id: project.developer_id?.toString() || "",
-      area_id: project.area_id?.toString() || "",
-      price: project.price?.toString() || "",
-      latitude: project.latitude?.toString() || "",
-      longitude: project.longitude?.toString() || "",
-      file_brochure: project.file_brochure || "",
-      file_floor_plan: project.file_floor_plan || "",
-      type: project.type || "Off Plan",
-    })
+    setFormData(toFormData(project))
     setMediaToDelete([])
     setTravelTimesToDelete([])
     setPaymentPlansToDelete([])
     
     // Fetch existing project data in parallel for better performance
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-    
-    const headers = {
-      'apikey': supabaseAnonKey,
-      'Authorization': `Bearer ${supabaseAnonKey}`,
-    }
+    const byProject: Filter[] = [{ column: 'project_id', operator: 'eq', value: project.id }]
     
     try {
       const [mediaResponse, travelTimesResponse, paymentPlansResponse] = await Promise.all([
-        axios.get(
-          `${supabaseUrl}/rest/v1/project_media?project_id=eq.${project.id}&order=created_at.asc`,
-          { headers }
-        ).catch(err => {
+        projectMediaRepository.list({
+          filters: byProject,
+          order: [{ column: 'created_at', direction: 'asc' }],
+        }).catch(err => {
           console.warn("Could not fetch project media:", err)
           return { data: [] }
         }),
-        axios.get(
-          `${supabaseUrl}/rest/v1/project_travel_time?project_id=eq.${project.id}&select=*`,
-          { headers }
-        ).catch(err => {
+        projectTravelTimeRepository.list({ filters: byProject }).catch(err => {
           console.warn("Could not fetch travel times:", err)
           return { data: [] }
         }),
-        axios.get(
-          `${supabaseUrl}/rest/v1/project_payment_plan?project_id=eq.${project.id}&select=*`,
-          { headers }
-        ).catch(err => {
+        projectPaymentPlanRepository.list({ filters: byProject }).catch(err => {
           console.warn("Could not fetch payment plans:", err)
           return { data: [] }
         }),
       ])
       
-      setExistingMedia(mediaResponse.data || [])
-      setTravelTimes(travelTimesResponse.data || [])
-      setPaymentPlans(paymentPlansResponse.data || [])
+      setExistingMedia(mediaResponse.data)
+      setTravelTimes(travelTimesResponse.data)
+      setPaymentPlans(paymentPlansResponse.data)
     } catch (err) {
       console.error("Error fetching project data:", err)
       setExistingMedia([])
@@ -337,9 +283,21 @@ export default function ProjectsPage() {
     }
     
     setIsAddDialogOpen(false)
-    setIsDialogOpen(true)
+    openRecord(project.id)
   }
 
+  // Open the project linked in the URL (shared links, back/forward)
+  useRecordFromUrl({
+    recordId,
+    record: editingProject,
+    load: (id) => projectRepository.get(id),
+    onLoad: (project) => void handleEdit(project),
+    onMissing: () => {
+      toast.error("Project not found")
+      closeRecord()
+    },
+  })
+
   const handleAdd = () => {
     setEditingProject(null)
     setFormData({
@@ -364,7 +322,7 @@ export default function ProjectsPage() {
       setTravelTimesToDelete([])
       setPaymentPlans([])
       setPaymentPlansToDelete([])
-      setIsDialogOpen(false)
+      closeRecord()
       setIsAddDialogOpen(true)
   }
 
@@ -373,71 +331,13 @@ export default function ProjectsPage() {
 
     try {
       setDeletingProjectId(projectId)
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
-
-      // Delete related travel times first (cascade)
-      try {
-        await axios.delete(
-          `${supabaseUrl}/rest/v1/project_travel_time?project_id=eq.${projectId}`,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-            },
-          }
-        )
-      } catch (err) {
-        console.warn("Could not delete travel times (may not exist):", err)
-      }
-
-      // Delete related project_media first
-      try {
-        await axios.delete(
-          `${supabaseUrl}/rest/v1/project_media?project_id=eq.${projectId}`,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-            },
-          }
-        )
-      } catch (err) {
-        console.warn("Could not delete project media (may not exist):", err)
-      }
-
-      // Delete related payment plans
-      try {
-        await axios.delete(
-          `${supabaseUrl}/rest/v1/project_payment_plan?project_id=eq.${projectId}`,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-            },
-          }
-        )
-      } catch (err) {
-        console.warn("Could not delete payment plans (may not exist):", err)
-      }
 
-      // Delete the project
-      await axios.delete(
-        `${supabaseUrl}/rest/v1/project?id=eq.${projectId}`,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
-      )
+      // Moves the project and its media, travel times and payment plans to the recycle bin
+      const batch = await deleteRecord('project', projectId)
 
       await fetchProjects(currentPage)
-      toast.success("Project deleted successfully")
+      // Undo brings the project back together with its child rows
+      toastDeletedWithUndo("Project deleted successfully", batch, () => fetchProjects(currentPage))
     } catch (err: unknown) {
       console.error("Error deleting project:", err)
       const message = formatError(err) || "Failed to delete project"
@@ -448,121 +348,74 @@ export default function ProjectsPage() {
   }
 
 
-  const uploadProjectFile = async (
-    file: File,
-    projectId: number,
-    folder: 'images' | 'videos' | 'files'
-  ): Promise<string> => {
-    const fileExt = file.name.split('.').pop()
-    const fileName = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${fileExt}`
-    
-    // Storage path: projects/<id>/<folder>/<filename>
-    const storagePath = `${projectId}/${folder}/${fileName}`
-    
-    console.log(`Uploading file to storage: projects/${storagePath}`)
-
-    // Upload to Supabase storage using axios with anon key
-    await axios.post(
-      `${supabaseUrl}/storage/v1/object/projects/${storagePath}`,
-      file,
-      {
-        headers: {
-          'Authorization': `Bearer ${supabaseAnonKey}`,
-          'apikey': supabaseAnonKey,
-          'Content-Type': file.type || 'application/octet-stream',
-        },
-      }
-    )
-
-    // Return relative path as per API spec: projects/<id>/<folder>/<filename>
-    const relativePath = `projects/${storagePath}`
-    console.log(`Upload successful. Path: ${relativePath}`)
-    return relativePath
-  }
+  // `resolved` re-saves with the record and values chosen after a save conflict
+  const handleSave = async (resolved?: SaveResolution<Project, typeof formData>) => {
+    const data = resolved?.formData ?? formData
+    const currentProject = resolved?.record ?? editingProject
 
-  const handleSave = async () => {
     // Validation for both Add and Edit Project modes (all fields required except brochure and floor plan)
-    if (!formData.title.trim()) {
+    if (!data.title.trim()) {
       toast.error("Title is required")
       return
     }
-    if (!formData.developer_id || formData.developer_id === "none") {
+    if (!data.developer_id || data.developer_id === "none") {
       toast.error("Developer is required")
       return
     }
-    if (!formData.area_id || formData.area_id === "none") {
+    if (!data.area_id || data.area_id === "none") {
       toast.error("Area is required")
       return
     }
-    if (!formData.type) {
+    if (!data.type) {
       toast.error("Type is required")
       return
     }
-    if (!formData.price || formData.price.trim() === "") {
+    if (!data.price || data.price.trim() === "") {
       toast.error("Price is required")
       return
     }
-    if (!formData.latitude || !formData.longitude || formData.latitude.trim() === "" || formData.longitude.trim() === "") {
+    if (!data.latitude || !data.longitude || data.latitude.trim() === "" || data.longitude.trim() === "") {
       toast.error("Location (latitude and longitude) is required")
       return
     }
     // Validate at least one image is required for new projects
-    if (!editingProject && projectFiles.images.length === 0) {
+    if (!currentProject && projectFiles.images.length === 0) {
       toast.error("At least one image is required")
       return
     }
 
-    console.log('handleSave called, editingProject:', editingProject?.id, 'mediaToDelete:', mediaToDelete)
+    console.log('handleSave called, editingProject:', currentProject?.id, 'mediaToDelete:', mediaToDelete)
 
     try {
       setIsSaving(true)
 
-      if (editingProject) {
+      if (currentProject) {
         // Update existing project
-        const projectData: Record<string, unknown> = {
-          title: formData.title.trim(),
-          slug: formData.slug.trim(),
-          type: formData.type,
-          developer_id: formData.developer_id ? parseInt(formData.developer_id) : null,
-          area_id: formData.area_id ? parseInt(formData.area_id) : null,
-          price: formData.price ? parseFloat(formData.price) : null,
-          latitude: formData.latitude ? parseFloat(formData.latitude) : null,
-          longitude: formData.longitude ? parseFloat(formData.longitude) : null,
-          file_brochure: formData.file_brochure.trim() || null,
-          file_floor_plan: formData.file_floor_plan.trim() || null,
+        const projectData: EntityInput<Project> = {
+          title: data.title.trim(),
+          slug: data.slug.trim(),
+          type: data.type,
+          developer_id: data.developer_id ? parseInt(data.developer_id) : null,
+          area_id: data.area_id ? parseInt(data.area_id) : null,
+          price: data.price ? parseFloat(data.price) : null,
+          latitude: data.latitude ? parseFloat(data.latitude) : null,
+          longitude: data.longitude ? parseFloat(data.longitude) : null,
+          file_brochure: data.file_brochure.trim() || null,
+          file_floor_plan: data.file_floor_plan.trim() || null,
         }
 
-        await axios.patch(
-          `${supabaseUrl}/rest/v1/project?id=eq.${editingProject.id}`,
-          projectData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${supabaseAnonKey}`,
-              'apikey': supabaseAnonKey,
-              'Prefer': 'return=minimal',
-            },
-          }
-        )
+        // Fails without touching media, travel times or payment plans if someone else changed the project
+        await projectRepository.update(currentProject.id, projectData, { expectedUpdatedAt: currentProject.updated_at })
 
-        const projectId = editingProject.id
+        const projectId = currentProject.id
 
         // Delete marked media
         if (mediaToDelete.length > 0) {
           console.log(`Deleting ${mediaToDelete.length} media items:`, mediaToDelete)
           const deletePromises = mediaToDelete.map(async (mediaId) => {
             try {
-              const response = await axios.delete(
-                `${supabaseUrl}/rest/v1/project_media?id=eq.${mediaId}`,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${supabaseAnonKey}`,
-                    'apikey': supabaseAnonKey,
-                  },
-                }
-              )
-              console.log(`Project media ${mediaId} deleted successfully`, response.status)
+              await projectMediaRepository.remove(mediaId)
+              console.log(`Project media ${mediaId} deleted successfully`)
               return { success: true, mediaId }
             } catch (err) {
               console.error(`Failed to delete project media ${mediaId}:`, err)
@@ -577,18 +430,12 @@ export default function ProjectsPage() {
           
           // Refresh media list after deletion
           try {
-            const mediaResponse = await axios.get(
-              `${supabaseUrl}/rest/v1/project_media?project_id=eq.${projectId}&order=created_at.asc`,
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                },
-              }
-            )
-            console.log(`Refreshed media list: ${mediaResponse.data?.length || 0} items remaining`)
-            setExistingMedia(mediaResponse.data || [])
+            const { data: remainingMedia } = await projectMediaRepository.list({
+              filters: [{ column: 'project_id', operator: 'eq', value: projectId }],
+              order: [{ column: 'created_at', direction: 'asc' }],
+            })
+            console.log(`Refreshed media list: ${remainingMedia.length} items remaining`)
+            setExistingMedia(remainingMedia)
             setMediaToDelete([]) // Clear deletion list after successful deletion
           } catch (err) {
             console.error("Failed to refresh media list after deletion:", err)
@@ -601,16 +448,7 @@ export default function ProjectsPage() {
         if (travelTimesToDelete.length > 0) {
           for (const travelTimeId of travelTimesToDelete) {
             try {
-              await axios.delete(
-                `${supabaseUrl}/rest/v1/project_travel_time?id=eq.${travelTimeId}`,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${supabaseAnonKey}`,
-                    'apikey': supabaseAnonKey,
-                  },
-                }
-              )
+              await projectTravelTimeRepository.remove(travelTimeId)
               console.log(`Travel time ${travelTimeId} deleted successfully`)
             } catch (err) {
               console.warn(`Could not delete travel time ${travelTimeId}:`, err)
@@ -627,22 +465,11 @@ export default function ProjectsPage() {
         )
         for (const travelTime of newTravelTimes) {
           try {
-            await axios.post(
-              `${supabaseUrl}/rest/v1/project_travel_time`,
-              {
+            await projectTravelTimeRepository.create({
                 project_id: projectId,
                 minutes: travelTime.minutes,
                 icon: travelTime.icon,
-              },
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                  'Prefer': 'return=representation',
-                },
-              }
-            )
+              })
             console.log(`Travel time created successfully: ${travelTime.icon} - ${travelTime.minutes} minutes`)
           } catch (err) {
             console.warn(`Could not create travel time:`, err)
@@ -656,21 +483,10 @@ export default function ProjectsPage() {
         )
         for (const travelTime of existingTravelTimes) {
           try {
-            await axios.patch(
-              `${supabaseUrl}/rest/v1/project_travel_time?id=eq.${travelTime.id}`,
-              {
+            await projectTravelTimeRepository.update(travelTime.id, {
                 minutes: travelTime.minutes,
                 icon: travelTime.icon,
-              },
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                  'Prefer': 'return=representation',
-                },
-              }
-            )
+              })
             console.log(`Travel time ${travelTime.id} updated successfully`)
           } catch (err) {
             console.warn(`Could not update travel time ${travelTime.id}:`, err)
@@ -681,16 +497,7 @@ export default function ProjectsPage() {
         if (paymentPlansToDelete.length > 0) {
           for (const paymentPlanId of paymentPlansToDelete) {
             try {
-              await axios.delete(
-                `${supabaseUrl}/rest/v1/project_payment_plan?id=eq.${paymentPlanId}`,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${supabaseAnonKey}`,
-                    'apikey': supabaseAnonKey,
-                  },
-                }
-              )
+              await projectPaymentPlanRepository.remove(paymentPlanId)
               console.log(`Payment plan ${paymentPlanId} deleted successfully`)
             } catch (err) {
               console.warn(`Could not delete payment plan ${paymentPlanId}:`, err)
@@ -707,22 +514,11 @@ export default function ProjectsPage() {
         )
         for (const paymentPlan of newPaymentPlans) {
           try {
-            await axios.post(
-              `${supabaseUrl}/rest/v1/project_payment_plan`,
-              {
+            await projectPaymentPlanRepository.create({
                 project_id: projectId,
                 title: paymentPlan.title || '',
                 percentage: paymentPlan.percentage,
-              },
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                  'Prefer': 'return=representation',
-                },
-              }
-            )
+              })
             console.log(`Payment plan created successfully: ${paymentPlan.percentage}%`)
           } catch (err) {
             console.warn(`Could not create payment plan:`, err)
@@ -736,21 +532,10 @@ export default function ProjectsPage() {
         )
         for (const paymentPlan of existingPaymentPlans) {
           try {
-            await axios.patch(
-              `${supabaseUrl}/rest/v1/project_payment_plan?id=eq.${paymentPlan.id}`,
-              {
+            await projectPaymentPlanRepository.update(paymentPlan.id, {
                 title: paymentPlan.title || '',
                 percentage: paymentPlan.percentage,
-              },
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                  'Prefer': 'return=representation',
-                },
-              }
-            )
+              })
             console.log(`Payment plan ${paymentPlan.id} updated successfully`)
           } catch (err) {
             console.warn(`Could not update payment plan ${paymentPlan.id}:`, err)
@@ -767,18 +552,7 @@ export default function ProjectsPage() {
           console.log("Brochure uploaded successfully:", brochurePath)
           
           // Update project with new brochure path
-          await axios.patch(
-            `${supabaseUrl}/rest/v1/project?id=eq.${projectId}`,
-            { file_brochure: brochurePath },
-            {
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${supabaseAnonKey}`,
-                'apikey': supabaseAnonKey,
-                'Prefer': 'return=representation',
-              },
-            }
-          )
+          await projectRepository.update(projectId, { file_brochure: brochurePath })
         }
 
         // Upload new floor plan if provided
@@ -787,18 +561,7 @@ export default function ProjectsPage() {
           console.log("Floor plan uploaded successfully:", floorPlanPath)
           
           // Update project with new floor plan path
-          await axios.patch(
-            `${supabaseUrl}/rest/v1/project?id=eq.${projectId}`,
-            { file_floor_plan: floorPlanPath },
-            {
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${supabaseAnonKey}`,
-                'apikey': supabaseAnonKey,
-                'Prefer': 'return=representation',
-              },
-            }
-          )
+          await projectRepository.update(projectId, { file_floor_plan: floorPlanPath })
         }
 
         // Upload images and videos, then pair them: 1 image + 1 video = 1 project_media row
@@ -836,18 +599,7 @@ export default function ProjectsPage() {
                   mediaData.video = videoPath
                 }
 
-                await axios.post(
-                  `${supabaseUrl}/rest/v1/project_media`,
-                  mediaData,
-                  {
-                    headers: {
-                      'Content-Type': 'application/json',
-                      'Authorization': `Bearer ${supabaseAnonKey}`,
-                      'apikey': supabaseAnonKey,
-                      'Prefer': 'return=representation',
-                    },
-                  }
-                )
+                await projectMediaRepository.create(mediaData)
                 console.log(`Project media record ${i + 1} created with image: ${imagePath || 'none'}, video: ${videoPath || 'none'}`)
               }
             } catch (err) {
@@ -859,32 +611,19 @@ export default function ProjectsPage() {
         // Create project first using direct fetch with anon key (like Areas.tsx)
         // Server will generate slug from title, so we don't send slug
         const projectData = {
-          title: formData.title.trim(),
-          developer_id: formData.developer_id ? parseInt(formData.developer_id) : null,
-          area_id: formData.area_id ? parseInt(formData.area_id) : null,
-          type: formData.type,
-          price: formData.price ? parseFloat(formData.price) : null,
-          latitude: formData.latitude ? parseFloat(formData.latitude) : null,
-          longitude: formData.longitude ? parseFloat(formData.longitude) : null,
+          title: data.title.trim(),
+          developer_id: data.developer_id ? parseInt(data.developer_id) : null,
+          area_id: data.area_id ? parseInt(data.area_id) : null,
+          type: data.type,
+          price: data.price ? parseFloat(data.price) : null,
+          latitude: data.latitude ? parseFloat(data.latitude) : null,
+          longitude: data.longitude ? parseFloat(data.longitude) : null,
           file_brochure: null as string | null,
           file_floor_plan: null as string | null,
         }
 
-        const createResponse = await axios.post(
-          `${supabaseUrl}/rest/v1/project`,
-          projectData,
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${supabaseAnonKey}`,
-              'apikey': supabaseAnonKey,
-              'Prefer': 'return=representation',
-            },
-          }
-        )
-
-        const createdProject = createResponse.data
-        const projectId = Array.isArray(createdProject) ? createdProject[0]?.id : createdProject?.id
+        const createdProject = await projectRepository.create(projectData)
+        const projectId = createdProject?.id
 
         if (!projectId) {
           throw new Error("Failed to get project ID after creation")
@@ -930,18 +669,7 @@ export default function ProjectsPage() {
                 mediaData.video = videoPath
               }
 
-              await axios.post(
-                `${supabaseUrl}/rest/v1/project_media`,
-                mediaData,
-                {
-                  headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${supabaseAnonKey}`,
-                    'apikey': supabaseAnonKey,
-                    'Prefer': 'return=representation',
-                  },
-                }
-              )
+              await projectMediaRepository.create(mediaData)
               console.log(`Project media record ${i + 1} created with image: ${imagePath || 'none'}, video: ${videoPath || 'none'}`)
             }
           } catch (err) {
@@ -964,22 +692,11 @@ export default function ProjectsPage() {
         // Create travel times
         for (const travelTime of travelTimes) {
           try {
-            await axios.post(
-              `${supabaseUrl}/rest/v1/project_travel_time`,
-              {
+            await projectTravelTimeRepository.create({
                 project_id: projectId,
                 minutes: travelTime.minutes,
                 icon: travelTime.icon,
-              },
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                  'Prefer': 'return=representation',
-                },
-              }
-            )
+              })
             console.log(`Travel time created successfully: ${travelTime.icon} - ${travelTime.minutes} minutes`)
           } catch (err) {
             console.warn(`Could not create travel time:`, err)
@@ -989,22 +706,11 @@ export default function ProjectsPage() {
         // Create payment plans
         for (const paymentPlan of paymentPlans) {
           try {
-            await axios.post(
-              `${supabaseUrl}/rest/v1/project_payment_plan`,
-              {
+            await projectPaymentPlanRepository.create({
                 project_id: projectId,
                 title: paymentPlan.title || '',
                 percentage: paymentPlan.percentage,
-              },
-              {
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseAnonKey}`,
-                  'apikey': supabaseAnonKey,
-                  'Prefer': 'return=representation',
-                },
-              }
-            )
+              })
             console.log(`Payment plan created successfully: ${paymentPlan.title || 'Untitled'} - ${paymentPlan.percentage}%`)
           } catch (err) {
             console.warn(`Could not create payment plan:`, err)
@@ -1013,35 +719,21 @@ export default function ProjectsPage() {
 
         // Update project with file paths (brochure and floor plan)
         if (brochurePath || floorPlanPath) {
-          const updateData: Record<string, unknown> = {}
+          const updateData: EntityInput<Project> = {}
           if (brochurePath) updateData.file_brochure = brochurePath
           if (floorPlanPath) updateData.file_floor_plan = floorPlanPath
 
           console.log("Updating project ID:", projectId, "with file paths:", updateData)
 
-          const updateResponse = await axios.patch(
-            `${supabaseUrl}/rest/v1/project?id=eq.${projectId}`,
-            updateData,
-            {
-              headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${supabaseAnonKey}`,
-                'apikey': supabaseAnonKey,
-                'Prefer': 'return=representation',
-              },
-            }
-          )
-
-          const updatedProject = updateResponse.data
-          console.log("Project updated successfully with file paths:", updatedProject)
+          const project = await projectRepository.update(projectId, updateData)
+          console.log("Project updated successfully with file paths:", project)
           
-          const project = Array.isArray(updatedProject) ? updatedProject[0] : updatedProject
           console.log("Verification - file_brochure:", project?.file_brochure)
           console.log("Verification - file_floor_plan:", project?.file_floor_plan)
         }
       }
 
-      setIsDialogOpen(false)
+      closeRecord()
       setIsAddDialogOpen(false)
       setProjectFiles({
         images: [],
@@ -1054,8 +746,9 @@ export default function ProjectsPage() {
       setTravelTimes([])
       setTravelTimesToDelete([])
       await fetchProjects(currentPage)
-      toast.success(editingProject ? "Project updated successfully" : "Project created successfully")
+      toast.success(currentProject ? "Project updated successfully" : "Project created successfully")
     } catch (err: unknown) {
+      if (currentProject && saveConflict.detect(err, currentProject, data)) return
       console.error("Error saving project:", err)
       const message = formatError(err) || "Failed to save project"
       toast.error(message)
@@ -1148,8 +841,9 @@ export default function ProjectsPage() {
             <AdvancedSearchBar
               columns={searchColumns}
               value={searchQuery}
-              onChange={setSearchQuery}
-              onApply={handleSearchApply}
+              onApply={setSearchQuery}
+              savedSearchTable="project"
+              facets={{ source: projectRepository, schema: searchSchema, filters: typeFilters }}
             />
           </div>
 
@@ -1178,6 +872,9 @@ export default function ProjectsPage() {
                 getDeveloperName={getDeveloperName}
                 getAreaName={getAreaName}
                 formatPrice={formatPrice}
+                highlightedIds={highlightedIds}
+                sort={sort}
+                onSort={onSort}
               />
               <Pagination
                 currentPage={currentPage}
@@ -1190,8 +887,17 @@ export default function ProjectsPage() {
 
       <ProjectFormDialog
         open={isDialogOpen}
-        onOpenChange={setIsDialogOpen}
+        onOpenChange={(open) => !open && closeRecord()}
         isEditing={true}
+        projectId={editingProject?.id}
+        notice={
+          <RecordConflictAlert
+            conflict={recordConflict.conflict}
+            onMerge={recordConflict.merge}
+            onReload={recordConflict.reload}
+            onDismiss={recordConflict.dismiss}
+          />
+        }
         isSaving={isSaving}
         error={error}
         formData={formData}
@@ -1212,7 +918,18 @@ export default function ProjectsPage() {
         onTravelTimesToDeleteChange={setTravelTimesToDelete}
         onPaymentPlansChange={setPaymentPlans}
         onPaymentPlansToDeleteChange={setPaymentPlansToDelete}
-        onSave={handleSave}
+        onSave={() => handleSave()}
+      />
+
+      <SaveConflictDialog
+        conflict={saveConflict.conflict}
+        onCancel={saveConflict.dismiss}
+        onResolve={(project, data, save) => {
+          saveConflict.dismiss()
+          setEditingProject(project)
+          setFormData(data)
+          if (save) void handleSave({ record: project, formData: data })
+        }}
       />
 
       <ProjectFormDialog
@@ -1232,7 +949,7 @@ export default function ProjectsPage() {
         onProjectFilesChange={setProjectFiles}
         onTravelTimesChange={setTravelTimes}
         onPaymentPlansChange={setPaymentPlans}
-        onSave={handleSave}
+        onSave={() => handleSave()}
       />
       </div>
     </RoleBasedLayout>
@@ -1,7 +1,6 @@
-import { useEffect, useState, useCallback } from "react"
+import { useEffect, useState, useCallback, useMemo, useRef } from "react"
 import { useParams } from "react-router-dom"
 import { RoleBasedLayout } from "@/components/RoleBasedLayout"
-import axios from "axios"
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -53,12 +52,27 @@ import {
 } from "@/components/ui/pagination"
 import { Pencil, Trash2, Plus } from "lucide-react"
 import { AdvancedSearchBar, type SearchColumn } from "@/components/shared/AdvancedSearchBar"
+import { SortableTableHead } from "@/components/shared/SortableTableHead"
 import { parseQuery } from "@/lib/query-parser"
+import { compileQuery, toListParams, type TableSchema } from "@/lib/query-compiler"
 import { PROPERTY_TYPES } from "@/config/property-types"
 import { useAuth } from "@/contexts/AuthContext"
 import { canEditProperties } from "@/config/roles"
 import { TableSkeleton } from "@/components/shared/TableSkeleton"
+import { RecordHistoryTabs } from "@/components/shared/RecordHistory"
+import { RecordConflictAlert } from "@/components/shared/RecordConflictAlert"
+import { SaveConflictDialog } from "@/components/shared/SaveConflictDialog"
+import { useRealtimeList } from "@/hooks/useRealtimeList"
+import { useRecordConflict } from "@/hooks/useRecordConflict"
+import { useSaveConflict, type SaveResolution } from "@/hooks/useSaveConflict"
+import { useListSearchParams, useRecordFromUrl } from "@/hooks/useListSearchParams"
+import { useQuerySort } from "@/hooks/useQuerySort"
 import { formatError } from "@/lib/error-formatter"
+import { propertyRepository } from "@/lib/repositories/property"
+import { deleteRecord } from "@/lib/recycle-bin"
+import { toastDeletedWithUndo } from "@/lib/undo-toast"
+import { projectRepository } from "@/lib/repositories/project"
+import { pageRange, type EntityInput, type Filter, type ListParams, type ListResult } from "@/lib/repositories/base"
 import { toast } from "sonner"
 
 import type { Property, PropertyListingType } from "@/types/property"
@@ -80,8 +94,6 @@ export default function PropertiesPage() {
   const listingType = typeSlug ? SLUG_TO_LISTING_TYPE[typeSlug] : undefined
   const { employee } = useAuth()
   
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
   // RBAC: IT, CEO, Admin (roles 0, 1, 2) can CRUD; other roles can view only
   const canEdit = canEditProperties(employee?.role)
@@ -90,22 +102,35 @@ export default function PropertiesPage() {
   const [projects, setProjects] = useState<ProjectBasic[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [currentPage, setCurrentPage] = useState(1)
+  const { searchQuery, currentPage, recordId, setSearchQuery, setCurrentPage, openRecord, closeRecord } = useListSearchParams()
   const [totalCount, setTotalCount] = useState(0)
   const itemsPerPage = 10
   
   // Column configuration for search bar
-  const searchColumns: SearchColumn[] = [
+  const searchColumns = useMemo<SearchColumn[]>(() => [
     { key: 'pf_id', label: 'PF ID', type: 'text' },
-    { key: 'type', label: 'Type', type: 'text' },
-    { key: 'bedrooms', label: 'Bedrooms', type: 'number' },
-    { key: 'price', label: 'Price', type: 'number' },
-    { key: 'square_meter', label: 'Square Meter', type: 'number' },
-  ]
+    { key: 'type', label: 'Type', type: 'text', suggestValues: true, facet: true },
+    { key: 'bedrooms', label: 'Bedrooms', type: 'number', facet: true },
+    { key: 'price', label: 'Price', type: 'number', facet: true },
+    { key: 'square_meter', label: 'Square Meter', type: 'number', facet: true },
+    { key: 'created_at', label: 'Created At', type: 'date' },
+  ], [])
+  // Free text is looked for in the PF ID and type of live and pocket listings alike
+  const searchSchema = useMemo<TableSchema>(() => ({
+    columns: searchColumns,
+    textSearchFields: ['pf_id', 'type'],
+    defaultSort: { column: 'id', direction: 'asc' },
+  }), [searchColumns])
+  // Live listings have a PF ID, pocket listings do not
+  const listingFilters = useMemo<Filter[]>(() => listingType === 'live'
+    ? [{ column: 'pf_id', operator: 'is', value: null, negate: true }]
+    : listingType === 'pocket'
+      ? [{ column: 'pf_id', operator: 'is', value: null }]
+      : [], [listingType])
   const [deletingPropertyId, setDeletingPropertyId] = useState<number | null>(null)
   const [editingProperty, setEditingProperty] = useState<Property | null>(null)
-  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  // The edit dialog shows the record named in the URL
+  const isDialogOpen = recordId !== null && editingProperty?.id === recordId
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [formData, setFormData] = useState({
@@ -119,110 +144,39 @@ export default function PropertiesPage() {
     longitude: "",
   })
 
+  // Incremented on every fetch so stale background refreshes are ignored
+  const fetchIdRef = useRef(0)
+
   const fetchProperties = useCallback(async (page: number = 1) => {
     if (!listingType) return
     
     try {
-      setLoading(true)
       setError(null)
 
-      const offset = (page - 1) * itemsPerPage
-      const parsed = parseQuery(searchQuery || "", searchColumns)
-      
-      // Skip incomplete filters
-      const completeFilters = parsed.filters.filter(f => f.value && f.value.trim())
-      const effectiveParsed = {
-        ...parsed,
-        filters: completeFilters
-      }
-      
-      let url = `${supabaseUrl}/rest/v1/property?select=*`
-
-      // Filter by pf_id based on listing type
-      if (listingType === 'live') {
-        url += `&pf_id=not.is.null`
-      } else if (listingType === 'pocket') {
-        url += `&pf_id=is.null`
-      }
+      const compiled = compileQuery(parseQuery(searchQuery, searchColumns), searchSchema)
 
-      // Add text search (only for live listings, search by pf_id)
-      if (effectiveParsed.textSearch && effectiveParsed.textSearch.trim() && listingType === 'live') {
-        const searchPattern = `*${effectiveParsed.textSearch.trim()}*`
-        url += `&pf_id=ilike.${encodeURIComponent(searchPattern)}`
+      const params: ListParams = {
+        ...toListParams(compiled),
+        filters: [...listingFilters, ...compiled.filters],
+        ...pageRange(page, itemsPerPage),
+        count: true,
       }
+      const fetchId = ++fetchIdRef.current
 
-      // Add filters
-      for (const filter of effectiveParsed.filters) {
-        const column = searchColumns.find(col => col.key === filter.column)
-        if (!column) continue
-        
-        let filterValue: string | number = filter.value
-        if (column.type === 'number') {
-          const numValue = parseFloat(filter.value)
-          if (!isNaN(numValue)) {
-            filterValue = numValue
-          } else {
-            continue
-          }
-        }
-        
-        switch (filter.operator) {
-          case '>':
-            url += `&${filter.column}=gt.${encodeURIComponent(filterValue)}`
-            break
-          case '>=':
-            url += `&${filter.column}=gte.${encodeURIComponent(filterValue)}`
-            break
-          case '<':
-            url += `&${filter.column}=lt.${encodeURIComponent(filterValue)}`
-            break
-          case '<=':
-            url += `&${filter.column}=lte.${encodeURIComponent(filterValue)}`
-            break
-          case '!=':
-            url += `&${filter.column}=neq.${encodeURIComponent(filterValue)}`
-            break
-          case '=':
-          default:
-            if (column.type === 'number') {
-              url += `&${filter.column}=eq.${encodeURIComponent(filterValue)}`
-            } else {
-              url += `&${filter.column}=ilike.${encodeURIComponent(`%${filter.value}%`)}`
-            }
-            break
-        }
-      }
-      
-      // Add sorting
-      if (effectiveParsed.sort) {
-        url += `&order=${effectiveParsed.sort.column}.${effectiveParsed.sort.direction}`
-      } else {
-        url += `&order=id.asc`
-      }
-
-      url += `&limit=${itemsPerPage}&offset=${offset}`
+      const applyResult = ({ data, count }: ListResult<Property>) => {
+        // A newer fetch has started since this one; drop the result
+        if (fetchId !== fetchIdRef.current) return
 
-      const response = await axios.get(
-        url,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-            "Prefer": "count=exact",
-          },
+        if (count !== null) {
+          setTotalCount(count)
         }
-      )
 
-      const contentRange = response.headers["content-range"]
-      if (contentRange) {
-        const match = contentRange.match(/\/(\d+)/)
-        if (match) {
-          setTotalCount(parseInt(match[1], 10))
-        }
+        setProperties(data)
       }
 
-      setProperties(response.data || [])
+      // Only show the skeleton when nothing is cached for this query
+      setLoading(!propertyRepository.peek(params))
+      applyResult(await propertyRepository.query(params, { onRevalidate: applyResult }))
     } catch (err: unknown) {
       console.error("Error fetching properties:", err)
       const message = formatError(err) || "Failed to fetch properties"
@@ -230,62 +184,40 @@ export default function PropertiesPage() {
     } finally {
       setLoading(false)
     }
-  }, [supabaseUrl, supabaseAnonKey, itemsPerPage, listingType, searchQuery, searchColumns])
+  }, [itemsPerPage, listingType, searchQuery, searchColumns, searchSchema, listingFilters])
 
   const fetchProjects = useCallback(async () => {
     try {
-      const response = await axios.get(
-        `${supabaseUrl}/rest/v1/project?select=id,slug&order=id.asc`,
+      const { data } = await projectRepository.query(
         {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-          },
-        }
+          select: 'id,slug',
+          order: [{ column: 'id', direction: 'asc' }],
+        },
+        { onRevalidate: (result) => setProjects(result.data) }
       )
 
-      setProjects(response.data || [])
+      setProjects(data)
     } catch (err: unknown) {
       console.error("Error fetching projects:", err)
     }
-  }, [supabaseUrl, supabaseAnonKey])
+  }, [])
 
-  // Reset page when listing type changes
+  // Load projects when listing type changes (switching listing types starts with a fresh URL, so no search or page to reset)
   useEffect(() => {
     if (listingType) {
       fetchProjects()
-      setCurrentPage(1)
-      setSearchQuery("")
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [listingType]) // fetchProjects is stable, no need to include in deps
 
-  // Main effect: fetch properties when dependencies change
-  useEffect(() => {
-    if (!listingType) return
-    
-    // Debounced search
-    const timeoutId = setTimeout(() => {
-      setCurrentPage(1)
-      fetchProperties(1)
-    }, searchQuery.trim() ? 1500 : 0)
-
-    return () => clearTimeout(timeoutId)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [listingType, searchQuery])
-
-  // Fetch when page changes
+  // Main effect: fetch properties when the listing type, search or page changes
   useEffect(() => {
     if (!listingType) return
     fetchProperties(currentPage)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPage])
+  }, [listingType, searchQuery, currentPage])
 
-  const handleSearchApply = useCallback((query: string) => {
-    setSearchQuery(query)
-    setCurrentPage(1)
-  }, [])
+  const { sort, onSort } = useQuerySort(searchQuery, searchColumns, setSearchQuery)
 
   const totalPages = Math.ceil(totalCount / itemsPerPage)
 
@@ -324,11 +256,10 @@ export default function PropertiesPage() {
     return calculatedArea.toFixed(2)
   }
 
-  const handleEdit = (property: Property) => {
+  const toFormData = (property: Property) => {
     const lat = property.latitude?.toString() || ""
     const lng = property.longitude?.toString() || ""
-    setEditingProperty(property)
-    setFormData({
+    return {
       project_id: property.project_id?.toString() || "",
       pf_id: property.pf_id || "",
       type: property.type || "",
@@ -337,11 +268,51 @@ export default function PropertiesPage() {
       price: property.price?.toString() || "",
       latitude: lat,
       longitude: lng,
-    })
+    }
+  }
+
+  // Live updates from other users
+  const { highlightedIds } = useRealtimeList({
+    table: "property",
+    enabled: Boolean(listingType),
+    rows: properties,
+    setRows: setProperties,
+    refetch: () => fetchProperties(currentPage),
+  })
+
+  const recordConflict = useRecordConflict({
+    table: "property",
+    record: editingProperty,
+    enabled: isDialogOpen,
+    formData,
+    toFormData,
+    onResolve: (property, data) => {
+      setEditingProperty(property)
+      setFormData(data)
+    },
+  })
+
+  const saveConflict = useSaveConflict(toFormData)
+
+  const handleEdit = (property: Property) => {
+    setEditingProperty(property)
+    setFormData(toFormData(property))
     setIsAddDialogOpen(false)
-    setIsDialogOpen(true)
+    openRecord(property.id)
   }
 
+  // Open the property linked in the URL (shared links, back/forward)
+  useRecordFromUrl({
+    recordId,
+    record: editingProperty,
+    load: (id) => propertyRepository.get(id),
+    onLoad: handleEdit,
+    onMissing: () => {
+      toast.error("Property not found")
+      closeRecord()
+    },
+  })
+
   const handleAdd = () => {
     setEditingProperty(null)
     setFormData({
@@ -354,56 +325,38 @@ export default function PropertiesPage() {
       latitude: "",
       longitude: "",
     })
-    setIsDialogOpen(false)
+    closeRecord()
     setIsAddDialogOpen(true)
   }
 
-  const handleSave = async () => {
+  // `resolved` re-saves with the record and values chosen after a save conflict
+  const handleSave = async (resolved?: SaveResolution<Property, typeof formData>) => {
+    const data = resolved?.formData ?? formData
+    const property = resolved?.record ?? editingProperty
+
     try {
       setIsSaving(true)
       setError(null)
 
-      const propertyData: Record<string, unknown> = {
-        project_id: formData.project_id ? parseInt(formData.project_id) : null,
-        pf_id: formData.pf_id?.trim() || null,
-        type: formData.type?.trim() || "",
-        bedrooms: formData.bedrooms ? parseInt(formData.bedrooms) : null,
-        square_meter: formData.square_meter ? parseFloat(formData.square_meter) : null,
-        price: formData.price ? parseFloat(formData.price) : null,
-        latitude: formData.latitude ? parseFloat(formData.latitude) : null,
-        longitude: formData.longitude ? parseFloat(formData.longitude) : null,
+      const propertyData: EntityInput<Property> = {
+        project_id: data.project_id ? parseInt(data.project_id) : null,
+        pf_id: data.pf_id?.trim() || null,
+        type: data.type?.trim() || "",
+        bedrooms: data.bedrooms ? parseInt(data.bedrooms) : null,
+        square_meter: data.square_meter ? parseFloat(data.square_meter) : null,
+        price: data.price ? parseFloat(data.price) : null,
+        latitude: data.latitude ? parseFloat(data.latitude) : null,
+        longitude: data.longitude ? parseFloat(data.longitude) : null,
       }
 
-      if (editingProperty) {
-        // Update existing property
-        await axios.patch(
-          `${supabaseUrl}/rest/v1/property?id=eq.${editingProperty.id}`,
-          propertyData,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=minimal",
-            },
-          }
-        )
-
-        setIsDialogOpen(false)
+      if (property) {
+        // Update existing property, unless someone else changed it since it was loaded
+        await propertyRepository.update(property.id, propertyData, { expectedUpdatedAt: property.updated_at })
+
+        closeRecord()
       } else {
         // Create new property
-        await axios.post(
-          `${supabaseUrl}/rest/v1/property`,
-          propertyData,
-          {
-            headers: {
-              "apikey": supabaseAnonKey,
-              "Authorization": `Bearer ${supabaseAnonKey}`,
-              "Content-Type": "application/json",
-              "Prefer": "return=representation",
-            },
-          }
-        )
+        await propertyRepository.create(propertyData)
 
         setIsAddDialogOpen(false)
       }
@@ -422,6 +375,7 @@ export default function PropertiesPage() {
         longitude: "",
       })
     } catch (err: unknown) {
+      if (property && saveConflict.detect(err, property, data)) return
       console.error("Error saving property:", err)
       const message = formatError(err) || "Failed to save property"
       toast.error(message)
@@ -438,20 +392,11 @@ export default function PropertiesPage() {
     try {
       setDeletingPropertyId(propertyId)
 
-      await axios.delete(
-        `${supabaseUrl}/rest/v1/property?id=eq.${propertyId}`,
-        {
-          headers: {
-            "apikey": supabaseAnonKey,
-            "Authorization": `Bearer ${supabaseAnonKey}`,
-            "Content-Type": "application/json",
-            "Prefer": "return=minimal",
-          },
-        }
-      )
+      const batch = await deleteRecord('property', propertyId)
 
       // Refresh the list
       fetchProperties(currentPage)
+      toastDeletedWithUndo("Property deleted successfully", batch, () => fetchProperties(currentPage))
     } catch (err: unknown) {
       console.error("Error deleting property:", err)
       const message = formatError(err) || "Failed to delete property"
@@ -524,8 +469,10 @@ export default function PropertiesPage() {
             <AdvancedSearchBar
               columns={searchColumns}
               value={searchQuery}
-              onChange={setSearchQuery}
-              onApply={handleSearchApply}
+              onApply={setSearchQuery}
+              savedSearchTable="property"
+              valueSource={propertyRepository}
+              facets={{ source: propertyRepository, schema: searchSchema, filters: listingFilters }}
             />
           </div>
 
@@ -547,13 +494,13 @@ export default function PropertiesPage() {
               <Table className="min-w-full">
                 <TableHeader>
                   <TableRow>
-                    <TableHead>PF ID</TableHead>
+                    <SortableTableHead column="pf_id" sort={sort} onSort={onSort}>PF ID</SortableTableHead>
                     <TableHead>Project</TableHead>
-                    <TableHead>Type</TableHead>
-                    <TableHead>Bedrooms</TableHead>
-                    <TableHead>Square Meter</TableHead>
-                    <TableHead>Price</TableHead>
-                    <TableHead>Created</TableHead>
+                    <SortableTableHead column="type" sort={sort} onSort={onSort}>Type</SortableTableHead>
+                    <SortableTableHead column="bedrooms" sort={sort} onSort={onSort}>Bedrooms</SortableTableHead>
+                    <SortableTableHead column="square_meter" sort={sort} onSort={onSort}>Square Meter</SortableTableHead>
+                    <SortableTableHead column="price" sort={sort} onSort={onSort}>Price</SortableTableHead>
+                    <SortableTableHead column="created_at" sort={sort} onSort={onSort}>Created</SortableTableHead>
                     {canEdit && <TableHead className="text-right">Actions</TableHead>}
                   </TableRow>
                 </TableHeader>
@@ -566,7 +513,7 @@ export default function PropertiesPage() {
                     </TableRow>
                   ) : (
                     properties.map((property) => (
-                      <TableRow key={property.id}>
+                      <TableRow key={property.id} className={highlightedIds.has(property.id) ? "bg-primary/5 transition-colors" : "transition-colors"}>
                         <TableCell className="font-medium">{property.pf_id || "-"}</TableCell>
                         <TableCell>{getProjectName(property.project_id)}</TableCell>
                         <TableCell>{property.type}</TableCell>
@@ -681,7 +628,7 @@ export default function PropertiesPage() {
         </div>
 
       {/* Edit Dialog */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeRecord()}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Edit Property</DialogTitle>
@@ -689,155 +636,174 @@ export default function PropertiesPage() {
               Update the property information below.
             </DialogDescription>
           </DialogHeader>
-          <div className="grid gap-4 py-4">
-            {error && (
-              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
-                {error}
-              </div>
-            )}
-            {isSaving && (
-              <div className="flex items-center gap-2 text-muted-foreground">
-                <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                Saving...
-              </div>
-            )}
-            <FieldGroup>
-              <Field>
-                <FieldLabel htmlFor="edit-project">Project</FieldLabel>
-                <Select
-                  value={formData.project_id || "none"}
-                  onValueChange={(value) => setFormData({ ...formData, project_id: value === "none" ? "" : value })}
-                  disabled={isSaving}
-                >
-                  <SelectTrigger className="cursor-pointer">
-                    <SelectValue placeholder="Select project" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="none" className="cursor-pointer">None</SelectItem>
-                    {projects && projects.length > 0 && projects.map((project) => (
-                      <SelectItem key={project.id} value={project.id.toString()} className="cursor-pointer">
-                        {project.slug}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="edit-pf-id">PF ID</FieldLabel>
-                <Input
-                  id="edit-pf-id"
-                  value={formData.pf_id || ""}
-                  onChange={(e) => setFormData({ ...formData, pf_id: e.target.value })}
-                  placeholder="PF-10239"
-                  disabled={isSaving}
-                />
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="edit-type">Type</FieldLabel>
-                <Select
-                  value={formData.type || ""}
-                  onValueChange={(value) => setFormData({ ...formData, type: value })}
-                  disabled={isSaving}
-                >
-                  <SelectTrigger className="cursor-pointer">
-                    <SelectValue placeholder="Select type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {PROPERTY_TYPES.map((type) => (
-                      <SelectItem key={type} value={type} className="cursor-pointer">
-                        {type}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="edit-bedrooms">Bedrooms</FieldLabel>
-                <Input
-                  id="edit-bedrooms"
-                  type="number"
-                  value={formData.bedrooms || ""}
-                  onChange={(e) => setFormData({ ...formData, bedrooms: e.target.value })}
-                  placeholder="3"
-                  disabled={isSaving}
-                />
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="edit-square-meter">Square Meter</FieldLabel>
-                <Input
-                  id="edit-square-meter"
-                  type="number"
-                  step="any"
-                  value={formData.square_meter || ""}
-                  placeholder="92.5"
-                  disabled={true}
-                  readOnly
-                />
-              </Field>
-              <Field>
-                <FieldLabel htmlFor="edit-price">Price (AED)</FieldLabel>
-                <Input
-                  id="edit-price"
-                  type="number"
-                  value={formData.price || ""}
-                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                  placeholder="120000"
-                  disabled={isSaving}
-                />
-              </Field>
-              <div className="grid grid-cols-2 gap-4">
+          <RecordConflictAlert
+            conflict={recordConflict.conflict}
+            onMerge={recordConflict.merge}
+            onReload={recordConflict.reload}
+            onDismiss={recordConflict.dismiss}
+          />
+          <RecordHistoryTabs entity="property" recordId={editingProperty?.id}>
+            <div className="grid gap-4 py-4">
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                  {error}
+                </div>
+              )}
+              {isSaving && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                  Saving...
+                </div>
+              )}
+              <FieldGroup>
                 <Field>
-                  <FieldLabel htmlFor="edit-latitude">Latitude</FieldLabel>
+                  <FieldLabel htmlFor="edit-project">Project</FieldLabel>
+                  <Select
+                    value={formData.project_id || "none"}
+                    onValueChange={(value) => setFormData({ ...formData, project_id: value === "none" ? "" : value })}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue placeholder="Select project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none" className="cursor-pointer">None</SelectItem>
+                      {projects && projects.length > 0 && projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id.toString()} className="cursor-pointer">
+                          {project.slug}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="edit-pf-id">PF ID</FieldLabel>
+                  <Input
+                    id="edit-pf-id"
+                    value={formData.pf_id || ""}
+                    onChange={(e) => setFormData({ ...formData, pf_id: e.target.value })}
+                    placeholder="PF-10239"
+                    disabled={isSaving}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="edit-type">Type</FieldLabel>
+                  <Select
+                    value={formData.type || ""}
+                    onValueChange={(value) => setFormData({ ...formData, type: value })}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger className="cursor-pointer">
+                      <SelectValue placeholder="Select type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROPERTY_TYPES.map((type) => (
+                        <SelectItem key={type} value={type} className="cursor-pointer">
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="edit-bedrooms">Bedrooms</FieldLabel>
                   <Input
-                    id="edit-latitude"
+                    id="edit-bedrooms"
                     type="number"
-                    step="any"
-                    value={formData.latitude || ""}
-                    onChange={(e) => {
-                      const newLat = e.target.value
-                      const newLng = formData.longitude || ""
-                      const calculatedSquareMeter = calculateSquareMeter(newLat, newLng)
-                      setFormData({ ...formData, latitude: newLat, square_meter: calculatedSquareMeter })
-                    }}
-                    placeholder="41.311081"
+                    value={formData.bedrooms || ""}
+                    onChange={(e) => setFormData({ ...formData, bedrooms: e.target.value })}
+                    placeholder="3"
                     disabled={isSaving}
                   />
                 </Field>
                 <Field>
-                  <FieldLabel htmlFor="edit-longitude">Longitude</FieldLabel>
+                  <FieldLabel htmlFor="edit-square-meter">Square Meter</FieldLabel>
                   <Input
-                    id="edit-longitude"
+                    id="edit-square-meter"
                     type="number"
                     step="any"
-                    value={formData.longitude || ""}
-                    onChange={(e) => {
-                      const newLng = e.target.value
-                      const newLat = formData.latitude || ""
-                      const calculatedSquareMeter = calculateSquareMeter(newLat, newLng)
-                      setFormData({ ...formData, longitude: newLng, square_meter: calculatedSquareMeter })
-                    }}
-                    placeholder="69.240562"
+                    value={formData.square_meter || ""}
+                    placeholder="92.5"
+                    disabled={true}
+                    readOnly
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="edit-price">Price (AED)</FieldLabel>
+                  <Input
+                    id="edit-price"
+                    type="number"
+                    value={formData.price || ""}
+                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    placeholder="120000"
                     disabled={isSaving}
                   />
                 </Field>
-              </div>
-            </FieldGroup>
-          </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <Field>
+                    <FieldLabel htmlFor="edit-latitude">Latitude</FieldLabel>
+                    <Input
+                      id="edit-latitude"
+                      type="number"
+                      step="any"
+                      value={formData.latitude || ""}
+                      onChange={(e) => {
+                        const newLat = e.target.value
+                        const newLng = formData.longitude || ""
+                        const calculatedSquareMeter = calculateSquareMeter(newLat, newLng)
+                        setFormData({ ...formData, latitude: newLat, square_meter: calculatedSquareMeter })
+                      }}
+                      placeholder="41.311081"
+                      disabled={isSaving}
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="edit-longitude">Longitude</FieldLabel>
+                    <Input
+                      id="edit-longitude"
+                      type="number"
+                      step="any"
+                      value={formData.longitude || ""}
+                      onChange={(e) => {
+                        const newLng = e.target.value
+                        const newLat = formData.latitude || ""
+                        const calculatedSquareMeter = calculateSquareMeter(newLat, newLng)
+                        setFormData({ ...formData, longitude: newLng, square_meter: calculatedSquareMeter })
+                      }}
+                      placeholder="69.240562"
+                      disabled={isSaving}
+                    />
+                  </Field>
+                </div>
+              </FieldGroup>
+            </div>
+          </RecordHistoryTabs>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => setIsDialogOpen(false)}
+              onClick={closeRecord}
               disabled={isSaving}
             >
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={isSaving} className="cursor-pointer">
+            <Button onClick={() => handleSave()} disabled={isSaving} className="cursor-pointer">
               {isSaving ? "Saving..." : "Save Changes"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
+      <SaveConflictDialog
+        conflict={saveConflict.conflict}
+        onCancel={saveConflict.dismiss}
+        onResolve={(property, data, save) => {
+          saveConflict.dismiss()
+          setEditingProperty(property)
+          setFormData(data)
+          if (save) void handleSave({ record: property, formData: data })
+        }}
+      />
+
       {/* Add Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -989,7 +955,7 @@ export default function PropertiesPage() {
             >
               Cancel
             </Button>
-            <Button onClick={handleSave} disabled={isSaving} className="cursor-pointer">
+            <Button onClick={() => handleSave()} disabled={isSaving} className="cursor-pointer">
               {isSaving ? "Creating..." : "Create Property"}
             </Button>
           </DialogFooter>
@@ -0,0 +1,422 @@
+import { useEffect, useState, useCallback, useRef } from "react"
+import { RoleBasedLayout } from "@/components/RoleBasedLayout"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Separator } from "@/components/ui/separator"
+import { SidebarTrigger } from "@/components/ui/sidebar"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useAuth } from "@/contexts/AuthContext"
+import { canManageRecycleBin } from "@/config/roles"
+import { RECYCLE_BIN_RETENTION_DAYS } from "@/config/recycle-bin"
+import { TableSkeleton } from "@/components/shared/TableSkeleton"
+import { Pagination } from "@/components/shared/Pagination"
+import { formatError } from "@/lib/error-formatter"
+import {
+  RECYCLE_BIN_ENTITIES,
+  getRecycleBinEntity,
+  isPurgeable,
+  purgeRecords,
+  purgeableFrom,
+  restoreRecords,
+  retentionCutoff,
+} from "@/lib/recycle-bin"
+import { employeeRepository } from "@/lib/repositories/employee"
+import { pageRange } from "@/lib/repositories/base"
+import type { DeletedRecord } from "@/types/recycle-bin"
+import { RotateCcw, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+export default function RecycleBinPage() {
+  const { employee } = useAuth()
+  const [activeTable, setActiveTable] = useState(RECYCLE_BIN_ENTITIES[0].table)
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [rows, setRows] = useState<DeletedRecord[]>([])
+  const [employeeNames, setEmployeeNames] = useState<Record<number, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalCount, setTotalCount] = useState(0)
+  const itemsPerPage = 20
+
+  const canManage = canManageRecycleBin(employee?.role)
+  const entity = getRecycleBinEntity(activeTable)
+
+  // Incremented on every fetch so results of an older fetch are ignored
+  const fetchIdRef = useRef(0)
+
+  const fetchCounts = useCallback(async () => {
+    try {
+      const results = await Promise.all(
+        RECYCLE_BIN_ENTITIES.map(item => item.repository.count({ deleted: "only" }))
+      )
+      setCounts(Object.fromEntries(RECYCLE_BIN_ENTITIES.map((item, index) => [item.table, results[index]])))
+    } catch (err) {
+      console.error("Error fetching recycle bin counts:", err)
+    }
+  }, [])
+
+  const fetchRows = useCallback(async (page: number = 1) => {
+    const fetchId = ++fetchIdRef.current
+    try {
+      setLoading(true)
+      const { data, count } = await getRecycleBinEntity(activeTable).repository.list({
+        deleted: "only",
+        order: [{ column: "deleted_at", direction: "desc" }],
+        ...pageRange(page, itemsPerPage),
+        count: true,
+      })
+      if (fetchId !== fetchIdRef.current) return
+
+      setRows(data as DeletedRecord[])
+      if (count !== null) {
+        setTotalCount(count)
+      }
+    } catch (err) {
+      console.error("Error fetching deleted records:", err)
+      toast.error(formatError(err) || "Failed to fetch deleted records")
+    } finally {
+      if (fetchId === fetchIdRef.current) {
+        setLoading(false)
+      }
+    }
+  }, [activeTable, itemsPerPage])
+
+  // Names for the "Deleted by" column
+  useEffect(() => {
+    if (!canManage) return
+
+    const applyEmployees = ({ data }: { data: Array<{ id: number; full_name: string }> }) =>
+      setEmployeeNames(Object.fromEntries(data.map(emp => [emp.id, emp.full_name])))
+
+    employeeRepository
+      .query({ select: "id,full_name" }, { onRevalidate: applyEmployees })
+      .then(applyEmployees)
+      .catch((err) => console.error("Error fetching employees:", err))
+  }, [canManage])
+
+  useEffect(() => {
+    if (!canManage) {
+      setLoading(false)
+      return
+    }
+    fetchCounts()
+  }, [canManage, fetchCounts])
+
+  useEffect(() => {
+    if (!canManage) return
+    setSelectedIds(new Set())
+    fetchRows(currentPage)
+  }, [canManage, currentPage, fetchRows])
+
+  const handleSelectEntity = (table: string) => {
+    if (table === activeTable) return
+    setActiveTable(table)
+    setCurrentPage(1)
+    setRows([])
+  }
+
+  const refresh = async () => {
+    setSelectedIds(new Set())
+    await Promise.all([fetchCounts(), fetchRows(currentPage)])
+  }
+
+  const handleRestore = async (targets: DeletedRecord[]) => {
+    if (targets.length === 0) return
+
+    try {
+      setIsWorking(true)
+      await restoreRecords(activeTable, targets)
+      await refresh()
+      toast.success(targets.length === 1 ? "Record restored" : `${targets.length} records restored`)
+    } catch (err) {
+      console.error("Error restoring records:", err)
+      toast.error(formatError(err) || "Failed to restore records")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handlePurge = async (targets: DeletedRecord[]) => {
+    const purgeable = targets.filter(isPurgeable)
+    if (purgeable.length === 0) {
+      toast.error(`Records can only be purged ${RECYCLE_BIN_RETENTION_DAYS} days after they were deleted`)
+      return
+    }
+
+    const skipped = targets.length - purgeable.length
+    const message = `Permanently delete ${purgeable.length} record(s)? This action cannot be undone.`
+      + (skipped > 0 ? ` ${skipped} record(s) still within the retention period will be kept.` : "")
+    if (!confirm(message)) return
+
+    try {
+      setIsWorking(true)
+      const purged = await purgeRecords(activeTable, purgeable)
+      await refresh()
+      toast.success(`${purged} record(s) permanently deleted`)
+      if (purged < purgeable.length) {
+        toast.info(`${purgeable.length - purged} record(s) were kept: some of their items were deleted later and are still within the retention period`)
+      }
+    } catch (err) {
+      console.error("Error purging records:", err)
+      toast.error(formatError(err) || "Failed to purge records")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // Purge everything in this group that is past the retention period, not just the current page
+  const handlePurgeExpired = async () => {
+    try {
+      setIsWorking(true)
+      const { data } = await entity.repository.list({
+        select: "id,deleted_at",
+        deleted: "only",
+        filters: [{ column: "deleted_at", operator: "lt", value: retentionCutoff() }],
+      })
+      setIsWorking(false)
+      await handlePurge(data as DeletedRecord[])
+    } catch (err) {
+      console.error("Error fetching expired records:", err)
+      toast.error(formatError(err) || "Failed to purge expired records")
+      setIsWorking(false)
+    }
+  }
+
+  const selectedRows = rows.filter(row => selectedIds.has(row.id))
+  const totalPages = Math.ceil(totalCount / itemsPerPage)
+
+  const breadcrumb = (
+    <Breadcrumb>
+      <BreadcrumbList>
+        <BreadcrumbItem className="hidden md:block">
+          <BreadcrumbLink href="/dashboard">Dashboard</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbSeparator className="hidden md:block" />
+        <BreadcrumbItem>
+          <BreadcrumbPage>Recycle Bin</BreadcrumbPage>
+        </BreadcrumbItem>
+      </BreadcrumbList>
+    </Breadcrumb>
+  )
+
+  if (!canManage) {
+    return (
+      <RoleBasedLayout>
+        <div className="flex flex-col gap-4 p-4 pt-0">
+          <div className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
+            <SidebarTrigger />
+            <Separator orientation="vertical" className="mr-2 h-4" />
+            {breadcrumb}
+          </div>
+          <div className="flex flex-1 items-center justify-center">
+            <div className="text-center">
+              <h1 className="text-2xl font-bold">Access Denied</h1>
+              <p className="text-muted-foreground mt-2">
+                You don't have permission to view the recycle bin.
+              </p>
+            </div>
+          </div>
+        </div>
+      </RoleBasedLayout>
+    )
+  }
+
+  return (
+    <RoleBasedLayout>
+      <header className="flex h-16 shrink-0 items-center gap-2">
+        <div className="flex items-center gap-2 px-4">
+          <SidebarTrigger className="-ml-1" />
+          <Separator
+            orientation="vertical"
+            className="mr-2 data-[orientation=vertical]:h-4"
+          />
+          {breadcrumb}
+        </div>
+      </header>
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+        <div className="rounded-lg border bg-card p-6">
+          <div className="flex items-center justify-between mb-2">
+            <h1 className="text-2xl font-bold">Recycle Bin</h1>
+            <Button
+              variant="outline"
+              onClick={handlePurgeExpired}
+              disabled={isWorking || !counts[activeTable]}
+              className="cursor-pointer"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Purge expired
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Deleted records are kept for {RECYCLE_BIN_RETENTION_DAYS} days before they can be purged.
+            Restoring a project also restores the media, travel times and payment plans deleted with it.
+          </p>
+
+          {/* Entity groups */}
+          <div className="mb-4 flex flex-wrap gap-2">
+            {RECYCLE_BIN_ENTITIES.map((item) => (
+              <Button
+                key={item.table}
+                size="sm"
+                variant={item.table === activeTable ? "default" : "outline"}
+                onClick={() => handleSelectEntity(item.table)}
+                className="cursor-pointer"
+              >
+                {item.label}
+                <span className="ml-1 opacity-70">({counts[item.table] ?? 0})</span>
+              </Button>
+            ))}
+          </div>
+
+          {selectedRows.length > 0 && (
+            <div className="mb-4 flex items-center justify-between rounded-md border bg-muted/50 p-3">
+              <span className="text-sm">{selectedRows.length} selected</span>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRestore(selectedRows)}
+                  disabled={isWorking}
+                  className="cursor-pointer"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => handlePurge(selectedRows)}
+                  disabled={isWorking || !selectedRows.some(isPurgeable)}
+                  className="cursor-pointer"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Purge
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <TableSkeleton
+              columns={4}
+              rows={10}
+              hasActions
+              hasCheckbox
+              columnHeaders={["Record", "Deleted At", "Deleted By", "Purgeable From"]}
+            />
+          ) : (
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">
+                      <Checkbox
+                        checked={rows.length > 0 && selectedIds.size === rows.length}
+                        onCheckedChange={(checked) => {
+                          setSelectedIds(checked ? new Set(rows.map(row => row.id)) : new Set())
+                        }}
+                        className="cursor-pointer"
+                      />
+                    </TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Deleted At</TableHead>
+                    <TableHead>Deleted By</TableHead>
+                    <TableHead>Purgeable From</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No deleted {entity.label.toLowerCase()}.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rows.map((row) => (
+                      <TableRow key={row.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(row.id)}
+                            onCheckedChange={(checked: boolean) => {
+                              const newSelected = new Set(selectedIds)
+                              if (checked) {
+                                newSelected.add(row.id)
+                              } else {
+                                newSelected.delete(row.id)
+                              }
+                              setSelectedIds(newSelected)
+                            }}
+                            className="cursor-pointer"
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{entity.describe(row)}</TableCell>
+                        <TableCell>{new Date(row.deleted_at).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {row.deleted_by !== null ? employeeNames[row.deleted_by] || `Employee #${row.deleted_by}` : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {isPurgeable(row) ? "Now" : purgeableFrom(row).toISOString().split("T")[0]}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Restore"
+                              onClick={() => handleRestore([row])}
+                              disabled={isWorking}
+                              className="cursor-pointer"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={isPurgeable(row) ? "Delete permanently" : "Still within the retention period"}
+                              onClick={() => handlePurge([row])}
+                              disabled={isWorking || !isPurgeable(row)}
+                              className="cursor-pointer"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {!loading && (
+            <div className="mt-4">
+              <Pagination
+                currentPage={currentPage}
+                totalPages={totalPages}
+                onPageChange={setCurrentPage}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </RoleBasedLayout>
+  )
+}
@@ -26,4 +26,6 @@ export interface PropertyTransaction {
   passport_expiry_date: string | null
   birth_date: string | null
   search_vector: string | null
+  // Import that added the row (null: entered by hand)
+  import_job_id: number | null
 }
@@ -0,0 +1,23 @@
+import type { UserRole } from '@/config/roles'
+
+// "delete" is a soft delete for entities with a recycle bin; "purge" removes the row for good;
+// "rollback" removes the rows an import added; "export" downloads rows as a file
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'rollback' | 'export'
+
+export interface AuditChanges {
+  // Only the fields that changed (full row for the other actions)
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+}
+
+export interface AuditLog {
+  id: number
+  actor_id: number | null
+  actor_role: UserRole | null
+  actor_name: string | null
+  entity: string
+  record_id: string
+  action: AuditAction
+  changes: AuditChanges
+  created_at: string
+}
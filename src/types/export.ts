@@ -0,0 +1,10 @@
+export type ExportFormat = 'csv' | 'xlsx'
+
+// A column of a table that can be written to an export file
+export interface ExportColumn<T> {
+  key: keyof T & string
+  // Header in the file
+  label: string
+  // Personal data, only exported by roles allowed to (see canExportPersonalData)
+  personal?: boolean
+}
@@ -0,0 +1,83 @@
+export type ImportFieldType = 'text' | 'number' | 'date'
+
+// A column of a table that spreadsheet columns can be imported into
+export interface ImportField<T> {
+  key: keyof T & string
+  label: string
+  type: ImportFieldType
+  // Rows without a value for a required field are rejected
+  required?: boolean
+  // Spreadsheet headers that map to the field without asking (compared case- and punctuation-insensitively)
+  aliases?: string[]
+}
+
+// Spreadsheet header -> table column (null: the column is not imported)
+export type ColumnMapping = Record<string, string | null>
+
+// Mapping remembered for spreadsheets with the same headers (one per source template)
+export interface ImportMapping {
+  id: number
+  // Table the spreadsheets are imported into, e.g. "property_transaction"
+  table_name: string
+  // Normalized headers of the template, see templateSignature
+  signature: string
+  mapping: ColumnMapping
+  created_by: number | null
+  created_at: string
+  updated_at: string
+}
+
+// What an import does with a row that matches an existing record on the duplicate key
+// ("keep" inserts it anyway)
+export type DuplicateAction = 'skip' | 'update' | 'keep'
+
+// Columns that together identify one real-world record, e.g. one sale of one unit
+export interface DuplicateKey<T> {
+  id: string
+  label: string
+  columns: Array<keyof T & string>
+}
+
+// "running" jobs whose browser was closed never finish; see isJobInterrupted
+export type ImportJobStatus = 'running' | 'completed' | 'failed'
+
+// A spreadsheet row that was not imported, with its cells so it can be fixed and uploaded again
+export interface ImportRowError {
+  // Row number in the file
+  number: number
+  cells: unknown[]
+  reasons: string[]
+}
+
+// One upload of a spreadsheet, with its progress and outcome
+export interface ImportJob {
+  id: number
+  table_name: string
+  file_name: string
+  status: ImportJobStatus
+  // Data rows in the file
+  total_rows: number
+  inserted: number
+  updated: number
+  skipped: number
+  failed: number
+  // Duplicate key the rows were checked against (null: not checked) and what was done with duplicates
+  duplicate_key: string | null
+  on_duplicate: DuplicateAction
+  // Headers of the file, the columns of the failed rows report
+  headers: string[]
+  failed_rows: ImportRowError[]
+  // Why the job stopped early
+  error: string | null
+  created_by: number | null
+  created_by_name: string | null
+  started_at: string
+  finished_at: string | null
+  // Set once the rows the job inserted were removed again
+  rolled_back_at: string | null
+  rolled_back_by: number | null
+  rolled_back_by_name: string | null
+  rolled_back_rows: number | null
+  created_at: string
+  updated_at: string
+}
@@ -0,0 +1,11 @@
+export interface AppNotification {
+  id: number
+  employee_id: number
+  title: string
+  body: string | null
+  // In-app path opened from the notification, e.g. a filtered list view
+  link: string | null
+  read_at: string | null
+  created_at: string
+  updated_at: string
+}
@@ -0,0 +1,12 @@
+// Columns present on every table that supports soft delete
+export interface SoftDeleteFields {
+  deleted_at?: string | null
+  deleted_by?: number | null
+}
+
+// A soft-deleted row as listed in the recycle bin
+export type DeletedRecord = Record<string, unknown> & {
+  id: number
+  deleted_at: string
+  deleted_by: number | null
+}
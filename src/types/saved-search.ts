@@ -0,0 +1,37 @@
+import type { UserRole } from '@/config/roles'
+
+// private: only the owner; role: everyone with the owner's role; everyone: the whole team
+export type SavedSearchVisibility = 'private' | 'role' | 'everyone'
+
+export interface SavedSearch {
+  id: number
+  owner_id: number
+  owner_name: string | null
+  // Table the search runs against (e.g. "property_transaction"); searches are listed per table
+  table_name: string
+  name: string
+  query: string
+  visibility: SavedSearchVisibility
+  // Role the search is shared with (only set for "role" visibility)
+  shared_role: UserRole | null
+  // Pinned searches are listed first
+  pinned: boolean
+  created_at: string
+  updated_at: string
+}
+
+// instant: after each import that adds matching rows; daily: one digest per day
+export type SavedSearchAlertFrequency = 'instant' | 'daily'
+
+// An employee's alert on a saved search (their own or one shared with them)
+export interface SavedSearchSubscription {
+  id: number
+  saved_search_id: number
+  employee_id: number
+  frequency: SavedSearchAlertFrequency
+  // Highest row id already checked against the search; only rows added after it can alert
+  last_checked_id: number
+  last_checked_at: string
+  created_at: string
+  updated_at: string
+}